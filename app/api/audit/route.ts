@@ -0,0 +1,131 @@
+import { NextRequest } from "next/server";
+import { getUserIdentity } from "../../../lib/auth/identity";
+import { AUDIT_EVENT_TYPES, AuditEventType, AuditOutcome, AuditQuery, exportAudit, queryAudit } from "../../../lib/audit/auditLog";
+import { checkPermission } from "../../../lib/users/roles";
+import {
+  AuthenticationError,
+  UserError,
+  ValidationError,
+} from "../../../lib/errors/userError";
+import { StructuredLogger, generateExecutionId } from "../../../lib/logging/structuredLogger";
+
+const DEFAULT_LIMIT = 100;
+
+const MAX_LIMIT = 1000;
+
+const OUTCOMES: AuditOutcome[] = ["accepted", "rejected", "succeeded", "failed"];
+
+
+/**
+ * Queries the audit trail; needs "audit:read". Filters: userId, action,
+ * type, outcome, executionId, from and to (ISO time or epoch ms), limit.
+ * format=jsonl or format=csv downloads every match for compliance reviews
+ * instead of the latest `limit` as JSON.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = generateExecutionId();
+
+  try {
+    let identity;
+    try {
+      identity = await getUserIdentity();
+    } catch (_authError) {
+      const error = new AuthenticationError(requestId);
+      StructuredLogger.error(requestId, "system", error.message, error.toLogEntry());
+      return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
+    }
+
+    const denied = checkPermission(identity, "audit:read", {}, requestId);
+    if (denied) {
+      throw denied;
+    }
+
+    const params = request.nextUrl.searchParams;
+    const format = params.get("format") ?? "json";
+    if (format !== "json" && format !== "jsonl" && format !== "csv") {
+      throw new ValidationError("'format' must be json, jsonl or csv", requestId, { format });
+    }
+
+    const outcome = params.get("outcome") ?? undefined;
+    if (outcome !== undefined && !OUTCOMES.includes(outcome as AuditOutcome)) {
+      throw new ValidationError(`'outcome' must be one of ${OUTCOMES.join(", ")}`, requestId, { outcome });
+    }
+
+    const type = params.get("type") ?? undefined;
+    if (type !== undefined && !AUDIT_EVENT_TYPES.includes(type as AuditEventType)) {
+      throw new ValidationError(`'type' must be one of ${AUDIT_EVENT_TYPES.join(", ")}`, requestId, { type });
+    }
+
+    const query: AuditQuery = {
+      userId: params.get("userId") ?? undefined,
+      action: params.get("action")?.toUpperCase(),
+      type: type as AuditEventType | undefined,
+      outcome: outcome as AuditOutcome | undefined,
+      executionId: params.get("executionId") ?? undefined,
+      from: parseTime(params.get("from"), "from", requestId),
+      to: parseTime(params.get("to"), "to", requestId),
+      limit: format === "json" ? parseLimit(params.get("limit"), requestId) : undefined,
+    };
+    const entries = queryAudit(query);
+
+    StructuredLogger.info(requestId, "system", "Audit trail queried", {
+      userId: identity.userId,
+      format,
+      query,
+      results: entries.length,
+    });
+
+    if (format !== "json") {
+      return new Response(exportAudit(entries, format), {
+        headers: {
+          "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson",
+          "Content-Disposition": `attachment; filename="deploybot-audit-${new Date().toISOString().slice(0, 10)}.${format}"`,
+        },
+      });
+    }
+
+    return Response.json({
+      timestamp: Date.now(),
+      query,
+      count: entries.length,
+      entries,
+    });
+  } catch (error) {
+    if (error instanceof UserError) {
+      StructuredLogger.error(requestId, "system", error.message, error.toLogEntry());
+      return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
+    }
+
+    StructuredLogger.error(requestId, "system", "Error querying audit trail", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+
+function parseTime(value: string | null, name: string, requestId: string): number | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new ValidationError(`'${name}' must be an ISO time or epoch milliseconds`, requestId, { [name]: value });
+  }
+  return time;
+}
+
+
+function parseLimit(value: string | null, requestId: string): number {
+  if (value === null) {
+    return DEFAULT_LIMIT;
+  }
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new ValidationError(`'limit' must be between 1 and ${MAX_LIMIT}`, requestId, { limit: value });
+  }
+  return limit;
+}
@@ -0,0 +1,80 @@
+import { NextRequest } from "next/server";
+import { getUserIdentity } from "../../../../lib/auth/identity";
+import { AuditAnchor, verifyAuditChain } from "../../../../lib/audit/auditLog";
+import { checkPermission } from "../../../../lib/users/roles";
+import { AuthenticationError, UserError, ValidationError } from "../../../../lib/errors/userError";
+import { StructuredLogger, generateExecutionId } from "../../../../lib/logging/structuredLogger";
+
+
+/**
+ * Recomputes the whole hash chain; needs "audit:read". `valid: false` names
+ * the first entry that was edited, removed or inserted. Pass seq and hash
+ * from an earlier verification, kept outside the log, to also catch entries
+ * cut off its end; `limitations` says what this check could not rule out.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = generateExecutionId();
+
+  try {
+    let identity;
+    try {
+      identity = await getUserIdentity();
+    } catch (_authError) {
+      const error = new AuthenticationError(requestId);
+      StructuredLogger.error(requestId, "system", error.message, error.toLogEntry());
+      return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
+    }
+
+    const denied = checkPermission(identity, "audit:read", {}, requestId);
+    if (denied) {
+      StructuredLogger.error(requestId, "system", denied.message, denied.toLogEntry());
+      return Response.json(denied.toApiResponse(), { status: denied.getHttpStatus() });
+    }
+
+    const anchor = parseAnchor(request.nextUrl.searchParams, requestId);
+    const verification = verifyAuditChain(undefined, anchor);
+    if (!verification.valid) {
+      StructuredLogger.error(requestId, "system", "Audit chain verification failed", { ...verification });
+    }
+
+    const limitations: string[] = [];
+    if (!verification.keyed) {
+      limitations.push("Hashes are not keyed: anyone who can write the log can rebuild a chain that verifies. Set AUDIT_HMAC_KEY to prevent this.");
+    }
+    if (!verification.anchor) {
+      limitations.push("No anchor: entries removed from the end of the log go unnoticed. Pass seq and hash from an earlier verification to check for this.");
+    }
+
+    return Response.json({
+      timestamp: Date.now(),
+      verification,
+      limitations,
+    });
+  } catch (error) {
+    if (error instanceof UserError) {
+      StructuredLogger.error(requestId, "system", error.message, error.toLogEntry());
+      return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
+    }
+
+    StructuredLogger.error(requestId, "system", "Error verifying audit chain", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+
+function parseAnchor(params: URLSearchParams, requestId: string): AuditAnchor | undefined {
+  const seq = params.get("seq");
+  const hash = params.get("hash");
+  if (seq === null && hash === null) {
+    return undefined;
+  }
+  if (seq === null || !/^[1-9]\d*$/.test(seq) || hash === null || !/^[0-9a-f]{64}$/.test(hash)) {
+    throw new ValidationError("'seq' and 'hash' must be given together: a positive integer and a 64-character hex hash", requestId, { seq, hash });
+  }
+  return { seq: Number(seq), hash };
+}
@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, describe, expect, it, mock } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { getLocalAuthOptions, LocalIdentityProvider } from "../../../lib/auth/localProvider";
+
+// Route handlers read the caller from next/headers, which only works inside Next.
+let requestHeaders = new Headers();
+mock.module("next/headers", () => ({ headers: async () => requestHeaders }));
+
+let POST: typeof import("./route").POST;
+
+let dir: string;
+
+
+beforeAll(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "chat-route-"));
+  fs.writeFileSync(path.join(dir, "users.json"), JSON.stringify([
+    { id: "alice", role: "ADMIN" },
+    { id: "bob", role: "FREE" },
+    { id: "carol", role: "NORMAL" },
+  ]));
+
+  Object.assign(process.env, {
+    AUTH_PROVIDER: "local",
+    LOCAL_USERS_FILE: path.join(dir, "users.json"),
+    K8S_EXECUTOR: "simulator",
+    QUEUE_STORE: "memory",
+    QUOTA_STORE: "memory",
+    AUDIT_STORE: "memory",
+    API_TOKEN_STORE: "memory",
+  });
+  // Read once on import, so the environment has to be set first.
+  ({ POST } = await import("./route"));
+});
+
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+
+async function chat(userId: string | null, message: string) {
+  requestHeaders = new Headers(userId ? { "x-deploybot-user": userId } : {});
+  const response = await POST(new NextRequest("http://localhost/api/chat", {
+    method: "POST",
+    body: JSON.stringify({ message }),
+  }));
+  return { status: response.status, body: await response.json() };
+}
+
+
+describe("POST /api/chat with the local provider", () => {
+  it("queues an ADMIN command at the top priority without a quota", async () => {
+    const { status, body } = await chat("alice", "scale loadlab to 3");
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ status: "accepted", action: "SCALE", target: "loadlab", namespace: "demo" });
+    expect(body.execution).toMatchObject({ priority: 1, priorityLabel: "ADMIN" });
+    expect(body.user).toMatchObject({ role: "ADMIN", quota: null });
+  });
+
+
+  it("charges a FREE user's quota and rejects what no longer fits", async () => {
+    const first = await chat("bob", "restart loadlab");
+    expect(first.status).toBe(200);
+    expect(first.body.execution).toMatchObject({ priority: 2, priorityLabel: "FREE" });
+    expect(first.body.user.quota).toMatchObject({ limit: 3, used: 2, remaining: 1 });
+
+    const second = await chat("bob", "restart loadlab");
+    expect(second.status).toBe(429);
+    expect(second.body.user).toMatchObject({ role: "FREE", quotaRemaining: 1 });
+
+    // Reads are never charged.
+    expect((await chat("bob", "status loadlab")).status).toBe(200);
+  });
+
+
+  it("queues a NORMAL command at standard priority", async () => {
+    const { status, body } = await chat("carol", "scale loadlab to 2");
+
+    expect(status).toBe(200);
+    expect(body.execution).toMatchObject({ priority: 3, priorityLabel: "NORMAL" });
+  });
+
+
+  it("rejects callers it does not know", async () => {
+    expect((await chat("mallory", "status loadlab")).status).toBe(401);
+    expect((await chat(null, "status loadlab")).status).toBe(401);
+  });
+});
+
+
+describe("X-DeployBot-User in production", () => {
+  it("is rejected", () => {
+    const previous = process.env.NODE_ENV;
+    Object.assign(process.env, { NODE_ENV: "production" });
+    try {
+      const provider = new LocalIdentityProvider(getLocalAuthOptions());
+      expect(() => provider.identify(new Headers({ "x-deploybot-user": "alice" }))).toThrow(
+        "Unauthorized: x-deploybot-user is disabled in production"
+      );
+    } finally {
+      Object.assign(process.env, { NODE_ENV: previous });
+    }
+  });
+});
@@ -1,16 +1,45 @@
 import { NextRequest } from "next/server";
 import { parseCommand } from "../../../lib/parser/parseCommand";
-import {
-  getUserIdentity,
-  incrementQuota,
-  getPriorityForUser,
-  getQuotaRemaining,
-} from "../../../lib/auth/identity";
+import { getUserIdentity, getPriorityForUser, mapRoleToPriority, UserIdentity } from "../../../lib/auth/identity";
+import { chargeQuota, getQuotaConfig, getQuotaStatus, QuotaStatus } from "../../../lib/auth/quota";
 import { ScheduledCommand, PriorityLevel } from "../../../lib/scheduler/types";
+import {
+  getScaleChange,
+  isRelativeScale,
+  resolveScaleTarget,
+  describeScaleChange,
+} from "../../../lib/scheduler/resolveScale";
 import { getSharedQueue } from "../../../lib/scheduler/sharedQueue";
 import { startWorkerOnce } from "@/lib/bootstrap/workerBootstrap";
+import {
+  createExecutionRecord,
+  getExecutionRecord,
+  getExecutionWindow,
+} from "../../../lib/observability/executionStore";
+import { cancelCommand, reprioritizeCommand } from "../../../lib/scheduler/queueControl";
 import { StructuredLogger, generateExecutionId } from "../../../lib/logging/structuredLogger";
-import { AuthenticationError, ValidationError, QuotaExceededError } from "../../../lib/errors/userError";
+import {
+  AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+  PolicyViolationError,
+  ValidationError,
+  QuotaExceededError,
+  TargetNotAllowedError,
+  UserError,
+} from "../../../lib/errors/userError";
+import { KubernetesError } from "../../../lib/errors/infraError";
+import {
+  resolveTarget,
+  resolveLogSubject,
+  getManagedDeployments,
+  formatTarget,
+  ManagedDeployment,
+} from "../../../lib/k8s/registry";
+import { DeploymentMutation, MutationPreview, RolloutRevision, selectRevision } from "../../../lib/k8s/client";
+import { evaluatePolicies, formatVerdict, PolicyDecision, PolicyRequest } from "../../../lib/policy/engine";
+import { checkPermission, describeRole, getActionPermission, getCommandPermission } from "../../../lib/users/roles";
+import { AuditEventType, AuditRecord, recordAudit } from "../../../lib/audit/auditLog";
 
 export function getQueue() {
   return getSharedQueue();
@@ -25,6 +54,121 @@ function generateCommandId(): string {
 }
 
 
+// Every decision on a chat command goes into the audit trail, tagged with the caller.
+function auditCommand(
+  type: AuditEventType,
+  identity: UserIdentity,
+  executionId: string,
+  details: Omit<AuditRecord, "type" | "executionId" | "userId" | "tokenId"> = {}
+): void {
+  recordAudit({ type, executionId, userId: identity.userId, tokenId: identity.token?.tokenId, ...details });
+}
+
+function auditRejection(
+  error: UserError,
+  identity: UserIdentity,
+  executionId: string,
+  details: { action?: string; target?: ManagedDeployment; data?: Record<string, unknown> } = {}
+): void {
+  auditCommand("command.rejected", identity, executionId, {
+    action: details.action,
+    target: details.target ? formatTarget(details.target) : undefined,
+    outcome: "rejected",
+    data: { error: error.message, errorClass: error.name, metadata: error.metadata, ...details.data },
+  });
+}
+
+function rejectUnauthorized(
+  error: AuthorizationError,
+  identity: UserIdentity,
+  executionId: string,
+  details: { action?: string; target?: ManagedDeployment } = {}
+): Response {
+  StructuredLogger.error(executionId, "queued", error.message, error.toLogEntry());
+  auditRejection(error, identity, executionId, details);
+  return Response.json({
+    ...error.toApiResponse(),
+    suggestions: [
+      `Your role: ${describeRole(identity.role)}`,
+      "Ask an administrator to grant the permission or run the command",
+    ]
+  }, { status: error.getHttpStatus() });
+}
+
+function policySuggestions(target: ManagedDeployment, decision: PolicyDecision): string[] {
+  const rules = new Set(decision.denials.map(denial => denial.rule));
+  const suggestions: string[] = [];
+  if (rules.has("replica-bounds")) {
+    suggestions.push(
+      `Try: scale ${target.deployment} in ${target.namespace} to ${target.minReplicas}`,
+      `Valid range: ${target.minReplicas}-${target.maxReplicas} replicas`
+    );
+  }
+  if (rules.has("change-freeze") || rules.has("role-actions")) {
+    suggestions.push("Ask an administrator to run the command");
+  }
+  suggestions.push("Type 'help' to see the active policies");
+  return suggestions;
+}
+
+function rejectByPolicy(
+  request: PolicyRequest,
+  decision: PolicyDecision,
+  command: { action: string; targetReplicas?: number; change?: string; revision?: number },
+  executionId: string
+): Response {
+  const error = new PolicyViolationError(decision.denials, executionId, {
+    action: request.action,
+    deployment: request.target.deployment,
+    namespace: request.target.namespace,
+    role: request.role,
+    replicas: request.replicas,
+  });
+  StructuredLogger.error(executionId, "queued", error.message, error.toLogEntry());
+  return Response.json({
+    ...error.toApiResponse(),
+    command,
+    policy: decision.verdicts,
+    suggestions: policySuggestions(request.target, decision),
+  }, { status: error.getHttpStatus() });
+}
+
+
+/**
+ * Sends the command's patch with dryRun=All. Not reaching the API server is
+ * reported next to the local preview instead of failing the simulation.
+ */
+async function runServerDryRun(
+  target: ManagedDeployment,
+  mutation: DeploymentMutation,
+  executionId: string
+): Promise<{ dryRun: MutationPreview | null; dryRunError: string | null }> {
+  try {
+    const { getK8sExecutor } = await import("../../../lib/k8s/client");
+    return { dryRun: await getK8sExecutor().previewMutation(target, mutation, executionId), dryRunError: null };
+  } catch (error) {
+    StructuredLogger.warn(executionId, "system", "Server-side dry run failed", {
+      deployment: target.deployment,
+      namespace: target.namespace,
+      action: mutation.action,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {
+      dryRun: null,
+      dryRunError: error instanceof UserError || error instanceof KubernetesError ? error.message : "Server-side dry run failed",
+    };
+  }
+}
+
+
+function describeMissingRevision(revision: number | undefined, available: number[]): string {
+  const known = available.length > 0 ? ` Available revisions: ${available.join(", ")}.` : "";
+  return revision === undefined
+    ? `No earlier revision to roll back to.${known}`
+    : `Revision ${revision} not found.${known}`;
+}
+
+
 export async function GET(_request: NextRequest) {
   return Response.json({ message: "Chat API is working", timestamp: Date.now() });
 }
@@ -37,10 +181,11 @@ export async function POST(request: NextRequest) {
   try {
     let identity;
     try {
-      identity = await getUserIdentity();
+      identity = await getUserIdentity({ apiTokens: true, requestId: executionId });
     } catch (_authError) {
       const error = new AuthenticationError(executionId);
       StructuredLogger.error(executionId, "queued", error.message, error.toLogEntry());
+      recordAudit({ type: "command.rejected", executionId, outcome: "rejected", data: { error: error.message } });
       return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
     }
 
@@ -53,7 +198,34 @@ export async function POST(request: NextRequest) {
       return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
     }
 
-    const parsed = parseCommand(message);
+    const parseResult = parseCommand(message);
+    auditCommand("command.received", identity, executionId, parseResult.ok
+      ? {
+        action: parseResult.command.action ?? parseResult.command.queueAction ?? parseResult.command.query,
+        data: { message, parsed: parseResult.command },
+      }
+      : { outcome: "rejected", data: { message, parseError: parseResult.error } });
+
+    if (!parseResult.ok) {
+      const { error: parseError } = parseResult;
+      const error = new ValidationError(parseError.message, executionId, {
+        input: parseError.input,
+        tokenIndex: parseError.tokenIndex,
+        position: parseError.position,
+        token: parseError.token,
+        expected: parseError.expected,
+      });
+      StructuredLogger.error(executionId, "queued", error.message, error.toLogEntry());
+      return Response.json({
+        ...error.toApiResponse(),
+        suggestions: [
+          ...parseError.suggestions.map(suggestion => `Did you mean: ${suggestion}`),
+          "Type 'help' to see available commands",
+        ]
+      }, { status: error.getHttpStatus() });
+    }
+
+    const parsed = parseResult.command;
 
 
     if (parsed.type === "HELP") {
@@ -70,9 +242,93 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    if (parsed.type === "QUEUE" && parsed.commandId) {
+      try {
+        const record = parsed.queueAction === "CANCEL"
+          ? cancelCommand(parsed.commandId, identity, executionId)
+          : reprioritizeCommand(parsed.commandId, parsed.priority ?? 0, identity, executionId);
+
+        return Response.json({
+          type: "QUEUE",
+          action: parsed.queueAction,
+          status: "success",
+          message: parsed.queueAction === "CANCEL"
+            ? `Command ${record.commandId} cancelled`
+            : `Command ${record.commandId} moved to priority ${record.priority}`,
+          execution: record,
+          userId: identity.userId,
+          role: identity.role,
+          timestamp: Date.now(),
+        });
+      } catch (queueError) {
+        if (!(queueError instanceof UserError)) {
+          throw queueError;
+        }
+        StructuredLogger.error(executionId, "queued", queueError.message, queueError.toLogEntry());
+        auditRejection(queueError, identity, executionId, { action: parsed.queueAction, data: { commandId: parsed.commandId } });
+        return Response.json({
+          ...queueError.toApiResponse(),
+          suggestions: [
+            "Only commands still waiting in the queue can be cancelled or reprioritized",
+            "The command ID is shown on the accepted command card",
+          ]
+        }, { status: queueError.getHttpStatus() });
+      }
+    }
+
+    const eventsRecord = parsed.query === "EVENTS" && parsed.commandId ? getExecutionRecord(parsed.commandId) : null;
+    if (parsed.query === "EVENTS" && parsed.commandId && !eventsRecord) {
+      const error = new NotFoundError(`Command ${parsed.commandId} not found`, executionId, { commandId: parsed.commandId });
+      StructuredLogger.error(executionId, "queued", error.message, error.toLogEntry());
+      return Response.json({
+        ...error.toApiResponse(),
+        suggestions: [
+          "The command ID is shown on the accepted command card",
+          "Use 'events' for the deployment's recent events",
+        ]
+      }, { status: error.getHttpStatus() });
+    }
+
+    let target: ManagedDeployment;
+    let logPod: string | undefined;
+    try {
+      if (parsed.query === "LOGS") {
+        const subject = resolveLogSubject(parsed.logs?.name, parsed.target?.namespace, executionId);
+        target = subject.target;
+        logPod = subject.pod;
+      } else {
+        target = resolveTarget(eventsRecord?.target ?? parsed.target, executionId);
+      }
+    } catch (targetError) {
+      if (!(targetError instanceof TargetNotAllowedError || targetError instanceof ValidationError)) {
+        throw targetError;
+      }
+      StructuredLogger.error(executionId, "queued", targetError.message, targetError.toLogEntry());
+      auditRejection(targetError, identity, executionId, { action: parsed.action });
+      return Response.json({
+        ...targetError.toApiResponse(),
+        suggestions: getManagedDeployments().map(
+          managed => `${managed.deployment} in ${managed.namespace} (${managed.minReplicas}-${managed.maxReplicas} replicas)`
+        ),
+      }, { status: targetError.getHttpStatus() });
+    }
+
+    const permission = getCommandPermission(parsed);
+    const denied = permission ? checkPermission(identity, permission, { target }, executionId) : null;
+    if (denied) {
+      return rejectUnauthorized(denied, identity, executionId, { action: parsed.action, target });
+    }
+
+    if (eventsRecord && eventsRecord.userId !== identity.userId) {
+      const deniedEvents = checkPermission(identity, "executions:read-any", { target }, executionId);
+      if (deniedEvents) {
+        return rejectUnauthorized(deniedEvents, identity, executionId, { target });
+      }
+    }
+
 
     if (parsed.type === "READ") {
-      if (parsed.rawText.includes("status") || parsed.rawText === "status") {
+      if (parsed.query === "STATUS") {
 
         try {
           const { getExecutionState } = await import("../../../lib/observability/executionState");
@@ -80,7 +336,7 @@ export async function POST(request: NextRequest) {
           
           const executionState = getExecutionState();
           const k8sExecutor = getK8sExecutor();
-          const k8sStatus = await k8sExecutor.getStatus(executionId);
+          const k8sStatus = await k8sExecutor.getStatus(target, executionId);
           
           return Response.json({
             type: "READ",
@@ -94,12 +350,16 @@ export async function POST(request: NextRequest) {
               uptime: executionState.uptimeMs
             },
             kubernetes: {
-              deployment: "loadlab",
-              namespace: "demo",
+              deployment: target.deployment,
+              namespace: target.namespace,
               replicas: k8sStatus.replicas,
               readyReplicas: k8sStatus.readyReplicas,
               totalPods: k8sStatus.pods.length,
-              readyPods: k8sStatus.pods.filter(p => p.startTime !== null).length
+              readyPods: k8sStatus.pods.filter(p => p.ready).length,
+              restarts: k8sStatus.pods.reduce((total, p) => total + p.restarts, 0),
+              unhealthy: k8sStatus.pods
+                .filter(p => !p.ready)
+                .map(p => ({ name: p.name, status: p.status }))
             },
             userId: identity.userId,
             role: identity.role,
@@ -118,17 +378,37 @@ export async function POST(request: NextRequest) {
         }
       }
       
-      if (parsed.rawText.includes("pods") || parsed.rawText.includes("show")) {
+      if (parsed.query === "PODS") {
 
         try {
           const { getK8sExecutor } = await import("../../../lib/k8s/client");
           const k8sExecutor = getK8sExecutor();
-          const k8sStatus = await k8sExecutor.getStatus(executionId);
+          const [k8sStatus, usage] = await Promise.all([
+            k8sExecutor.getStatus(target, executionId),
+            // Usage is decoration on this view; losing it must not fail the listing.
+            k8sExecutor.getPodUsage(target, executionId).catch(error => {
+              StructuredLogger.warn(executionId, "completed", "Pod usage unavailable for pod listing", {
+                deployment: target.deployment,
+                namespace: target.namespace,
+                error: error instanceof Error ? error.message : String(error),
+              });
+              return null;
+            }),
+          ]);
           
           const pods = k8sStatus.pods.map(pod => ({
             name: pod.name,
-            status: pod.startTime ? "Running" : "Pending",
-            ready: pod.startTime !== null,
+            status: pod.status,
+            phase: pod.phase,
+            ready: pod.ready,
+            readyContainers: pod.readyContainers,
+            totalContainers: pod.totalContainers,
+            containers: pod.containers,
+            restarts: pod.restarts,
+            node: pod.node,
+            podIP: pod.podIP,
+            revision: pod.revision,
+            usage: usage?.pods.find(candidate => candidate.name === pod.name) ?? null,
             uptime: pod.startTime ? Math.floor((Date.now() - new Date(pod.startTime).getTime()) / 1000) : 0
           }));
           
@@ -137,11 +417,15 @@ export async function POST(request: NextRequest) {
             subtype: "PODS",
             status: "success",
             pods: pods,
+            metrics: {
+              available: usage?.available ?? false,
+              reason: usage ? usage.reason : "Pod usage could not be read"
+            },
             summary: {
               total: pods.length,
               ready: pods.filter(p => p.ready).length,
-              deployment: "loadlab",
-              namespace: "demo"
+              deployment: target.deployment,
+              namespace: target.namespace
             },
             userId: identity.userId,
             role: identity.role,
@@ -160,6 +444,165 @@ export async function POST(request: NextRequest) {
         }
       }
 
+      if (parsed.query === "LOGS") {
+
+        try {
+          const { getK8sExecutor } = await import("../../../lib/k8s/client");
+          const logs = await getK8sExecutor().getPodLogs(target, {
+            pod: logPod,
+            tailLines: parsed.logs?.tailLines,
+            previous: parsed.logs?.previous,
+          }, executionId);
+
+          StructuredLogger.info(executionId, "completed", "Pod logs read", {
+            userId: identity.userId,
+            deployment: target.deployment,
+            namespace: target.namespace,
+            pod: logs.pod,
+            container: logs.container,
+            previous: logs.previous,
+            lines: logs.lines.length,
+            truncated: logs.truncated,
+            redactions: logs.redactions,
+          });
+
+          return Response.json({
+            type: "READ",
+            subtype: "LOGS",
+            status: "success",
+            logs,
+            summary: {
+              deployment: target.deployment,
+              namespace: target.namespace
+            },
+            userId: identity.userId,
+            role: identity.role,
+            timestamp: Date.now(),
+          });
+        } catch (error) {
+          StructuredLogger.error(executionId, "failed", "Failed to read pod logs", {
+            deployment: target.deployment,
+            namespace: target.namespace,
+            pod: logPod,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return Response.json({
+            type: "READ",
+            subtype: "LOGS",
+            status: "error",
+            error: error instanceof UserError || error instanceof KubernetesError ? error.message : "Failed to fetch pod logs",
+            userId: identity.userId,
+            role: identity.role,
+            timestamp: Date.now(),
+          });
+        }
+      }
+
+      if (parsed.query === "EVENTS") {
+
+        try {
+          const { getK8sExecutor } = await import("../../../lib/k8s/client");
+          const events = await getK8sExecutor().getEvents(
+            target,
+            eventsRecord ? getExecutionWindow(eventsRecord) : {},
+            executionId
+          );
+
+          return Response.json({
+            type: "READ",
+            subtype: "EVENTS",
+            status: "success",
+            events,
+            summary: {
+              total: events.length,
+              commandId: eventsRecord?.commandId,
+              deployment: target.deployment,
+              namespace: target.namespace
+            },
+            userId: identity.userId,
+            role: identity.role,
+            timestamp: Date.now(),
+          });
+        } catch (_error) {
+          return Response.json({
+            type: "READ",
+            subtype: "EVENTS",
+            status: "error",
+            error: "Failed to fetch Kubernetes events",
+            userId: identity.userId,
+            role: identity.role,
+            timestamp: Date.now(),
+          });
+        }
+      }
+
+      if (parsed.query === "TOP") {
+
+        try {
+          const { getK8sExecutor } = await import("../../../lib/k8s/client");
+          const usage = await getK8sExecutor().getPodUsage(target, executionId);
+
+          return Response.json({
+            type: "READ",
+            subtype: "TOP",
+            status: "success",
+            usage,
+            summary: {
+              total: usage.pods.length,
+              deployment: target.deployment,
+              namespace: target.namespace
+            },
+            userId: identity.userId,
+            role: identity.role,
+            timestamp: Date.now(),
+          });
+        } catch (_error) {
+          return Response.json({
+            type: "READ",
+            subtype: "TOP",
+            status: "error",
+            error: "Failed to fetch pod resource usage",
+            userId: identity.userId,
+            role: identity.role,
+            timestamp: Date.now(),
+          });
+        }
+      }
+
+      if (parsed.query === "HISTORY") {
+
+        try {
+          const { getK8sExecutor } = await import("../../../lib/k8s/client");
+          const revisions = await getK8sExecutor().getRolloutHistory(target, executionId);
+
+          return Response.json({
+            type: "READ",
+            subtype: "HISTORY",
+            status: "success",
+            revisions,
+            summary: {
+              total: revisions.length,
+              current: revisions.find(revision => revision.current)?.revision ?? null,
+              deployment: target.deployment,
+              namespace: target.namespace
+            },
+            userId: identity.userId,
+            role: identity.role,
+            timestamp: Date.now(),
+          });
+        } catch (_error) {
+          return Response.json({
+            type: "READ",
+            subtype: "HISTORY",
+            status: "error",
+            error: "Failed to fetch rollout history",
+            userId: identity.userId,
+            role: identity.role,
+            timestamp: Date.now(),
+          });
+        }
+      }
+
 
       return Response.json({
         type: "READ",
@@ -176,76 +619,195 @@ export async function POST(request: NextRequest) {
     }
 
 
+    const scaleChange = parsed.action === "SCALE" ? getScaleChange(parsed) : undefined;
+
+
     if (parsed.type === "DRY_RUN") {
       let simulationResult = "Simulation completed - no changes would be made.";
       let warnings: string[] = ["⚠️ This is a simulation only", "⚠️ No actual changes applied"];
       let preview = null;
+      let resolvedReplicas = scaleChange?.kind === "absolute" ? scaleChange.replicas : undefined;
+      let wouldExecute = true;
+      let mutation: DeploymentMutation | null = null;
+      let currentReplicas: number | undefined;
       
-      if (parsed.action === "SCALE" && parsed.targetReplicas !== undefined) {
-        
+      if (scaleChange) {
+        const executeText = parsed.rawText.replace(/^(dry\s+run|simulate)\s+/, "");
+        const relative = isRelativeScale(scaleChange);
+
         try {
           const { getK8sExecutor } = await import("../../../lib/k8s/client");
           const k8sExecutor = getK8sExecutor();
-          const k8sStatus = await k8sExecutor.getStatus(executionId);
-          const currentReplicas = k8sStatus.replicas;
+          const k8sStatus = await k8sExecutor.getStatus(target, executionId);
+          currentReplicas = k8sStatus.replicas;
+          resolvedReplicas = resolveScaleTarget(scaleChange, currentReplicas);
+          const resolution = relative
+            ? `ℹ️ "${describeScaleChange(scaleChange)}" resolved against ${currentReplicas} live replicas; it is re-resolved when the worker executes it`
+            : null;
+          
+          const direction = resolvedReplicas > currentReplicas ? "scale-up" : 
+                          resolvedReplicas < currentReplicas ? "scale-down" : "no-change";
+          
+          simulationResult = `✅ SIMULATION: Would ${direction === "no-change" ? "maintain" : direction.replace("-", " ")} ${formatTarget(target)} to ${resolvedReplicas} replicas`;
           
-          if (parsed.targetReplicas < 1 || parsed.targetReplicas > 5) {
-            simulationResult = `❌ SIMULATION FAILED: Invalid replica count ${parsed.targetReplicas}. Must be between 1 and 5.`;
-            warnings = ["❌ Command would be rejected", "💡 Try: scale loadlab to 3"];
+          preview = {
+            before: { replicas: currentReplicas },
+            after: { replicas: resolvedReplicas },
+            direction: direction,
+            deployment: target.deployment,
+            namespace: target.namespace
+          };
+          
+          warnings = [
+            "⚠️ This is a simulation only",
+            "⚠️ No pods would be created/destroyed", 
+            ...(resolution ? [resolution] : []),
+            `💡 To execute: ${executeText}`
+          ];
+          mutation = { action: "SCALE", replicas: resolvedReplicas };
+        } catch (_error) {
+          simulationResult = relative
+            ? `⚠️ SIMULATION: Cannot fetch current state to resolve "${describeScaleChange(scaleChange)}"`
+            : `⚠️ SIMULATION: Cannot fetch current state, but would target ${resolvedReplicas} replicas`;
+          warnings = [
+            "⚠️ This is a simulation only",
+            "⚠️ Could not verify current replica count",
+            `💡 To execute: ${executeText}`
+          ];
+        }
+      } else if (parsed.action === "ROLLBACK") {
+        const executeText = parsed.rawText.replace(/^(dry\s+run|simulate)\s+/, "");
+
+        try {
+          const { getK8sExecutor } = await import("../../../lib/k8s/client");
+          const revisions = await getK8sExecutor().getRolloutHistory(target, executionId);
+          const chosen = selectRevision(revisions, parsed.revision);
+          const current = revisions.find(revision => revision.current);
+
+          if (!chosen) {
+            simulationResult = `❌ SIMULATION FAILED: ${describeMissingRevision(parsed.revision, revisions.map(revision => revision.revision))}`;
+            warnings = [
+              "❌ Command would be rejected",
+              `💡 Try: history ${target.deployment} in ${target.namespace}`,
+            ];
           } else {
-            const direction = parsed.targetReplicas > currentReplicas ? "scale-up" : 
-                            parsed.targetReplicas < currentReplicas ? "scale-down" : "no-change";
-            
-            simulationResult = `✅ SIMULATION: Would ${direction === "no-change" ? "maintain" : direction.replace("-", " ")} LoadLab to ${parsed.targetReplicas} replicas`;
-            
+            simulationResult = `✅ SIMULATION: Would roll back ${formatTarget(target)} to revision ${chosen.revision}`;
             preview = {
-              before: { replicas: currentReplicas },
-              after: { replicas: parsed.targetReplicas },
-              direction: direction,
-              deployment: "loadlab",
-              namespace: "demo"
+              action: "rollback",
+              deployment: target.deployment,
+              namespace: target.namespace,
+              effect: `Pods would be replaced: ${current?.images.join(", ") ?? "unknown"} → ${chosen.images.join(", ")}`
             };
-            
             warnings = [
               "⚠️ This is a simulation only",
-              "⚠️ No pods would be created/destroyed", 
-              `💡 To execute: scale loadlab to ${parsed.targetReplicas}`
+              "⚠️ No pods would be replaced",
+              `💡 To execute: ${executeText}`
             ];
+            mutation = { action: "ROLLBACK", revision: chosen.revision };
           }
+          wouldExecute = chosen !== undefined;
         } catch (_error) {
-          simulationResult = `⚠️ SIMULATION: Cannot fetch current state, but would target ${parsed.targetReplicas} replicas`;
+          simulationResult = "⚠️ SIMULATION: Cannot fetch rollout history to check the revision";
           warnings = [
             "⚠️ This is a simulation only",
-            "⚠️ Could not verify current replica count",
-            `💡 To execute: scale loadlab to ${parsed.targetReplicas}`
+            `💡 To execute: ${executeText}`
           ];
         }
       } else if (parsed.action === "RESTART") {
-        simulationResult = "✅ SIMULATION: Would restart LoadLab deployment";
+        simulationResult = `✅ SIMULATION: Would restart deployment ${formatTarget(target)}`;
         preview = {
           action: "restart",
-          deployment: "loadlab",
-          namespace: "demo",
+          deployment: target.deployment,
+          namespace: target.namespace,
           effect: "All pods would be recreated with new timestamps"
         };
         warnings = [
           "⚠️ This is a simulation only",
           "⚠️ No pods would be restarted",
-          "💡 To execute: restart loadlab"
+          `💡 To execute: restart ${target.deployment} in ${target.namespace}`
+        ];
+        mutation = { action: "RESTART" };
+      }
+
+      // Every rule's verdict is listed so users see why a command would pass
+      // or which policy stops it.
+      const policyRequest: PolicyRequest | null = parsed.action ? {
+        action: parsed.action,
+        target,
+        role: identity.role,
+        userId: identity.userId,
+        replicas: resolvedReplicas,
+        now: Date.now(),
+      } : null;
+      const policy = policyRequest ? evaluatePolicies(policyRequest) : null;
+
+      // The dry run itself is allowed; say so up front if executing it would not be.
+      const executeDenied = parsed.action
+        ? checkPermission(identity, getActionPermission(parsed.action), { target, replicas: resolvedReplicas }, executionId)
+        : null;
+
+      if (executeDenied) {
+        simulationResult = `❌ SIMULATION FAILED: ${executeDenied.message}`;
+        warnings = [
+          "❌ Command would be rejected",
+          `💡 Your role: ${describeRole(identity.role)}`,
         ];
+        wouldExecute = false;
+        mutation = null;
+      } else if (policy && !policy.allowed) {
+        simulationResult = `❌ SIMULATION FAILED: Blocked by policy: ${policy.denials.map(denial => denial.message).join("; ")}`;
+        warnings = [
+          "❌ Command would be rejected",
+          ...policy.verdicts.map(formatVerdict),
+          ...policySuggestions(target, policy).map(suggestion => `💡 ${suggestion}`),
+        ];
+        wouldExecute = false;
+        mutation = null;
+      } else if (policy) {
+        warnings.push(...policy.verdicts.map(formatVerdict));
+      }
+
+      if (mutation) {
+        const { dryRun, dryRunError } = await runServerDryRun(target, mutation, executionId);
+        preview = { ...preview, dryRun, dryRunError };
+
+        if (dryRun?.rejection) {
+          simulationResult = `❌ SIMULATION FAILED: The API server rejected the change (${dryRun.rejection.reason}): ${dryRun.rejection.message}`;
+          warnings = [
+            "❌ Command would be rejected by the API server",
+            ...dryRun.rejection.causes.map(cause => `• ${cause.field ?? "spec"}: ${cause.message}`),
+          ];
+          wouldExecute = false;
+        } else if (dryRunError) {
+          warnings.push(`⚠️ Server-side dry run unavailable: ${dryRunError}`);
+        }
       }
 
+      auditCommand("command.dry_run", identity, executionId, {
+        action: parsed.action,
+        target: formatTarget(target),
+        outcome: wouldExecute ? "accepted" : "rejected",
+        data: {
+          result: simulationResult,
+          targetReplicas: resolvedReplicas,
+          permission: executeDenied?.message ?? null,
+          policy: policy?.verdicts ?? [],
+          serverRejection: preview?.dryRun?.rejection ?? null,
+        },
+      });
+
       return Response.json({
         type: "DRY_RUN",
         action: parsed.action,
         status: "simulation",
         message: simulationResult,
         preview: preview,
+        policy: policy?.verdicts ?? [],
         simulation: {
           action: parsed.action,
-          targetReplicas: parsed.targetReplicas,
+          targetReplicas: resolvedReplicas,
           warnings,
-          wouldExecute: parsed.targetReplicas ? (parsed.targetReplicas >= 1 && parsed.targetReplicas <= 5) : true,
+          wouldExecute,
           willExecute: false
         },
         userId: identity.userId,
@@ -255,82 +817,140 @@ export async function POST(request: NextRequest) {
     }
 
 
-    if (parsed.action === "SCALE" && parsed.targetReplicas !== undefined) {
-      if (parsed.targetReplicas < 1 || parsed.targetReplicas > 5) {
-        const error = new ValidationError(
-          `Invalid replica count: ${parsed.targetReplicas}. Must be between 1 and 5.`,
-          executionId,
-          { requestedReplicas: parsed.targetReplicas }
-        );
-        StructuredLogger.error(executionId, "queued", error.message, error.toLogEntry());
-        return Response.json({
-          ...error.toApiResponse(),
-          command: {
-            action: parsed.action,
-            targetReplicas: parsed.targetReplicas,
-          },
-          suggestions: [
-            "Try: scale loadlab to 3",
-            "Valid range: 1-5 replicas",
-            "Use 'dry run scale loadlab to N' to test first"
-          ]
-        }, { status: error.getHttpStatus() });
-      }
-    }
-
     // Get current state for before/after comparison
     let beforeState = null;
     let intent = null;
+    let resolvedReplicas = scaleChange?.kind === "absolute" ? scaleChange.replicas : undefined;
     
-    if (parsed.action === "SCALE" && parsed.targetReplicas !== undefined) {
+    if (scaleChange) {
       try {
         const { getK8sExecutor } = await import("../../../lib/k8s/client");
         const k8sExecutor = getK8sExecutor();
-        const k8sStatus = await k8sExecutor.getStatus(executionId);
+        const k8sStatus = await k8sExecutor.getStatus(target, executionId);
+        resolvedReplicas = resolveScaleTarget(scaleChange, k8sStatus.replicas);
         
         beforeState = {
           replicas: k8sStatus.replicas,
           readyReplicas: k8sStatus.readyReplicas,
-          deployment: "loadlab",
-          namespace: "demo"
+          deployment: target.deployment,
+          namespace: target.namespace
         };
         
-        intent = parsed.targetReplicas > k8sStatus.replicas ? "scale-up" : 
-                parsed.targetReplicas < k8sStatus.replicas ? "scale-down" : "maintain";
+        intent = resolvedReplicas > k8sStatus.replicas ? "scale-up" : 
+                resolvedReplicas < k8sStatus.replicas ? "scale-down" : "maintain";
       } catch (error) {
-        // Continue without before state if K8s is unavailable
+        // Continue without before state if K8s is unavailable; relative
+        // changes are resolved by the worker at execution time anyway.
         StructuredLogger.warn(executionId, "queued", "Could not fetch current K8s state for comparison", {
           error: error instanceof Error ? error.message : String(error)
         });
       }
     }
 
+    // Re-checked now that a relative scale has a replica count.
+    const deniedReplicas = parsed.action === "SCALE" && resolvedReplicas !== undefined
+      ? checkPermission(identity, "deployments:scale", { target, replicas: resolvedReplicas }, executionId)
+      : null;
+    if (deniedReplicas) {
+      return rejectUnauthorized(deniedReplicas, identity, executionId, { action: parsed.action, target });
+    }
+
+    let policy: PolicyDecision | null = null;
+    if (parsed.action) {
+      const policyRequest: PolicyRequest = {
+        action: parsed.action,
+        target,
+        role: identity.role,
+        userId: identity.userId,
+        replicas: resolvedReplicas,
+        now: Date.now(),
+      };
+      policy = evaluatePolicies(policyRequest);
+      if (!policy.allowed) {
+        auditCommand("command.rejected", identity, executionId, {
+          action: parsed.action,
+          target: formatTarget(target),
+          outcome: "rejected",
+          data: { reason: "policy", replicas: resolvedReplicas, policy: policy.verdicts },
+        });
+        return rejectByPolicy(policyRequest, policy, {
+          action: parsed.action,
+          targetReplicas: resolvedReplicas,
+          change: scaleChange ? describeScaleChange(scaleChange) : undefined,
+          revision: parsed.revision,
+        }, executionId);
+      }
+    }
+
+    if (parsed.action === "ROLLBACK") {
+      let revisions: RolloutRevision[] | null = null;
+      try {
+        const { getK8sExecutor } = await import("../../../lib/k8s/client");
+        revisions = await getK8sExecutor().getRolloutHistory(target, executionId);
+      } catch (error) {
+        // The worker resolves the revision again and fails the command if it is gone.
+        StructuredLogger.warn(executionId, "queued", "Could not fetch rollout history to check the revision", {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      if (revisions && !selectRevision(revisions, parsed.revision)) {
+        const error = new ValidationError(
+          describeMissingRevision(parsed.revision, revisions.map(revision => revision.revision)),
+          executionId,
+          {
+            requestedRevision: parsed.revision,
+            availableRevisions: revisions.map(revision => revision.revision),
+            deployment: target.deployment,
+            namespace: target.namespace,
+          }
+        );
+        StructuredLogger.error(executionId, "queued", error.message, error.toLogEntry());
+        auditRejection(error, identity, executionId, { action: parsed.action, target });
+        return Response.json({
+          ...error.toApiResponse(),
+          suggestions: [
+            `Try: history ${target.deployment} in ${target.namespace}`,
+            ...revisions.filter(revision => !revision.current).slice(0, 3).map(
+              revision => `rollback ${target.deployment} to revision ${revision.revision} (${revision.images.join(", ")})`
+            ),
+          ]
+        }, { status: error.getHttpStatus() });
+      }
+    }
+
     const priority: PriorityLevel = getPriorityForUser(
       identity.userId,
       identity.role
     );
 
-    const quotaBefore = getQuotaRemaining(identity.userId);
-
-    if (identity.role === "FREE" && quotaBefore <= 0) {
-      const error = new QuotaExceededError(executionId, { userId: identity.userId });
-      StructuredLogger.error(executionId, "queued", error.message, error.toLogEntry());
-      return Response.json({
-        ...error.toApiResponse(),
-        user: {
-          role: identity.role,
-          quotaRemaining: 0,
-        },
-        suggestions: [
-          "Your quota is exceeded",
-          "Commands will be queued with lower priority",
-          "Admin users have unlimited quota"
-        ]
-      }, { status: error.getHttpStatus() });
-    }
-
-    if (identity.role === "FREE") {
-      incrementQuota(identity.userId);
+    let quota: QuotaStatus | null = null;
+    if (parsed.action) {
+      try {
+        quota = chargeQuota(identity.userId, identity.role, parsed.action, executionId);
+      } catch (quotaError) {
+        if (!(quotaError instanceof QuotaExceededError)) {
+          throw quotaError;
+        }
+        StructuredLogger.error(executionId, "queued", quotaError.message, quotaError.toLogEntry());
+        const status = getQuotaStatus(identity.userId, identity.role);
+        auditRejection(quotaError, identity, executionId, { action: parsed.action, target, data: { quota: status } });
+        const { costs } = getQuotaConfig();
+        return Response.json({
+          ...quotaError.toApiResponse(),
+          user: {
+            role: identity.role,
+            quotaRemaining: status?.remaining ?? 0,
+            quota: status,
+          },
+          suggestions: [
+            `${parsed.action} costs ${costs[parsed.action]} and you have ${status?.remaining ?? 0} left (${status?.window} window)`,
+            status?.resetsAt ? `Quota frees up at ${new Date(status.resetsAt).toISOString()}` : "Ask an administrator to raise your quota",
+            `Costs: ${Object.entries(costs).map(([action, cost]) => `${action} ${cost}`).join(", ")}`,
+            "Admin users have unlimited quota"
+          ]
+        }, { status: quotaError.getHttpStatus() });
+      }
     }
 
     const scheduledCommand: ScheduledCommand = {
@@ -339,42 +959,72 @@ export async function POST(request: NextRequest) {
       userId: identity.userId,
       priority,
       timestamp: Date.now(),
+      target: { deployment: target.deployment, namespace: target.namespace },
       parsed,
+      role: identity.role,
+      tokenId: identity.token?.tokenId,
     };
 
+    createExecutionRecord(scheduledCommand);
+
     const queue = getSharedQueue();
-    queue.enqueue(scheduledCommand);
+    const queuePosition = queue.enqueue(scheduledCommand);
     
     StructuredLogger.info(executionId, "queued", "Command enqueued for execution", {
       commandId: scheduledCommand.id,
       userId: identity.userId,
+      tokenId: identity.token?.tokenId,
       action: parsed.action,
+      deployment: target.deployment,
+      namespace: target.namespace,
       priority,
-      queuePosition: queue.size(),
+      queuePosition,
+    });
+    auditCommand("command.enqueued", identity, executionId, {
+      commandId: scheduledCommand.id,
+      action: parsed.action,
+      target: formatTarget(target),
+      outcome: "accepted",
+      data: {
+        command: {
+          targetReplicas: resolvedReplicas,
+          change: scaleChange ? describeScaleChange(scaleChange) : undefined,
+          revision: parsed.revision,
+        },
+        before: beforeState,
+        policy: policy?.verdicts ?? [],
+        quota,
+        priority,
+        queuePosition,
+      },
     });
 
-    const queuePosition = queue.size();
-    const priorityLabel = priority === 1 ? "ADMIN" : priority === 2 ? "FREE" : "NORMAL";
-    
+    // getPriorityForUser only lowers a role's priority when its quota is used up.
+    const priorityLabel = priority === mapRoleToPriority(identity.role) ? identity.role : `${identity.role}, quota used up`;
+
     return Response.json({
       status: "accepted",
       type: parsed.type,
       action: parsed.action,
       commandId: scheduledCommand.id,
       executionId: scheduledCommand.executionId,
-      target: "loadlab",
+      target: target.deployment,
+      namespace: target.namespace,
       intent: intent,
       before: beforeState,
-      after: parsed.action === "SCALE" ? {
-        replicas: parsed.targetReplicas,
-        deployment: "loadlab",
-        namespace: "demo"
+      after: parsed.action === "SCALE" && resolvedReplicas !== undefined ? {
+        replicas: resolvedReplicas,
+        deployment: target.deployment,
+        namespace: target.namespace
       } : null,
       phase: "queued",
       command: {
         action: parsed.action,
-        targetReplicas: parsed.targetReplicas,
+        targetReplicas: resolvedReplicas,
+        change: scaleChange ? describeScaleChange(scaleChange) : undefined,
+        revision: parsed.revision,
       },
+      policy: policy?.verdicts ?? [],
       execution: {
         priority,
         priorityLabel,
@@ -383,14 +1033,23 @@ export async function POST(request: NextRequest) {
       },
       user: {
         role: identity.role,
-        quotaRemaining: identity.role === "FREE" ? quotaBefore - 1 : undefined,
+        quotaRemaining: quota?.remaining,
+        quotaResetsAt: quota?.resetsAt,
+        quota,
       },
       verificationSource: "kubernetes",
       message: `Command accepted and queued for execution (position ${queuePosition}, ${priorityLabel} priority)`,
       timestamp: Date.now(),
     });
   } catch (error) {
-    if (error instanceof AuthenticationError || error instanceof ValidationError || error instanceof QuotaExceededError) {
+    if (
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof ValidationError ||
+      error instanceof QuotaExceededError ||
+      error instanceof TargetNotAllowedError ||
+      error instanceof PolicyViolationError
+    ) {
       throw error;
     }
     
@@ -0,0 +1,83 @@
+import { NextRequest } from "next/server";
+import { getUserIdentity } from "../../../lib/auth/identity";
+import { subscribeExecutionEvents, ExecutionStreamEvent } from "../../../lib/observability/executionEvents";
+import { AuthenticationError } from "../../../lib/errors/userError";
+import { checkPermission } from "../../../lib/users/roles";
+import { StructuredLogger, generateExecutionId } from "../../../lib/logging/structuredLogger";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export async function GET(request: NextRequest) {
+  const streamId = generateExecutionId();
+
+  let identity;
+  try {
+    identity = await getUserIdentity();
+  } catch (_authError) {
+    const error = new AuthenticationError(streamId);
+    StructuredLogger.error(streamId, "system", error.message, error.toLogEntry());
+    return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
+  }
+
+  const { userId, role } = identity;
+  const seesEveryone = checkPermission(role, "executions:read-any") === null;
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      // Roles with "executions:read-any" watch the whole system; everyone
+      // else only sees their own commands.
+      const unsubscribe = subscribeExecutionEvents((event: ExecutionStreamEvent) => {
+        if (!seesEveryone && event.userId !== userId) {
+          return;
+        }
+        send(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+
+      const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      let closed = false;
+      cleanup = () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client.
+        }
+        StructuredLogger.info(streamId, "system", "Event stream closed", { userId });
+      };
+
+      request.signal.addEventListener("abort", () => cleanup(), { once: true });
+
+      send(`retry: 3000\n: connected\n\n`);
+      StructuredLogger.info(streamId, "system", "Event stream opened", { userId, role });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
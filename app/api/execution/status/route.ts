@@ -10,7 +10,7 @@ export async function GET(_request: NextRequest) {
   try {
     let identity;
     try {
-      identity = await getUserIdentity();
+      identity = await getUserIdentity({ apiTokens: true, requestId: executionId });
     } catch (_authError) {
       const error = new AuthenticationError(executionId);
       StructuredLogger.error(executionId, "system", error.message, error.toLogEntry());
@@ -25,6 +25,7 @@ export async function GET(_request: NextRequest) {
       system: {
         workerStatus: executionState.workerStatus,
         queueLength: executionState.queueLength,
+        scheduler: executionState.scheduler,
         currentCommand: executionState.currentCommand,
         lastResult: executionState.lastResult,
         lastError: executionState.lastError,
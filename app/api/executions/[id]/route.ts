@@ -0,0 +1,152 @@
+import { NextRequest } from "next/server";
+import { getUserIdentity } from "../../../../lib/auth/identity";
+import { getExecutionRecord } from "../../../../lib/observability/executionStore";
+import { cancelCommand, reprioritizeCommand } from "../../../../lib/scheduler/queueControl";
+import { checkPermission } from "../../../../lib/users/roles";
+import {
+  AuthenticationError,
+  NotFoundError,
+  UserError,
+  ValidationError,
+} from "../../../../lib/errors/userError";
+import { StructuredLogger, generateExecutionId } from "../../../../lib/logging/structuredLogger";
+
+/**
+ * Owners need "deployments:read" on the command's target; anyone else needs
+ * "executions:read-any". Both are checked against the caller's API token too.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = generateExecutionId();
+
+  try {
+    let identity;
+    try {
+      identity = await getUserIdentity({ apiTokens: true, requestId });
+    } catch (_authError) {
+      const error = new AuthenticationError(requestId);
+      StructuredLogger.error(requestId, "system", error.message, error.toLogEntry());
+      return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
+    }
+
+    const { id } = await params;
+    const record = getExecutionRecord(id);
+
+    if (!record) {
+      const error = new NotFoundError(`Execution ${id} not found`, requestId, { id });
+      return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
+    }
+
+    const permission = record.userId === identity.userId ? "deployments:read" : "executions:read-any";
+    const denied = checkPermission(identity, permission, { target: record.target }, requestId);
+    if (denied) {
+      StructuredLogger.error(requestId, "system", denied.message, {
+        ...denied.toLogEntry(),
+        userId: identity.userId,
+      });
+      return Response.json(denied.toApiResponse(), { status: denied.getHttpStatus() });
+    }
+
+    return Response.json({
+      timestamp: Date.now(),
+      execution: record,
+    });
+  } catch (error) {
+    StructuredLogger.error(requestId, "system", "Error getting execution record", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+
+/**
+ * Withdraws a PENDING command: the owner needs "queue:cancel-own", anyone
+ * else "queue:cancel-any".
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = generateExecutionId();
+
+  try {
+    let identity;
+    try {
+      identity = await getUserIdentity({ apiTokens: true, requestId });
+    } catch (_authError) {
+      const error = new AuthenticationError(requestId);
+      StructuredLogger.error(requestId, "system", error.message, error.toLogEntry());
+      return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
+    }
+
+    const { id } = await params;
+    const execution = cancelCommand(id, identity, requestId);
+
+    return Response.json({
+      timestamp: Date.now(),
+      execution,
+    });
+  } catch (error) {
+    return handleQueueError(error, requestId, "Error cancelling command");
+  }
+}
+
+
+/**
+ * Needs "queue:reprioritize". Body: { "priority": 1 | 2 | 3 }.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = generateExecutionId();
+
+  try {
+    let identity;
+    try {
+      identity = await getUserIdentity({ apiTokens: true, requestId });
+    } catch (_authError) {
+      const error = new AuthenticationError(requestId);
+      StructuredLogger.error(requestId, "system", error.message, error.toLogEntry());
+      return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.priority !== "number") {
+      throw new ValidationError("'priority' field is required", requestId);
+    }
+
+    const execution = reprioritizeCommand(id, body.priority, identity, requestId);
+
+    return Response.json({
+      timestamp: Date.now(),
+      execution,
+    });
+  } catch (error) {
+    return handleQueueError(error, requestId, "Error changing command priority");
+  }
+}
+
+
+function handleQueueError(error: unknown, requestId: string, message: string): Response {
+  if (error instanceof UserError) {
+    StructuredLogger.error(requestId, "system", error.message, error.toLogEntry());
+    return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
+  }
+
+  StructuredLogger.error(requestId, "system", message, {
+    error: error instanceof Error ? error.message : String(error),
+  });
+  return Response.json(
+    { error: "Internal server error" },
+    { status: 500 }
+  );
+}
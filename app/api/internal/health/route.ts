@@ -4,6 +4,7 @@ import { getUserIdentity } from "../../../../lib/auth/identity";
 import { getExecutionState } from "../../../../lib/observability/executionState";
 import { AuthorizationError } from "../../../../lib/errors/userError";
 import { StructuredLogger, generateExecutionId } from "../../../../lib/logging/structuredLogger";
+import { checkPermission } from "../../../../lib/users/roles";
 
 export async function GET(_request: NextRequest) {
   const executionId = generateExecutionId();
@@ -18,8 +19,8 @@ export async function GET(_request: NextRequest) {
       return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
     }
 
-    if (identity.role !== "ADMIN") {
-      const error = new AuthorizationError("Admin role required for health endpoint", executionId);
+    const error = checkPermission(identity, "system:health", {}, executionId);
+    if (error) {
       StructuredLogger.error(executionId, "system", error.message, error.toLogEntry());
       return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
     }
@@ -1,11 +1,12 @@
 import { NextRequest } from "next/server";
 import { getUserIdentity } from "../../../../lib/auth/identity";
 import { getExecutionState } from "../../../../lib/observability/executionState";
+import { generateExecutionId } from "../../../../lib/logging/structuredLogger";
 
 export async function GET(_request: NextRequest) {
   try {
     try {
-      await getUserIdentity();
+      await getUserIdentity({ apiTokens: true, requestId: generateExecutionId() });
     } catch (_authError) {
       return Response.json(
         { error: "Unauthorized: Authentication required" },
@@ -22,6 +23,7 @@ export async function GET(_request: NextRequest) {
       system: {
         workerStatus: executionState.workerStatus,
         queueLength: executionState.queueLength,
+        scheduler: executionState.scheduler,
         currentCommand: executionState.currentCommand,
         lastResult: executionState.lastResult,
       },
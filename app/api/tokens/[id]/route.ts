@@ -0,0 +1,57 @@
+import { NextRequest } from "next/server";
+import { getUserIdentity } from "../../../../lib/auth/identity";
+import { getApiToken, revokeApiToken } from "../../../../lib/auth/apiTokens";
+import { checkPermission } from "../../../../lib/users/roles";
+import { AuthenticationError, UserError } from "../../../../lib/errors/userError";
+import { StructuredLogger, generateExecutionId } from "../../../../lib/logging/structuredLogger";
+
+
+/**
+ * Revokes a token at once, including for commands it already queued. Owners
+ * may revoke their own personal tokens; anything else needs "tokens:manage".
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = generateExecutionId();
+
+  try {
+    let identity;
+    try {
+      identity = await getUserIdentity();
+    } catch (_authError) {
+      const error = new AuthenticationError(requestId);
+      StructuredLogger.error(requestId, "system", error.message, error.toLogEntry());
+      return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
+    }
+
+    const { id } = await params;
+    const existing = getApiToken(id, requestId);
+
+    if (existing.kind !== "personal" || existing.subject !== identity.userId) {
+      const denied = checkPermission(identity, "tokens:manage", {}, requestId);
+      if (denied) {
+        throw denied;
+      }
+    }
+
+    return Response.json({
+      timestamp: Date.now(),
+      apiToken: revokeApiToken(id, identity.userId, requestId),
+    });
+  } catch (error) {
+    if (error instanceof UserError) {
+      StructuredLogger.error(requestId, "system", error.message, error.toLogEntry());
+      return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
+    }
+
+    StructuredLogger.error(requestId, "system", "Error revoking API token", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
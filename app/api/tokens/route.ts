@@ -0,0 +1,125 @@
+import { NextRequest } from "next/server";
+import { getUserIdentity } from "../../../lib/auth/identity";
+import { issueApiToken, listApiTokens } from "../../../lib/auth/apiTokens";
+import { checkPermission } from "../../../lib/users/roles";
+import {
+  AuthenticationError,
+  UserError,
+  ValidationError,
+} from "../../../lib/errors/userError";
+import { StructuredLogger, generateExecutionId } from "../../../lib/logging/structuredLogger";
+
+const DEFAULT_LIFETIME_DAYS = 90;
+
+
+/**
+ * Lists API tokens: every token with "tokens:manage", otherwise the caller's
+ * own personal tokens. Hashes are never returned.
+ */
+export async function GET(_request: NextRequest) {
+  const requestId = generateExecutionId();
+
+  try {
+    let identity;
+    try {
+      identity = await getUserIdentity();
+    } catch (_authError) {
+      const error = new AuthenticationError(requestId);
+      StructuredLogger.error(requestId, "system", error.message, error.toLogEntry());
+      return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
+    }
+
+    const managesAll = checkPermission(identity, "tokens:manage") === null;
+    if (!managesAll) {
+      const denied = checkPermission(identity, "tokens:personal", {}, requestId);
+      if (denied) {
+        throw denied;
+      }
+    }
+
+    return Response.json({
+      timestamp: Date.now(),
+      tokens: listApiTokens(managesAll ? undefined : identity.userId),
+    });
+  } catch (error) {
+    return handleTokenError(error, requestId, "Error listing API tokens");
+  }
+}
+
+
+/**
+ * Issues a token. Body: { name, kind?: "personal" | "service", role?,
+ * permissions, targets?, expiresInDays? }. Personal tokens act as the caller
+ * with whatever role the caller has when the token is used, and need
+ * "tokens:personal"; service tokens act as
+ * "service:<name>" with the given role and need "tokens:manage". The
+ * plaintext token is in this response only.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = generateExecutionId();
+
+  try {
+    let identity;
+    try {
+      identity = await getUserIdentity();
+    } catch (_authError) {
+      const error = new AuthenticationError(requestId);
+      StructuredLogger.error(requestId, "system", error.message, error.toLogEntry());
+      return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const kind = body.kind ?? "personal";
+
+    if (kind !== "personal" && kind !== "service") {
+      throw new ValidationError("'kind' must be \"personal\" or \"service\"", requestId);
+    }
+    if (kind === "service" && typeof body.role !== "string") {
+      throw new ValidationError("Service tokens need a 'role'", requestId);
+    }
+
+    const denied = checkPermission(identity, kind === "service" ? "tokens:manage" : "tokens:personal", {}, requestId);
+    if (denied) {
+      throw denied;
+    }
+
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const { token, apiToken } = issueApiToken({
+      name,
+      kind,
+      subject: kind === "service" ? `service:${name}` : identity.userId,
+      role: kind === "service" ? body.role : identity.role,
+      permissions: body.permissions,
+      targets: body.targets,
+      expiresInDays: body.expiresInDays ?? DEFAULT_LIFETIME_DAYS,
+    }, identity.userId, requestId);
+
+    return Response.json({
+      timestamp: Date.now(),
+      token,
+      apiToken,
+      suggestions: [
+        "Copy the token now - it is not shown again",
+        "Send it as 'Authorization: Bearer <token>' to /api/chat, /api/executions/<id> and the status routes",
+      ],
+    }, { status: 201 });
+  } catch (error) {
+    return handleTokenError(error, requestId, "Error issuing API token");
+  }
+}
+
+
+function handleTokenError(error: unknown, requestId: string, message: string): Response {
+  if (error instanceof UserError) {
+    StructuredLogger.error(requestId, "system", error.message, error.toLogEntry());
+    return Response.json(error.toApiResponse(), { status: error.getHttpStatus() });
+  }
+
+  StructuredLogger.error(requestId, "system", message, {
+    error: error instanceof Error ? error.message : String(error),
+  });
+  return Response.json(
+    { error: "Internal server error" },
+    { status: 500 }
+  );
+}
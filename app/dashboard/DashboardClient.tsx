@@ -4,6 +4,7 @@ import { UserButton, useUser } from "@clerk/nextjs";
 import { ChatShellWrapper } from "@/components/chat/ChatShellWrapper";
 import { useEffect, useState } from "react";
 import Link from "next/link";
+import { STATUS_EVENT_TYPES, useEventStream } from "@/lib/hooks/useEventStream";
 
 interface CommandInfo {
   id?: string;
@@ -82,12 +83,23 @@ export default function DashboardClient() {
     }
   };
 
+  // Refresh when the status can have changed, at most once a second; poll only while the stream is down.
+  const { connected: streamConnected } = useEventStream({
+    enabled: true,
+    onEvent: fetchData,
+    types: STATUS_EVENT_TYPES,
+    throttleMs: 1000,
+  });
+
   useEffect(() => {
     fetchData();
+  }, []);
 
+  useEffect(() => {
+    if (streamConnected) return;
     const interval = setInterval(fetchData, 5000);
     return () => clearInterval(interval);
-  }, []);
+  }, [streamConnected]);
 
   const formatUptime = (uptimeMs: number) => {
     const seconds = Math.floor(uptimeMs / 1000);
@@ -3,6 +3,8 @@
 import { UserButton } from '@clerk/nextjs';
 import Link from 'next/link';
 import { useEffect, useState } from 'react';
+import { STATUS_EVENT_TYPES, useEventStream } from '@/lib/hooks/useEventStream';
+import ApiTokensPanel from './ApiTokensPanel';
 
 interface CommandInfo {
   id?: string;
@@ -78,11 +80,23 @@ export default function AdminDashboardClient() {
     }
   };
 
+  // Refresh when the status can have changed, at most once a second; poll only while the stream is down.
+  const { connected: streamConnected } = useEventStream({
+    enabled: true,
+    onEvent: fetchData,
+    types: STATUS_EVENT_TYPES,
+    throttleMs: 1000,
+  });
+
   useEffect(() => {
     fetchData();
+  }, []);
+
+  useEffect(() => {
+    if (streamConnected) return;
     const interval = setInterval(fetchData, 5000);
     return () => clearInterval(interval);
-  }, []);
+  }, [streamConnected]);
 
   const formatUptime = (uptimeMs: number) => {
     const seconds = Math.floor(uptimeMs / 1000);
@@ -358,6 +372,8 @@ export default function AdminDashboardClient() {
               </div>
             </div>
           </div>
+
+          <ApiTokensPanel />
         </div>
       </div>
     </div>
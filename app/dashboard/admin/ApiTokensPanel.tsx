@@ -0,0 +1,221 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface ApiToken {
+  id: string;
+  name: string;
+  kind: 'personal' | 'service';
+  subject: string;
+  // Only service tokens have a fixed role.
+  role?: string;
+  permissions: string[];
+  targets?: string[];
+  createdAt: number;
+  createdBy: string;
+  expiresAt: number;
+  revokedAt: number | null;
+  lastUsedAt: number | null;
+  status: 'active' | 'expired' | 'revoked';
+}
+
+// Mirrors the grantable permissions in lib/users/roles.ts.
+const SCOPES = [
+  'deployments:read',
+  'deployments:dry-run',
+  'deployments:scale',
+  'deployments:restart',
+  'deployments:rollback',
+  'queue:cancel-own',
+  'queue:cancel-any',
+  'queue:reprioritize',
+  'executions:read-any',
+  'system:health',
+];
+
+const STATUS_STYLES: Record<ApiToken['status'], string> = {
+  active: 'bg-green-500/10 border-green-500/20 text-green-400',
+  expired: 'bg-yellow-500/10 border-yellow-500/20 text-yellow-400',
+  revoked: 'bg-red-500/10 border-red-500/20 text-red-400',
+};
+
+export default function ApiTokensPanel() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [issued, setIssued] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<'personal' | 'service'>('service');
+  const [role, setRole] = useState('NORMAL');
+  const [scopes, setScopes] = useState<string[]>(['deployments:read']);
+  const [targets, setTargets] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState(90);
+
+  const fetchTokens = async () => {
+    try {
+      const response = await fetch('/api/tokens');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Tokens API error: ${response.status}`);
+      }
+      setTokens(data.tokens);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tokens');
+    }
+  };
+
+  useEffect(() => {
+    fetchTokens();
+  }, []);
+
+  const toggleScope = (scope: string) => {
+    setScopes(current => current.includes(scope) ? current.filter(s => s !== scope) : [...current, scope]);
+  };
+
+  const createToken = async () => {
+    setError(null);
+    setIssued(null);
+    const response = await fetch('/api/tokens', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name,
+        kind,
+        role: kind === 'service' ? role : undefined,
+        permissions: scopes,
+        targets: targets.split(',').map(t => t.trim()).filter(Boolean),
+        expiresInDays,
+      }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || `Tokens API error: ${response.status}`);
+      return;
+    }
+    setIssued(data.token);
+    setName('');
+    fetchTokens();
+  };
+
+  const revokeToken = async (id: string) => {
+    setError(null);
+    const response = await fetch(`/api/tokens/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data.error || `Tokens API error: ${response.status}`);
+      return;
+    }
+    fetchTokens();
+  };
+
+  return (
+    <div className="bg-[#0B0F1A]/60 backdrop-blur-2xl rounded-xl border border-white/10 overflow-hidden">
+      <div className="px-5 py-4 border-b border-white/10 bg-gradient-to-r from-purple-500/10 to-transparent">
+        <h2 className="font-semibold text-white">API Tokens</h2>
+      </div>
+      <div className="p-4 space-y-4">
+        {error && (
+          <p className="text-red-400 text-sm">⚠️ {error}</p>
+        )}
+
+        {issued && (
+          <div className="p-3 bg-green-500/10 rounded-lg border border-green-500/20">
+            <p className="text-green-400 text-sm font-medium mb-1">Copy this token now - it is not shown again</p>
+            <code className="block text-white text-xs break-all">{issued}</code>
+          </div>
+        )}
+
+        <div className="p-3 bg-white/5 rounded-lg border border-white/10 space-y-3">
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Name, e.g. ci-deploy"
+              className="flex-1 px-3 py-2 bg-black/40 border border-white/10 rounded-lg text-white text-sm"
+            />
+            <select
+              value={kind}
+              onChange={e => setKind(e.target.value as 'personal' | 'service')}
+              className="px-3 py-2 bg-black/40 border border-white/10 rounded-lg text-white text-sm"
+            >
+              <option value="service">Service</option>
+              <option value="personal">Personal</option>
+            </select>
+            {kind === 'service' && (
+              <input
+                value={role}
+                onChange={e => setRole(e.target.value)}
+                placeholder="Role"
+                className="w-28 px-3 py-2 bg-black/40 border border-white/10 rounded-lg text-white text-sm"
+              />
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {SCOPES.map(scope => (
+              <label key={scope} className="flex items-center gap-1 text-xs text-white/70">
+                <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+                {scope}
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={targets}
+              onChange={e => setTargets(e.target.value)}
+              placeholder="Targets (optional): shop, demo/api"
+              className="flex-1 px-3 py-2 bg-black/40 border border-white/10 rounded-lg text-white text-sm"
+            />
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={expiresInDays}
+              onChange={e => setExpiresInDays(Number(e.target.value))}
+              className="w-20 px-3 py-2 bg-black/40 border border-white/10 rounded-lg text-white text-sm"
+            />
+            <span className="self-center text-xs text-white/50">days</span>
+            <button
+              onClick={createToken}
+              disabled={!name || scopes.length === 0}
+              className="px-4 py-2 bg-blue-600/20 border border-blue-600/30 text-blue-400 rounded-lg hover:bg-blue-600/30 transition-all disabled:opacity-50"
+            >
+              Create
+            </button>
+          </div>
+        </div>
+
+        {tokens.length === 0 ? (
+          <div className="p-3 bg-white/5 rounded-lg border border-white/10">
+            <p className="text-white/60 text-sm">No API tokens</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {tokens.map(token => (
+              <div key={token.id} className={`p-3 rounded-lg border ${STATUS_STYLES[token.status]}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <span className="text-white font-medium">{token.name}</span>
+                    <span className="text-white/50 text-xs ml-2">{token.id} · {token.kind} · {token.subject} · {token.role ?? 'current role'}</span>
+                  </div>
+                  {token.status === 'active' && (
+                    <button
+                      onClick={() => revokeToken(token.id)}
+                      className="px-3 py-1 bg-red-600/20 border border-red-600/30 text-red-400 text-xs rounded-lg hover:bg-red-600/30 transition-all"
+                    >
+                      Revoke
+                    </button>
+                  )}
+                </div>
+                <p className="text-white/70 text-xs mt-1">
+                  {token.permissions.join(', ')}{token.targets ? ` on ${token.targets.join(', ')}` : ''}
+                </p>
+                <p className="text-white/50 text-xs mt-1">
+                  {token.status} · expires {new Date(token.expiresAt).toLocaleDateString()} · last used {token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString() : 'never'}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
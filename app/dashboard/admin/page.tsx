@@ -1,19 +1,19 @@
-import { currentUser } from '@clerk/nextjs/server';
 import { redirect } from 'next/navigation';
 import AdminDashboardClient from './AdminDashboardClient';
+import { getUserIdentity } from '@/lib/auth/identity';
+import { checkPermission } from '@/lib/users/roles';
 
 export default async function AdminPage() {
-  const user = await currentUser();
-  
-  if (!user) {
+  let identity;
+  try {
+    identity = await getUserIdentity();
+  } catch {
     redirect('/sign-in');
   }
   
-  const isAdmin = user.publicMetadata?.role === 'ADMIN';
-  
-  if (!isAdmin) {
+  if (checkPermission(identity.role, 'dashboard:admin')) {
     redirect('/dashboard');
   }
 
   return <AdminDashboardClient />;
-}
\ No newline at end of file
+}
@@ -1,5 +1,9 @@
 import React from "react";
 import type { ChatMessage } from "@/lib/chat/types";
+import { LogViewer } from "./LogViewer";
+import { EventTimeline } from "./EventTimeline";
+import { MetricsUnavailableNotice, ResourceUsageTable, UsageFigure } from "./ResourceUsage";
+import { formatCpu, formatMemory } from "@/lib/k8s/resources";
 
 interface ChatMessageProps {
   message: ChatMessage;
@@ -83,7 +87,13 @@ export function ChatMessage({ message }: ChatMessageProps): React.ReactElement |
                     <div>Deployment: <span className="text-[#6EDBD6] font-bold">{message.kubernetes.deployment}</span></div>
                     <div>Namespace: <span className="text-[#6EDBD6]">{message.kubernetes.namespace}</span></div>
                     <div>Replicas: <span className="text-[#9BFFB0] font-bold">{message.kubernetes.replicas}</span></div>
-                    <div>Ready pods: <span className="text-[#9BFFB0] font-bold">{message.kubernetes.readyPods}</span> / <span className="text-[#E2E6F0]">{message.kubernetes.totalPods}</span></div>
+                    <div>Ready pods: <span className={`font-bold ${message.kubernetes.readyPods === message.kubernetes.totalPods ? 'text-[#9BFFB0]' : 'text-[#D6A65A]'}`}>{message.kubernetes.readyPods}</span> / <span className="text-[#E2E6F0]">{message.kubernetes.totalPods}</span></div>
+                    {message.kubernetes.restarts !== undefined && (
+                      <div>Restarts: <span className={message.kubernetes.restarts > 0 ? 'text-[#D6A65A] font-bold' : 'text-[#E2E6F0]'}>{message.kubernetes.restarts}</span></div>
+                    )}
+                    {message.kubernetes.unhealthy?.map(pod => (
+                      <div key={pod.name}>Not ready: <span className="text-[#E2E6F0]">{pod.name}</span> <span className="text-[#C94A5A] font-bold">{pod.status}</span></div>
+                    ))}
                   </div>
                 </div>
               )}
@@ -112,20 +122,47 @@ export function ChatMessage({ message }: ChatMessageProps): React.ReactElement |
                 </div>
               )}
 
+              {message.metrics && !message.metrics.available && message.pods && message.pods.length > 0 && (
+                <MetricsUnavailableNotice reason={message.metrics.reason} />
+              )}
+
               {/* Pod Table */}
               {message.pods && message.pods.length > 0 ? (
-                <div className="bg-[#0F1426] rounded border border-[rgba(255,255,255,0.075)] overflow-hidden">
-                  <div className="grid grid-cols-4 gap-2 p-2 bg-[rgba(255,255,255,0.05)] text-xs font-bold text-[#9BFFB0]">
-                    <div>Pod Name</div>
+                <div className="bg-[#0F1426] rounded border border-[rgba(255,255,255,0.075)] overflow-x-auto">
+                  <div className="grid grid-cols-10 gap-2 p-2 bg-[rgba(255,255,255,0.05)] text-xs font-bold text-[#9BFFB0] min-w-[880px]">
+                    <div className="col-span-2">Pod Name</div>
                     <div>Status</div>
                     <div>Ready</div>
+                    <div>Restarts</div>
+                    <div>Node / IP</div>
+                    <div>CPU</div>
+                    <div>Memory</div>
+                    <div>Revision</div>
                     <div>Uptime</div>
                   </div>
                   {message.pods.map((pod, index) => (
-                    <div key={index} className="grid grid-cols-4 gap-2 p-2 text-xs text-[#E2E6F0] border-t border-[rgba(255,255,255,0.075)]">
-                      <div className="truncate">{pod.name}</div>
-                      <div className={pod.status === 'Running' ? 'text-[#9BFFB0]' : 'text-[#D6A65A]'}>{pod.status}</div>
-                      <div className={pod.ready ? 'text-[#9BFFB0]' : 'text-[#C94A5A]'}>{pod.ready ? '✓' : '✗'}</div>
+                    <div key={index} className="grid grid-cols-10 gap-2 p-2 text-xs text-[#E2E6F0] border-t border-[rgba(255,255,255,0.075)] min-w-[880px]">
+                      <div className="col-span-2 truncate" title={pod.name}>{pod.name}</div>
+                      <div
+                        className={pod.status === 'Running' && pod.ready ? 'text-[#9BFFB0]' : pod.status === 'Running' ? 'text-[#D6A65A]' : 'text-[#C94A5A]'}
+                        title={pod.containers.map(container => `${container.name}: ${container.state}${container.reason ? ` (${container.reason})` : ''}`).join('\n')}
+                      >
+                        {pod.status}
+                      </div>
+                      <div className={pod.ready ? 'text-[#9BFFB0]' : 'text-[#C94A5A]'}>{pod.readyContainers}/{pod.totalContainers}</div>
+                      <div
+                        className={pod.restarts > 0 ? 'text-[#D6A65A]' : 'text-[#E2E6F0]'}
+                        title={pod.containers.filter(container => container.lastTerminationReason).map(container => `${container.name} last exit: ${container.lastTerminationReason}`).join('\n')}
+                      >
+                        {pod.restarts}
+                      </div>
+                      <div className="truncate" title={`${pod.node ?? '-'} / ${pod.podIP ?? '-'}`}>
+                        <div className="truncate">{pod.node ?? '-'}</div>
+                        <div className="truncate text-[#6E748A]">{pod.podIP ?? '-'}</div>
+                      </div>
+                      {pod.usage ? <UsageFigure figures={pod.usage.cpu} format={formatCpu} /> : <div>-</div>}
+                      {pod.usage ? <UsageFigure figures={pod.usage.memory} format={formatMemory} /> : <div>-</div>}
+                      <div className="text-[#6EDBD6]">{pod.revision ?? '-'}</div>
                       <div className="text-[#6EDBD6]">{pod.uptime > 0 ? `${pod.uptime}s` : '-'}</div>
                     </div>
                   ))}
@@ -145,6 +182,123 @@ export function ChatMessage({ message }: ChatMessageProps): React.ReactElement |
       );
     }
 
+    if (message.subtype === "HISTORY") {
+      return (
+        <div className="text-sm font-mono p-4 rounded-lg mb-2 border-l-4 border-[#6EDBD6] bg-[#0A0E1B]/50 hover:bg-[#0A0E1B]/70 transition-colors">
+          <div className="flex items-start gap-2">
+            <span className="text-[#6EDBD6] text-lg flex-shrink-0">🕘</span>
+            <div className="flex-1">
+              <div className="text-[#6EDBD6] font-bold mb-3">Rollout History</div>
+
+              {message.summary && (
+                <div className="mb-3 text-xs">
+                  <span className="text-[#9BFFB0]">Deployment:</span> <span className="text-[#E2E6F0]">{message.summary.deployment}</span> • 
+                  <span className="text-[#9BFFB0] ml-2">Current revision:</span> <span className="text-[#E2E6F0]">{message.summary.current ?? '-'}</span>
+                </div>
+              )}
+
+              {message.revisions && message.revisions.length > 0 ? (
+                <div className="bg-[#0F1426] rounded border border-[rgba(255,255,255,0.075)] overflow-hidden">
+                  <div className="grid grid-cols-5 gap-2 p-2 bg-[rgba(255,255,255,0.05)] text-xs font-bold text-[#9BFFB0]">
+                    <div>Revision</div>
+                    <div className="col-span-2">Image</div>
+                    <div>Change Cause</div>
+                    <div>Created</div>
+                  </div>
+                  {message.revisions.map(revision => (
+                    <div key={revision.replicaSet} className="grid grid-cols-5 gap-2 p-2 text-xs text-[#E2E6F0] border-t border-[rgba(255,255,255,0.075)]">
+                      <div className={revision.current ? 'text-[#9BFFB0] font-bold' : 'text-[#6EDBD6]'}>
+                        {revision.revision}{revision.current ? ' (current)' : ''}
+                      </div>
+                      <div className="col-span-2 truncate">{revision.images.join(', ')}</div>
+                      <div className="truncate">{revision.changeCause ?? '-'}</div>
+                      <div className="text-[#6EDBD6]">{revision.createdAt ? new Date(revision.createdAt).toLocaleString() : '-'}</div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-xs text-[#D6A65A] bg-[#0F1426] p-2 rounded border border-[rgba(255,255,255,0.075)]">
+                  No revisions found
+                </div>
+              )}
+
+              <div className="text-xs text-[#6E748A] mt-2">
+                {new Date(message.ts).toLocaleTimeString()}
+              </div>
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    if (message.subtype === "TOP") {
+      return (
+        <div className="text-sm font-mono p-4 rounded-lg mb-2 border-l-4 border-[#6EDBD6] bg-[#0A0E1B]/50 hover:bg-[#0A0E1B]/70 transition-colors">
+          <div className="flex items-start gap-2">
+            <span className="text-[#6EDBD6] text-lg flex-shrink-0">📈</span>
+            <div className="flex-1 min-w-0">
+              <div className="text-[#6EDBD6] font-bold mb-3">Resource Usage</div>
+
+              {message.summary && (
+                <div className="mb-3 text-xs">
+                  <span className="text-[#9BFFB0]">Deployment:</span> <span className="text-[#E2E6F0]">{message.summary.namespace}/{message.summary.deployment}</span> • 
+                  <span className="text-[#9BFFB0] ml-2">Pods:</span> <span className="text-[#E2E6F0]">{message.summary.total}</span>
+                  {message.usage?.window && (
+                    <>
+                      {" • "}<span className="text-[#9BFFB0]">Window:</span> <span className="text-[#E2E6F0]">{message.usage.window}</span>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {message.usage ? (
+                <ResourceUsageTable usage={message.usage} />
+              ) : (
+                <div className="text-xs text-[#D6A65A] bg-[#0F1426] p-2 rounded border border-[rgba(255,255,255,0.075)]">
+                  {message.output}
+                </div>
+              )}
+
+              <div className="text-xs text-[#6E748A] mt-2">
+                {message.usage?.sampledAt ? `sampled ${new Date(message.usage.sampledAt).toLocaleTimeString()} • ` : ""}
+                {new Date(message.ts).toLocaleTimeString()}
+              </div>
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    if (message.subtype === "EVENTS") {
+      return (
+        <div className="text-sm font-mono p-4 rounded-lg mb-2 border-l-4 border-[#6EDBD6] bg-[#0A0E1B]/50 hover:bg-[#0A0E1B]/70 transition-colors">
+          <div className="flex items-start gap-2">
+            <span className="text-[#6EDBD6] text-lg flex-shrink-0">📋</span>
+            <div className="flex-1 min-w-0">
+              <div className="text-[#6EDBD6] font-bold mb-3">Kubernetes Events</div>
+
+              {message.summary && (
+                <div className="mb-3 text-xs">
+                  <span className="text-[#9BFFB0]">Deployment:</span> <span className="text-[#E2E6F0]">{message.summary.namespace}/{message.summary.deployment}</span>
+                  {message.summary.commandId && (
+                    <>
+                      {" • "}<span className="text-[#9BFFB0]">Command:</span> <span className="text-[#E2E6F0]">{message.summary.commandId}</span>
+                    </>
+                  )}
+                </div>
+              )}
+
+              <EventTimeline events={message.events ?? []} />
+
+              <div className="text-xs text-[#6E748A] mt-2">
+                {new Date(message.ts).toLocaleTimeString()}
+              </div>
+            </div>
+          </div>
+        </div>
+      );
+    }
+
     // Default read response
     return (
       <div className="text-sm font-mono p-4 rounded-lg mb-2 border-l-4 border-[#6EDBD6] bg-[#0A0E1B]/50 hover:bg-[#0A0E1B]/70 transition-colors">
@@ -171,6 +325,10 @@ export function ChatMessage({ message }: ChatMessageProps): React.ReactElement |
     );
   }
 
+  if (message.role === "logs") {
+    return <LogViewer message={message} />;
+  }
+
   if (message.role === "dryrun") {
     return (
       <div className="text-sm font-mono p-4 rounded-lg mb-2 border-l-4 border-[#D6A65A] bg-[#0A0E1B]/50 hover:bg-[#0A0E1B]/70 transition-colors">
@@ -213,6 +371,40 @@ export function ChatMessage({ message }: ChatMessageProps): React.ReactElement |
                     <div className="text-sm text-[#E2E6F0] ml-4">{message.preview.effect}</div>
                   </div>
                 )}
+                {message.preview.dryRun && (
+                  <div className="bg-[#0F1426] p-3 rounded border border-[rgba(255,255,255,0.075)] mt-2">
+                    <div className="text-[#9BFFB0] font-bold mb-2 text-sm">
+                      {message.preview.dryRun.mode === "server" ? "API server dry run (dryRun=All):" : "Simulated cluster dry run:"}{" "}
+                      <span className={message.preview.dryRun.accepted ? "text-[#9BFFB0]" : "text-[#C94A5A]"}>
+                        {message.preview.dryRun.accepted ? "accepted" : `rejected (${message.preview.dryRun.rejection?.code ?? "?"} ${message.preview.dryRun.rejection?.reason})`}
+                      </span>
+                    </div>
+                    {message.preview.dryRun.rejection ? (
+                      <div className="text-xs ml-4 space-y-1">
+                        <div className="text-[#C94A5A] break-words">{message.preview.dryRun.rejection.message}</div>
+                        {message.preview.dryRun.rejection.causes.map((cause, index) => (
+                          <div key={index} className="text-[#E2E6F0]">• <span className="text-[#6EDBD6]">{cause.field ?? "spec"}</span>: {cause.message}</div>
+                        ))}
+                      </div>
+                    ) : message.preview.dryRun.changes.length > 0 ? (
+                      <div className="text-xs ml-4 space-y-1">
+                        {message.preview.dryRun.changes.map(change => (
+                          <div key={change.path} className="break-all">
+                            <span className={change.op === "add" ? "text-[#9BFFB0]" : change.op === "remove" ? "text-[#C94A5A]" : "text-[#D6A65A]"}>
+                              {change.op === "add" ? "+" : change.op === "remove" ? "-" : "~"}
+                            </span>{" "}
+                            <span className="text-[#6EDBD6]">{change.path}</span>
+                            {change.op !== "add" && <span className="text-[#6E748A]"> {formatSpecValue(change.before)}</span>}
+                            {change.op === "replace" && <span className="text-[#6E748A]"> →</span>}
+                            {change.op !== "remove" && <span className="text-[#E2E6F0]"> {formatSpecValue(change.after)}</span>}
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="text-xs text-[#E2E6F0] ml-4">No changes to the Deployment</div>
+                    )}
+                  </div>
+                )}
               </div>
             )}
 
@@ -220,7 +412,7 @@ export function ChatMessage({ message }: ChatMessageProps): React.ReactElement |
             <div className="mb-4">
               <div className="text-[#9BFFB0] font-bold mb-2 text-sm">Why safe:</div>
               <div className="text-sm space-y-1 ml-4">
-                <div className="text-[#E2E6F0]">• Kubernetes not called</div>
+                <div className="text-[#E2E6F0]">• {message.preview?.dryRun ? "Sent with dryRun=All - validated and admitted, never persisted" : "Kubernetes not changed"}</div>
                 <div className="text-[#E2E6F0]">• No queue</div>
                 <div className="text-[#E2E6F0]">• No worker execution</div>
               </div>
@@ -295,8 +487,9 @@ export function ChatMessage({ message }: ChatMessageProps): React.ReactElement |
           <div className="flex-1">
             {/* Timeline Card Header */}
             <div className={`${style.textColor} font-bold mb-3 text-base`}>
-              🧠 {message.action === "SCALE" ? "Scaling LoadLab Deployment" : 
-                   message.action === "RESTART" ? "Restarting LoadLab Deployment" : 
+              🧠 {message.action === "SCALE" ? `Scaling ${message.target ?? "LoadLab"} Deployment` : 
+                   message.action === "RESTART" ? `Restarting ${message.target ?? "LoadLab"} Deployment` : 
+                   message.action === "ROLLBACK" ? `Rolling back ${message.target ?? "LoadLab"} Deployment` : 
                    style.title}
             </div>
             
@@ -316,6 +509,9 @@ export function ChatMessage({ message }: ChatMessageProps): React.ReactElement |
                 {message.after?.replicas && (
                   <div>• Target replicas: <span className="text-[#9BFFB0] font-bold">{message.after.replicas}</span></div>
                 )}
+                {message.action === "ROLLBACK" && (
+                  <div>• Target revision: <span className="text-[#9BFFB0] font-bold">{message.meta?.revision ?? 'previous'}</span></div>
+                )}
               </div>
             </div>
 
@@ -335,6 +531,9 @@ export function ChatMessage({ message }: ChatMessageProps): React.ReactElement |
                   <>
                     <div>• Command validated</div>
                     <div>• Added to execution queue</div>
+                    {message.commandId && (
+                      <div>• To withdraw: <span className="text-[#C084FC] font-mono text-xs">cancel {message.commandId}</span></div>
+                    )}
                   </>
                 )}
               </div>
@@ -359,8 +558,8 @@ export function ChatMessage({ message }: ChatMessageProps): React.ReactElement |
               <div className="text-[#E2E6F0] text-sm space-y-1 ml-4">
                 {message.executionId && <div>• executionId: <span className="text-[#C084FC] font-mono text-xs">{message.executionId}</span></div>}
                 <div>• timestamp: <span className="text-[#6EDBD6] text-xs">{new Date(message.ts).toISOString()}</span></div>
-                <div>• namespace: <span className="text-[#6EDBD6]">demo</span></div>
-                <div>• deployment: <span className="text-[#6EDBD6]">loadlab</span></div>
+                {message.namespace && <div>• namespace: <span className="text-[#6EDBD6]">{message.namespace}</span></div>}
+                {message.target && <div>• deployment: <span className="text-[#6EDBD6]">{message.target}</span></div>}
                 <div>• verificationSource: <span className="text-[#9BFFB0]">kubernetes</span></div>
               </div>
             </div>
@@ -420,6 +619,40 @@ export function ChatMessage({ message }: ChatMessageProps): React.ReactElement |
                       <div key={key}>• {key}: <span className="text-[#6EDBD6]">{String(value)}</span></div>
                     ))}
                   </div>
+                  {resultMessage.events ? (
+                    <div className="mt-3">
+                      <div className="text-[#9BFFB0] font-bold text-sm mb-2">📋 Kubernetes Events</div>
+                      <EventTimeline events={resultMessage.events} />
+                    </div>
+                  ) : null}
+                </div>
+              </div>
+            ) : null}
+
+            {!isSuccess && resultMessage.events && resultMessage.events.length > 0 ? (
+              <div className="mb-4">
+                <div className="text-[#D6A65A] font-bold mb-2 text-sm">📋 Kubernetes Events</div>
+                <EventTimeline events={resultMessage.events} />
+              </div>
+            ) : null}
+
+            {resultMessage.rollback ? (
+              <div className="mb-4">
+                <div className="text-[#D6A65A] font-bold mb-2 text-sm">Step 4: Automatic Rollback</div>
+                <div className="bg-[#0F1426] p-3 rounded border border-[rgba(255,255,255,0.075)]">
+                  <div className={`${resultMessage.rollback.status === "succeeded" ? "text-[#9BFFB0]" : "text-[#C94A5A]"} font-bold text-sm mb-2`}>
+                    ↩ Rollback {resultMessage.rollback.status}
+                  </div>
+                  <div className="text-[#E2E6F0] text-sm space-y-1 ml-4">
+                    <div>• replicas: <span className="text-[#6EDBD6]">{resultMessage.rollback.replicas}</span></div>
+                    <div>• revision: <span className="text-[#6EDBD6]">{resultMessage.rollback.fromRevision ?? "?"} → {resultMessage.rollback.toRevision ?? "?"}</span></div>
+                    {resultMessage.rollback.summary ? (
+                      <div>• state: <span className="text-[#6EDBD6]">{resultMessage.rollback.summary}</span></div>
+                    ) : null}
+                    {resultMessage.rollback.error ? (
+                      <div>• error: <span className="text-[#C94A5A]">{resultMessage.rollback.error}</span></div>
+                    ) : null}
+                  </div>
                 </div>
               </div>
             ) : null}
@@ -435,3 +668,8 @@ export function ChatMessage({ message }: ChatMessageProps): React.ReactElement |
 
   return null;
 }
+
+function formatSpecValue(value: unknown): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
@@ -8,7 +8,7 @@ import { chatReducer } from "@/lib/chat/reducer";
 import { ChatContextType } from "@/lib/chat/types";
 import { ChatStream } from "./ChatStream";
 import { CommandInput } from "./CommandInput";
-import { useExecutionPolling } from "@/lib/hooks/useExecutionPolling";
+import { ExecutionResult, useExecutionPolling } from "@/lib/hooks/useExecutionPolling";
 
 const initialState: ChatContextType = {
   messages: [],
@@ -29,6 +29,7 @@ export function ChatShell() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [executionTime, setExecutionTime] = useState<number>(0);
   const [quotaRemaining, setQuotaRemaining] = useState<number | null>(null);
+  const [quotaResetsAt, setQuotaResetsAt] = useState<number | null>(null);
   const [activeExecution, setActiveExecution] = useState<ActiveExecution | null>(null);
 
   const userRole = user?.publicMetadata?.role as string || 'FREE';
@@ -37,7 +38,7 @@ export function ChatShell() {
   // Handle execution state changes from polling
   const handleExecutionStateChange = useCallback((
     newState: 'queued' | 'executing' | 'completed' | 'failed',
-    result?: { message?: string; proof?: unknown }
+    result?: ExecutionResult
   ) => {
     if (!activeExecution) return;
 
@@ -70,6 +71,8 @@ export function ChatShell() {
             commandId: activeExecution.commandId,
             executionId: activeExecution.executionId,
             proof: result?.proof,
+            rollback: result?.rollback,
+            events: result?.events,
             ts: now,
           },
         });
@@ -113,11 +116,13 @@ export function ChatShell() {
       const elapsed = Date.now() - startTime;
       setExecutionTime(elapsed);
 
+      // Update quota if provided; a 429 carries it too
+      if (result.user?.quotaRemaining !== undefined) {
+        setQuotaRemaining(result.user.quotaRemaining);
+        setQuotaResetsAt(result.user.quota?.resetsAt ?? null);
+      }
+
       if (response.ok) {
-        // Update quota if provided
-        if (result.user?.quotaRemaining !== undefined) {
-          setQuotaRemaining(result.user.quotaRemaining);
-        }
 
         const systemMessageId = `${commandId}-system`;
 
@@ -133,6 +138,18 @@ export function ChatShell() {
             },
           });
 
+        } else if (result.type === "READ" && result.subtype === "LOGS" && result.status === "success") {
+          dispatch({
+            type: "SET_LOGS_RESPONSE",
+            payload: {
+              id: systemMessageId,
+              deployment: result.summary.deployment,
+              namespace: result.summary.namespace,
+              logs: result.logs,
+              ts: now,
+            },
+          });
+
         } else if (result.type === "READ") {
           // Show read result with enhanced data
           dispatch({
@@ -144,6 +161,10 @@ export function ChatShell() {
               system: result.system,
               kubernetes: result.kubernetes,
               pods: result.pods,
+              revisions: result.revisions,
+              events: result.events,
+              usage: result.usage,
+              metrics: result.metrics,
               summary: result.summary,
               output: result.message || result.error || 'Read operation completed',
               ts: now,
@@ -164,6 +185,19 @@ export function ChatShell() {
             },
           });
 
+        } else if (result.type === "QUEUE") {
+          dispatch({
+            type: "SET_RESULT",
+            payload: {
+              id: systemMessageId,
+              status: "success",
+              output: result.message,
+              commandId: result.execution?.commandId,
+              executionId: result.execution?.executionId,
+              ts: now,
+            },
+          });
+
         } else if (result.type === "EXECUTE") {
           // Show accepted state immediately with enhanced data
           dispatch({
@@ -174,6 +208,7 @@ export function ChatShell() {
               executionId: result.executionId,
               action: result.action,
               target: result.target,
+              namespace: result.namespace,
               intent: result.intent,
               before: result.before,
               after: result.after,
@@ -181,6 +216,8 @@ export function ChatShell() {
               meta: {
                 action: result.command?.action,
                 targetReplicas: result.command?.targetReplicas,
+                revision: result.command?.revision,
+                change: result.command?.change,
                 queuePosition: result.execution?.queuePosition,
                 priority: result.execution?.priorityLabel,
                 estimatedWait: result.execution?.estimatedWaitTime,
@@ -249,6 +286,7 @@ export function ChatShell() {
     dispatch({ type: "RESET_CHAT" });
     setExecutionTime(0);
     setQuotaRemaining(null);
+    setQuotaResetsAt(null);
     setActiveExecution(null);
   }, []);
 
@@ -305,6 +343,9 @@ export function ChatShell() {
               <span className={`font-bold ${quotaRemaining > 0 ? 'text-[#9BFFB0]' : 'text-[#D6A65A]'}`}>
                 {quotaRemaining}
               </span>
+              {quotaResetsAt !== null && (
+                <span className="text-[#6E748A]"> (resets {new Date(quotaResetsAt).toLocaleTimeString()})</span>
+              )}
             </div>
           )}
 
@@ -349,7 +390,7 @@ export function ChatShell() {
         disabled={state.state === "executing" || isSubmitting}
         placeholder={
           !isAdmin && quotaRemaining === 0 
-            ? "Quota exceeded - commands will be queued" 
+            ? "Quota exceeded - read and dry-run commands still work" 
             : "Try: help, status, scale loadlab to 3, dry run scale loadlab to 5"
         }
       />
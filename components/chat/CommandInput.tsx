@@ -8,8 +8,6 @@ interface CommandInputProps {
   placeholder?: string;
 }
 
-const ALLOWED_VERBS = ["scale", "status", "restart", "help"];
-
 export function CommandInput({ onSubmit, disabled, placeholder }: CommandInputProps) {
   const inputRef = useRef<HTMLInputElement>(null);
   const [error, setError] = useState<string>("");
@@ -58,16 +56,6 @@ export function CommandInput({ onSubmit, disabled, placeholder }: CommandInputPr
       }
 
 
-      const verb = value.split(" ")[0].toLowerCase();
-
-
-      if (!ALLOWED_VERBS.includes(verb)) {
-        setError(`Unknown command: ${verb}. Try: ${ALLOWED_VERBS.join(", ")}`);
-        setTimeout(() => setError(""), 4000);
-        return;
-      }
-
-
       setError("");
 
 
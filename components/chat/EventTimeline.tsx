@@ -0,0 +1,36 @@
+import React from "react";
+import type { DeploymentEvent } from "@/lib/k8s/events";
+
+interface EventTimelineProps {
+  events: DeploymentEvent[];
+}
+
+export function EventTimeline({ events }: EventTimelineProps) {
+  if (events.length === 0) {
+    return (
+      <div className="text-xs text-[#6E748A] bg-[#0F1426] p-2 rounded border border-[rgba(255,255,255,0.075)]">
+        No events in this window
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-[#0F1426] rounded border border-[rgba(255,255,255,0.075)] overflow-hidden">
+      {events.map(event => (
+        <div key={`${event.type}:${event.reason}`} className="p-2 text-xs border-t first:border-t-0 border-[rgba(255,255,255,0.075)]">
+          <div className="flex gap-2">
+            <span className="text-[#6E748A] flex-shrink-0">
+              {event.lastSeen ? new Date(event.lastSeen).toLocaleTimeString() : "-"}
+            </span>
+            <span className={`font-bold ${event.type === "Warning" ? "text-[#C94A5A]" : "text-[#9BFFB0]"}`}>
+              {event.reason}
+            </span>
+            {event.count > 1 && <span className="text-[#D6A65A]">×{event.count}</span>}
+            <span className="text-[#6EDBD6] truncate">{event.objects.join(", ")}</span>
+          </div>
+          <div className="text-[#E2E6F0] ml-4 break-words">{event.message}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
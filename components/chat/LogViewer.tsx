@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from "react";
+import type { ChatMessage } from "@/lib/chat/types";
+
+interface LogViewerProps {
+  message: Extract<ChatMessage, { role: "logs" }>;
+}
+
+export function LogViewer({ message }: LogViewerProps) {
+  const [query, setQuery] = useState<string>("");
+  const { logs } = message;
+  const needle = query.trim().toLowerCase();
+
+  const visible = useMemo(
+    () =>
+      logs.lines
+        .map((line, index) => ({ line, number: index + 1 }))
+        .filter(entry => !needle || entry.line.toLowerCase().includes(needle)),
+    [logs.lines, needle]
+  );
+
+  return (
+    <div className="text-sm font-mono p-4 rounded-lg mb-2 border-l-4 border-[#6EDBD6] bg-[#0A0E1B]/50 hover:bg-[#0A0E1B]/70 transition-colors">
+      <div className="flex items-start gap-2">
+        <span className="text-[#6EDBD6] text-lg flex-shrink-0">📜</span>
+        <div className="flex-1 min-w-0">
+          <div className="text-[#6EDBD6] font-bold mb-2">
+            {logs.previous ? "Previous Container Logs" : "Container Logs"}
+          </div>
+
+          <div className="mb-3 text-xs">
+            <span className="text-[#9BFFB0]">Pod:</span> <span className="text-[#E2E6F0]">{logs.pod}</span> •
+            <span className="text-[#9BFFB0] ml-2">Container:</span> <span className="text-[#E2E6F0]">{logs.container}</span> •
+            <span className="text-[#9BFFB0] ml-2">Deployment:</span> <span className="text-[#E2E6F0]">{message.namespace}/{message.deployment}</span>
+          </div>
+
+          <input
+            type="search"
+            value={query}
+            onChange={event => setQuery(event.target.value)}
+            placeholder="Filter lines..."
+            className="w-full mb-2 px-2 py-1 text-xs bg-[#0F1426] text-[#E2E6F0] rounded border border-[rgba(255,255,255,0.075)] focus:outline-none focus:border-[#6EDBD6]"
+          />
+
+          {logs.lines.length > 0 ? (
+            <pre className="bg-[#0F1426] rounded border border-[rgba(255,255,255,0.075)] p-2 text-xs text-[#E2E6F0] max-h-96 overflow-auto whitespace-pre">
+              {visible.map(entry => (
+                <div key={entry.number}>
+                  <span className="text-[#6E748A] select-none inline-block w-10 text-right mr-3">{entry.number}</span>
+                  {highlight(entry.line, needle)}
+                </div>
+              ))}
+            </pre>
+          ) : (
+            <div className="text-xs text-[#D6A65A] bg-[#0F1426] p-2 rounded border border-[rgba(255,255,255,0.075)]">
+              No log output
+            </div>
+          )}
+
+          <div className="text-xs text-[#6E748A] mt-2">
+            {needle ? `${visible.length}/${logs.lines.length} lines match • ` : `${logs.lines.length} lines • `}
+            {logs.truncated && <span className="text-[#D6A65A]">truncated to last {logs.tailLines} lines / {logs.bytes} bytes • </span>}
+            {logs.redactions > 0 && <span className="text-[#D6A65A]">{logs.redactions} secrets redacted • </span>}
+            {new Date(message.ts).toLocaleTimeString()}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function highlight(line: string, needle: string): React.ReactNode {
+  if (!needle) {
+    return line;
+  }
+
+  const parts: React.ReactNode[] = [];
+  const lower = line.toLowerCase();
+  let cursor = 0;
+
+  for (let index = lower.indexOf(needle); index !== -1; index = lower.indexOf(needle, cursor)) {
+    parts.push(line.slice(cursor, index));
+    parts.push(
+      <mark key={index} className="bg-[#D6A65A] text-[#0A0E1B] rounded-sm">
+        {line.slice(index, index + needle.length)}
+      </mark>
+    );
+    cursor = index + needle.length;
+  }
+  parts.push(line.slice(cursor));
+
+  return parts;
+}
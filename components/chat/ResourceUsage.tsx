@@ -0,0 +1,77 @@
+import React from "react";
+import { formatCpu, formatMemory } from "@/lib/k8s/resources";
+import type { DeploymentUsage, ResourceFigures } from "@/lib/k8s/resources";
+
+interface ResourceUsageTableProps {
+  usage: DeploymentUsage;
+}
+
+interface FigureCellProps {
+  figures: ResourceFigures;
+  format: (value: number | null) => string;
+}
+
+export function MetricsUnavailableNotice({ reason }: { reason: string | null }) {
+  return (
+    <div className="mb-2 text-xs text-[#D6A65A] bg-[#0F1426] p-2 rounded border border-[rgba(255,255,255,0.075)]">
+      Live usage unavailable{reason ? `: ${reason}` : ""}. Showing requests and limits only.
+    </div>
+  );
+}
+
+export function UsageFigure({ figures, format }: FigureCellProps) {
+  // Usage is coloured against the limit, falling back to the request.
+  const ceiling = figures.limit ?? figures.request;
+  const ratio = figures.usage !== null && ceiling ? figures.usage / ceiling : null;
+  const color = ratio === null ? "text-[#E2E6F0]" : ratio >= 0.9 ? "text-[#C94A5A]" : ratio >= 0.7 ? "text-[#D6A65A]" : "text-[#9BFFB0]";
+
+  return (
+    <div title={`usage ${format(figures.usage)} / request ${format(figures.request)} / limit ${format(figures.limit)}`}>
+      <span className={color}>{format(figures.usage)}</span>
+      <span className="text-[#6E748A]"> / {format(figures.request)} / {format(figures.limit)}</span>
+    </div>
+  );
+}
+
+export function ResourceUsageTable({ usage }: ResourceUsageTableProps) {
+  return (
+    <>
+      {!usage.available && <MetricsUnavailableNotice reason={usage.reason} />}
+
+      {usage.pods.length > 0 ? (
+        <div className="bg-[#0F1426] rounded border border-[rgba(255,255,255,0.075)] overflow-x-auto">
+          <div className="grid grid-cols-4 gap-2 p-2 bg-[rgba(255,255,255,0.05)] text-xs font-bold text-[#9BFFB0] min-w-[560px]">
+            <div className="col-span-2">Pod / Container</div>
+            <div>CPU (use / req / lim)</div>
+            <div>Memory (use / req / lim)</div>
+          </div>
+          {usage.pods.map(pod => (
+            <div key={pod.name} className="border-t border-[rgba(255,255,255,0.075)] min-w-[560px]">
+              <div className="grid grid-cols-4 gap-2 p-2 text-xs text-[#E2E6F0]">
+                <div className="col-span-2 truncate" title={pod.name}>{pod.name}</div>
+                <UsageFigure figures={pod.cpu} format={formatCpu} />
+                <UsageFigure figures={pod.memory} format={formatMemory} />
+              </div>
+              {pod.containers.length > 1 && pod.containers.map(container => (
+                <div key={container.name} className="grid grid-cols-4 gap-2 px-2 pb-1 text-xs text-[#6E748A]">
+                  <div className="col-span-2 truncate pl-4">{container.name}</div>
+                  <UsageFigure figures={container.cpu} format={formatCpu} />
+                  <UsageFigure figures={container.memory} format={formatMemory} />
+                </div>
+              ))}
+            </div>
+          ))}
+          <div className="grid grid-cols-4 gap-2 p-2 text-xs font-bold text-[#E2E6F0] border-t border-[rgba(255,255,255,0.075)] min-w-[560px]">
+            <div className="col-span-2">Total</div>
+            <UsageFigure figures={usage.totals.cpu} format={formatCpu} />
+            <UsageFigure figures={usage.totals.memory} format={formatMemory} />
+          </div>
+        </div>
+      ) : (
+        <div className="text-xs text-[#D6A65A] bg-[#0F1426] p-2 rounded border border-[rgba(255,255,255,0.075)]">
+          No pods found
+        </div>
+      )}
+    </>
+  );
+}
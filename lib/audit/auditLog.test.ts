@@ -0,0 +1,106 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "bun:test";
+import { AuditEntry, queryAudit, recordAudit, verifyAuditChain } from "./auditLog";
+
+const NOW = Date.parse("2026-10-05T12:00:00Z");
+
+let chain: AuditEntry[];
+
+
+beforeAll(() => {
+  process.env.AUDIT_STORE = "memory";
+  process.env.AUDIT_HMAC_KEY = "test-key";
+
+  for (const [index, type] of (["command.received", "command.enqueued", "command.completed", "token.revoked"] as const).entries()) {
+    recordAudit({ type, executionId: `exec-${index}`, userId: "alice", outcome: "succeeded", data: { step: index } }, NOW + index);
+  }
+  chain = queryAudit();
+});
+
+
+afterEach(() => {
+  process.env.AUDIT_HMAC_KEY = "test-key";
+});
+
+
+afterAll(() => {
+  delete process.env.AUDIT_HMAC_KEY;
+});
+
+
+function copy(entries: AuditEntry[]): AuditEntry[] {
+  return entries.map(entry => JSON.parse(JSON.stringify(entry)));
+}
+
+
+describe("verifyAuditChain", () => {
+  it("accepts the chain as written and the live log", () => {
+    expect(chain.map(entry => entry.seq)).toEqual([1, 2, 3, 4]);
+    expect(verifyAuditChain(chain)).toMatchObject({ valid: true, entries: 4, keyed: true, lastHash: chain[3].hash });
+    expect(verifyAuditChain()).toMatchObject({ valid: true, anchor: { seq: 4, hash: chain[3].hash } });
+  });
+
+
+  it("rejects a changed entry", () => {
+    const changed = copy(chain);
+    changed[1].userId = "mallory";
+
+    expect(verifyAuditChain(changed)).toMatchObject({
+      valid: false,
+      brokenAt: 2,
+      reason: "hash does not match the entry's content or AUDIT_HMAC_KEY",
+    });
+  });
+
+
+  it("rejects a deleted entry", () => {
+    expect(verifyAuditChain([chain[0], chain[2], chain[3]])).toMatchObject({
+      valid: false,
+      brokenAt: 3,
+      reason: "expected seq 2, found 3",
+    });
+  });
+
+
+  it("rejects a deleted entry even when the rest is renumbered", () => {
+    const renumbered = copy([chain[0], chain[2]]);
+    renumbered[1].seq = 2;
+
+    expect(verifyAuditChain(renumbered)).toMatchObject({ valid: false, brokenAt: 2, reason: "prevHash does not match the previous entry" });
+  });
+
+
+  it("rejects reordered entries", () => {
+    expect(verifyAuditChain([chain[0], chain[2], chain[1], chain[3]])).toMatchObject({ valid: false, brokenAt: 3 });
+  });
+
+
+  it("rejects a chain that no longer holds the anchor", () => {
+    const anchor = { seq: 4, hash: chain[3].hash };
+
+    expect(verifyAuditChain(chain.slice(0, 3), anchor)).toMatchObject({
+      valid: false,
+      brokenAt: 4,
+      reason: "chain ends at seq 3, before the anchor",
+    });
+    expect(verifyAuditChain(chain, { seq: 3, hash: chain[3].hash })).toMatchObject({
+      valid: false,
+      brokenAt: 3,
+      reason: "entry 3 does not match the anchor",
+    });
+    expect(verifyAuditChain(chain.slice(0, 3))).toMatchObject({ valid: true, entries: 3 });
+  });
+
+
+  it("fails without the key the chain was written with", () => {
+    delete process.env.AUDIT_HMAC_KEY;
+    expect(verifyAuditChain(chain)).toMatchObject({
+      valid: false,
+      keyed: false,
+      brokenAt: 1,
+      reason: "hash does not match the entry's content",
+    });
+
+    process.env.AUDIT_HMAC_KEY = "other-key";
+    expect(verifyAuditChain(chain)).toMatchObject({ valid: false, keyed: true, brokenAt: 1 });
+  });
+});
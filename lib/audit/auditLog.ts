@@ -0,0 +1,270 @@
+import crypto from "crypto";
+import { StructuredLogger } from "../logging/structuredLogger";
+import { AuditStore, createAuditStore } from "./auditStore";
+
+export const AUDIT_EVENT_TYPES = [
+  "command.received",
+  "command.rejected",
+  "command.dry_run",
+  "command.enqueued",
+  "command.started",
+  "command.authorized",
+  "k8s.patch",
+  "command.completed",
+  "command.failed",
+  "queue.cancelled",
+  "queue.reprioritized",
+  "token.issued",
+  "token.revoked",
+] as const;
+
+export type AuditEventType = (typeof AUDIT_EVENT_TYPES)[number];
+
+export type AuditOutcome = "accepted" | "rejected" | "succeeded" | "failed";
+
+/**
+ * What callers record. `target` is "namespace/deployment"; `data` holds the
+ * decision's details (parse result, policy verdicts, quota, patch body...).
+ */
+export interface AuditRecord {
+  type: AuditEventType;
+  executionId: string;
+  commandId?: string;
+  userId?: string;
+  tokenId?: string;
+  action?: string;
+  target?: string;
+  outcome?: AuditOutcome;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * A stored record. `hash` is the HMAC-SHA256 (keyed with AUDIT_HMAC_KEY) or,
+ * without a key, the SHA-256 of the entry without it, in canonical JSON, so
+ * it covers `prevHash` and with it the whole history.
+ */
+export interface AuditEntry extends AuditRecord {
+  seq: number;
+  timestamp: number;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  userId?: string;
+  action?: string;
+  type?: AuditEventType;
+  outcome?: AuditOutcome;
+  executionId?: string;
+  from?: number;
+  to?: number;
+  // The most recent `limit` matches are returned.
+  limit?: number;
+}
+
+/**
+ * A known head of the chain, kept outside the log. The chain alone cannot
+ * show that entries were cut off its end; an anchor can.
+ */
+export interface AuditAnchor {
+  seq: number;
+  hash: string;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  lastHash: string | null;
+  // False means plain SHA-256: anyone who can write the log can rebuild a valid chain.
+  keyed: boolean;
+  anchor?: AuditAnchor;
+  // The first entry that does not fit the chain, with why.
+  brokenAt?: number;
+  reason?: string;
+}
+
+export type AuditExportFormat = "jsonl" | "csv";
+
+export const GENESIS_HASH = "0".repeat(64);
+
+const CSV_COLUMNS: Array<keyof AuditEntry> = [
+  "seq", "timestamp", "type", "outcome", "userId", "tokenId", "action", "target",
+  "executionId", "commandId", "data", "prevHash", "hash",
+];
+
+let store: AuditStore | null = null;
+
+// The last entry this process appended; verifying the live log checks it is still there.
+let head: AuditAnchor | null = null;
+
+
+function getAuditStore(): AuditStore {
+  if (!store) {
+    store = createAuditStore();
+  }
+  return store;
+}
+
+
+/**
+ * Appends a record to the chain. Never throws: a failure to audit is logged
+ * and shows up as a missing entry, but does not fail the command.
+ */
+export function recordAudit(record: AuditRecord, now: number = Date.now()): AuditEntry | null {
+  try {
+    const auditStore = getAuditStore();
+    const previous = auditStore.last();
+    // Round-trip through JSON first so what is hashed is exactly what is stored.
+    const unsigned = {
+      ...(JSON.parse(JSON.stringify(record)) as AuditRecord),
+      seq: (previous?.seq ?? 0) + 1,
+      timestamp: now,
+      prevHash: previous?.hash ?? GENESIS_HASH,
+    };
+    const entry: AuditEntry = { ...unsigned, hash: computeAuditHash(unsigned) };
+
+    auditStore.append(entry);
+    head = { seq: entry.seq, hash: entry.hash };
+    return entry;
+  } catch (error) {
+    StructuredLogger.error(record.executionId, "system", "Failed to write audit entry", {
+      type: record.type,
+      commandId: record.commandId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+
+export function queryAudit(query: AuditQuery = {}): AuditEntry[] {
+  const matches = getAuditStore().list().filter(entry =>
+    (query.userId === undefined || entry.userId === query.userId) &&
+    (query.action === undefined || entry.action === query.action) &&
+    (query.type === undefined || entry.type === query.type) &&
+    (query.outcome === undefined || entry.outcome === query.outcome) &&
+    (query.executionId === undefined || entry.executionId === query.executionId) &&
+    (query.from === undefined || entry.timestamp >= query.from) &&
+    (query.to === undefined || entry.timestamp <= query.to)
+  );
+  return query.limit === undefined ? matches : matches.slice(-query.limit);
+}
+
+
+/**
+ * Walks the whole chain: sequence numbers must be contiguous, every
+ * `prevHash` must name the entry before it and every hash must match the
+ * entry's content. The chain must also still hold `anchor`; for the live log
+ * it defaults to the last entry this process wrote, which catches entries
+ * cut off the end since then.
+ */
+export function verifyAuditChain(entries?: AuditEntry[], anchor?: AuditAnchor): AuditVerification {
+  const chain = entries ?? getAuditStore().list();
+  const expected = anchor ?? (entries === undefined ? head ?? undefined : undefined);
+  const keyed = getHmacKey() !== null;
+  let prevHash = GENESIS_HASH;
+
+  for (const [index, entry] of chain.entries()) {
+    const broken = (reason: string): AuditVerification => ({
+      valid: false,
+      entries: chain.length,
+      lastHash: chain[chain.length - 1].hash,
+      keyed,
+      anchor: expected,
+      brokenAt: entry.seq ?? index + 1,
+      reason,
+    });
+
+    if (entry.seq !== index + 1) {
+      return broken(`expected seq ${index + 1}, found ${entry.seq}`);
+    }
+    if (entry.prevHash !== prevHash) {
+      return broken("prevHash does not match the previous entry");
+    }
+    const { hash, ...unsigned } = entry;
+    if (computeAuditHash(unsigned) !== hash) {
+      return broken(keyed ? "hash does not match the entry's content or AUDIT_HMAC_KEY" : "hash does not match the entry's content");
+    }
+    prevHash = hash;
+  }
+
+  const lastHash = chain.length > 0 ? prevHash : null;
+
+  if (expected) {
+    const anchored = chain[expected.seq - 1];
+    if (!anchored || anchored.hash !== expected.hash) {
+      return {
+        valid: false,
+        entries: chain.length,
+        lastHash,
+        keyed,
+        anchor: expected,
+        brokenAt: expected.seq,
+        reason: anchored ? `entry ${expected.seq} does not match the anchor` : `chain ends at seq ${chain.length}, before the anchor`,
+      };
+    }
+  }
+
+  return { valid: true, entries: chain.length, lastHash, keyed, anchor: expected };
+}
+
+
+/**
+ * Entries keep their hashes; an unfiltered JSONL export can be checked with
+ * verifyAuditChain away from the server.
+ */
+export function exportAudit(entries: AuditEntry[], format: AuditExportFormat): string {
+  if (format === "jsonl") {
+    return entries.map(entry => JSON.stringify(entry)).join("\n") + (entries.length > 0 ? "\n" : "");
+  }
+
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => {
+    const value = entry[column];
+    if (column === "timestamp") {
+      return new Date(entry.timestamp).toISOString();
+    }
+    return toCsvField(typeof value === "object" ? JSON.stringify(value) : value);
+  }).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+
+/**
+ * AUDIT_HMAC_KEY turns entry hashes into HMACs, so someone who can edit the
+ * log but not read the key cannot forge a chain that verifies.
+ */
+export function computeAuditHash(entry: Omit<AuditEntry, "hash">): string {
+  const key = getHmacKey();
+  const digest = key ? crypto.createHmac("sha256", key) : crypto.createHash("sha256");
+  return digest.update(canonicalJson(entry)).digest("hex");
+}
+
+
+function getHmacKey(): string | null {
+  return process.env.AUDIT_HMAC_KEY || null;
+}
+
+
+// Sorted keys and no undefined values, so the same entry always hashes the same.
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const fields = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`);
+    return `{${fields.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+
+function toCsvField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,109 @@
+import fs from "fs";
+import path from "path";
+import { StructuredLogger, generateExecutionId } from "../logging/structuredLogger";
+import type { AuditEntry } from "./auditLog";
+
+/**
+ * Append-only: entries are never rewritten or removed, so the only way to
+ * change history is to edit the backing file, which breaks the hash chain.
+ */
+export interface AuditStore {
+  append(entry: AuditEntry): void;
+  // Every entry, oldest first.
+  list(): AuditEntry[];
+  last(): AuditEntry | null;
+}
+
+const DEFAULT_AUDIT_FILE = ".deploybot/audit.jsonl";
+
+
+export class MemoryAuditStore implements AuditStore {
+  private entries: AuditEntry[] = [];
+
+  append(entry: AuditEntry): void {
+    this.entries.push({ ...entry });
+  }
+
+  list(): AuditEntry[] {
+    return this.entries.map(entry => ({ ...entry }));
+  }
+
+  last(): AuditEntry | null {
+    return this.entries.length > 0 ? { ...this.entries[this.entries.length - 1] } : null;
+  }
+}
+
+
+/**
+ * One JSON entry per line, appended with O_APPEND. The last entry is cached
+ * and re-read only when the file size changes, so appends stay cheap. The
+ * chain assumes a single writer per file.
+ */
+export class FileAuditStore implements AuditStore {
+  private filePath: string;
+
+  private tail: { size: number; entry: AuditEntry | null } | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  append(entry: AuditEntry): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`, { encoding: "utf8", mode: 0o600 });
+    this.tail = { size: fs.statSync(this.filePath).size, entry: { ...entry } };
+  }
+
+  list(): AuditEntry[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const entries: AuditEntry[] = [];
+    const lines = fs.readFileSync(this.filePath, "utf8").split("\n");
+    lines.forEach((line, index) => {
+      if (line.trim() === "") {
+        return;
+      }
+      try {
+        entries.push(JSON.parse(line));
+      } catch (error) {
+        // Kept out of the list; verifyAuditChain reports the gap in seq.
+        StructuredLogger.error(generateExecutionId(), "system", "Unreadable audit log line", {
+          filePath: this.filePath,
+          line: index + 1,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+    return entries;
+  }
+
+  last(): AuditEntry | null {
+    const size = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).size : 0;
+    if (!this.tail || this.tail.size !== size) {
+      const entries = this.list();
+      this.tail = { size, entry: entries.length > 0 ? entries[entries.length - 1] : null };
+    }
+    return this.tail.entry ? { ...this.tail.entry } : null;
+  }
+}
+
+
+/**
+ * AUDIT_STORE selects the backend: "file" (default) appends to
+ * AUDIT_STORE_PATH, "memory" keeps the trail only until restart.
+ */
+export function createAuditStore(): AuditStore {
+  const kind = process.env.AUDIT_STORE ?? "file";
+
+  if (kind === "memory") {
+    return new MemoryAuditStore();
+  }
+
+  if (kind !== "file") {
+    StructuredLogger.warn(generateExecutionId(), "system", `Unknown AUDIT_STORE "${kind}" - using file store`);
+  }
+
+  return new FileAuditStore(process.env.AUDIT_STORE_PATH || DEFAULT_AUDIT_FILE);
+}
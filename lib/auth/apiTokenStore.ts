@@ -0,0 +1,138 @@
+import fs from "fs";
+import path from "path";
+import { UserRole } from "../scheduler/types";
+import { Permission } from "../users/roles";
+import { StructuredLogger, generateExecutionId } from "../logging/structuredLogger";
+
+// Personal tokens act as the user who made them; service tokens as "service:<name>".
+export type ApiTokenKind = "personal" | "service";
+
+/**
+ * A token as stored. Only the SHA-256 of the secret is kept; the plaintext is
+ * shown once when the token is issued.
+ */
+export interface ApiTokenRecord {
+  id: string;
+  name: string;
+  kind: ApiTokenKind;
+  subject: string;
+  // Service tokens only; personal tokens take their subject's current role on every use.
+  role?: UserRole;
+  permissions: Permission[];
+  targets?: string[];
+  hash: string;
+  createdAt: number;
+  createdBy: string;
+  expiresAt: number;
+  revokedAt: number | null;
+  revokedBy: string | null;
+  lastUsedAt: number | null;
+}
+
+export interface ApiTokenStore {
+  list(): ApiTokenRecord[];
+  get(id: string): ApiTokenRecord | undefined;
+  // Inserts or replaces the record with the same id.
+  put(record: ApiTokenRecord): void;
+}
+
+type ApiTokenFile = Record<string, ApiTokenRecord>;
+
+const DEFAULT_TOKEN_FILE = ".deploybot/api-tokens.json";
+
+
+export class MemoryApiTokenStore implements ApiTokenStore {
+  private tokens: Map<string, ApiTokenRecord> = new Map();
+
+  list(): ApiTokenRecord[] {
+    return [...this.tokens.values()].map(record => ({ ...record }));
+  }
+
+  get(id: string): ApiTokenRecord | undefined {
+    const record = this.tokens.get(id);
+    return record ? { ...record } : undefined;
+  }
+
+  put(record: ApiTokenRecord): void {
+    this.tokens.set(record.id, { ...record });
+  }
+}
+
+
+/**
+ * Reads the file on every call, so a revoke written by one replica is seen by
+ * the others sharing the file on their next check. `put` is an unlocked
+ * read-modify-write: two replicas writing at the same moment can lose one of
+ * the updates, so writes are kept to issuing, revoking and a throttled
+ * lastUsedAt.
+ */
+export class FileApiTokenStore implements ApiTokenStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  list(): ApiTokenRecord[] {
+    return Object.values(this.readFile());
+  }
+
+  get(id: string): ApiTokenRecord | undefined {
+    return this.readFile()[id];
+  }
+
+  put(record: ApiTokenRecord): void {
+    const tokens = this.readFile();
+    tokens[record.id] = { ...record };
+    this.write(tokens);
+  }
+
+  private readFile(): ApiTokenFile {
+    if (!fs.existsSync(this.filePath)) {
+      return {};
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+      return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : {};
+    } catch (error) {
+      // Keep the unreadable file for inspection instead of overwriting it.
+      const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.filePath, corruptPath);
+      StructuredLogger.error(generateExecutionId(), "system", "API token store unreadable - no tokens are valid", {
+        filePath: this.filePath,
+        movedTo: corruptPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {};
+    }
+  }
+
+  private write(tokens: ApiTokenFile): void {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Hashes only, but still nothing other users of the host need to read.
+    fs.writeFileSync(tempPath, JSON.stringify(tokens), { encoding: "utf8", mode: 0o600 });
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+
+/**
+ * API_TOKEN_STORE selects the backend: "file" (default) persists to
+ * API_TOKEN_STORE_PATH, "memory" forgets every token on restart.
+ */
+export function createApiTokenStore(): ApiTokenStore {
+  const kind = process.env.API_TOKEN_STORE ?? "file";
+
+  if (kind === "memory") {
+    return new MemoryApiTokenStore();
+  }
+
+  if (kind !== "file") {
+    StructuredLogger.warn(generateExecutionId(), "system", `Unknown API_TOKEN_STORE "${kind}" - using file store`);
+  }
+
+  return new FileApiTokenStore(process.env.API_TOKEN_STORE_PATH || DEFAULT_TOKEN_FILE);
+}
@@ -0,0 +1,138 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import {
+  ApiTokenRequest,
+  authenticateApiToken,
+  getActiveTokenSubject,
+  getApiToken,
+  issueApiToken,
+  RoleLookup,
+  revokeApiToken,
+} from "./apiTokens";
+import { AuthorizationError, ValidationError } from "../errors/userError";
+import { checkPermission } from "../users/roles";
+import { UserRole } from "../scheduler/types";
+
+const NOW = Date.parse("2026-10-05T12:00:00Z");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEB = { deployment: "web", namespace: "shop" };
+
+const roles = new Map<string, UserRole>([["alice", "NORMAL"]]);
+
+const lookupRole: RoleLookup = async userId => roles.get(userId) ?? null;
+
+
+beforeAll(() => {
+  process.env.API_TOKEN_STORE = "memory";
+  process.env.AUDIT_STORE = "memory";
+});
+
+
+function personal(overrides: Partial<ApiTokenRequest> = {}): ApiTokenRequest {
+  return {
+    name: "ci",
+    kind: "personal",
+    subject: "alice",
+    role: "NORMAL",
+    permissions: ["deployments:read", "deployments:scale"],
+    targets: ["shop/web"],
+    expiresInDays: 30,
+    ...overrides,
+  };
+}
+
+
+describe("issueApiToken", () => {
+  it("refuses scopes the role lacks or a token may never hold", () => {
+    expect(() => issueApiToken(personal({ permissions: ["queue:cancel-any"] }), "alice", "req")).toThrow(ValidationError);
+    expect(() => issueApiToken(personal({ permissions: ["tokens:personal"] }), "alice", "req")).toThrow(ValidationError);
+    expect(() => issueApiToken(personal({ expiresInDays: 366 }), "alice", "req")).toThrow(ValidationError);
+  });
+
+
+  it("stores no role for a personal token", () => {
+    const { apiToken } = issueApiToken(personal(), "alice", "req", NOW);
+    expect(apiToken).toMatchObject({ kind: "personal", status: "active", role: undefined, lastUsedAt: null });
+    expect(apiToken).not.toHaveProperty("hash");
+  });
+});
+
+
+describe("authenticateApiToken", () => {
+  it("acts as the subject with their current role, narrowed by the token", async () => {
+    const { token } = issueApiToken(personal(), "alice", "req", NOW);
+    const identity = await authenticateApiToken(token, lookupRole, "req", NOW);
+
+    expect(identity).toMatchObject({ userId: "alice", role: "NORMAL" });
+    expect(checkPermission(identity, "deployments:scale", { target: WEB })).toBeNull();
+    expect(checkPermission(identity, "deployments:restart", { target: WEB })?.message).toMatch(/^API token tok_\w+ is missing scope "deployments:restart"$/);
+    expect(checkPermission(identity, "deployments:read", { target: { deployment: "api", namespace: "shop" } })?.message).toMatch(
+      /is missing scope "deployments:read" on shop\/api$/
+    );
+  });
+
+
+  it("rejects a wrong secret, an unknown subject and a malformed token", async () => {
+    const { token } = issueApiToken(personal({ subject: "bob" }), "bob", "req", NOW);
+
+    await expect(authenticateApiToken(token, lookupRole, "req", NOW)).rejects.toThrow("belongs to an unknown user");
+    await expect(authenticateApiToken(`${token.slice(0, -1)}x`, lookupRole, "req", NOW)).rejects.toThrow("Invalid API token");
+    await expect(authenticateApiToken("dbt_nope", lookupRole, "req", NOW)).rejects.toThrow("Malformed API token");
+  });
+
+
+  it("rejects the token once it expires", async () => {
+    const { token } = issueApiToken(personal({ expiresInDays: 1 }), "alice", "req", NOW);
+
+    await authenticateApiToken(token, lookupRole, "req", NOW + DAY_MS - 1);
+    await expect(authenticateApiToken(token, lookupRole, "req", NOW + DAY_MS)).rejects.toThrow(/is expired$/);
+  });
+
+
+  it("records use at most once a minute", async () => {
+    const { token, apiToken } = issueApiToken(personal(), "alice", "req", NOW);
+
+    await authenticateApiToken(token, lookupRole, "req", NOW);
+    await authenticateApiToken(token, lookupRole, "req", NOW + 59 * 1000);
+    expect(getApiToken(apiToken.id, "req").lastUsedAt).toBe(NOW);
+    await authenticateApiToken(token, lookupRole, "req", NOW + 60 * 1000);
+    expect(getApiToken(apiToken.id, "req").lastUsedAt).toBe(NOW + 60 * 1000);
+  });
+});
+
+
+describe("revokeApiToken", () => {
+  it("stops the token and keeps the first revocation", async () => {
+    const { token, apiToken } = issueApiToken(personal(), "alice", "req", NOW);
+
+    expect(revokeApiToken(apiToken.id, "admin", "req", NOW + 1000)).toMatchObject({ status: "revoked", revokedBy: "admin" });
+    expect(revokeApiToken(apiToken.id, "alice", "req", NOW + 2000)).toMatchObject({ revokedAt: NOW + 1000, revokedBy: "admin" });
+    await expect(authenticateApiToken(token, lookupRole, "req", NOW + 3000)).rejects.toThrow(/is revoked$/);
+  });
+});
+
+
+describe("getActiveTokenSubject", () => {
+  it("follows the subject's role and rejects revoked tokens", async () => {
+    const { apiToken } = issueApiToken(personal(), "alice", "req", NOW);
+
+    roles.set("alice", "FREE");
+    expect(await getActiveTokenSubject(apiToken.id, lookupRole, "exec", NOW)).toMatchObject({ role: "FREE", token: { tokenId: apiToken.id } });
+    roles.set("alice", "NORMAL");
+
+    revokeApiToken(apiToken.id, "admin", "req", NOW);
+    await expect(getActiveTokenSubject(apiToken.id, lookupRole, "exec", NOW)).rejects.toThrow(AuthorizationError);
+  });
+
+
+  it("uses a service token's own role", async () => {
+    const { apiToken } = issueApiToken(
+      personal({ kind: "service", subject: "service:deployer", role: "ADMIN", permissions: ["deployments:restart"] }),
+      "admin",
+      "req",
+      NOW
+    );
+    expect((await getActiveTokenSubject(apiToken.id, lookupRole, "exec", NOW)).role).toBe("ADMIN");
+  });
+});
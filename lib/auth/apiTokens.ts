@@ -0,0 +1,313 @@
+import crypto from "crypto";
+import { AuthorizationError, NotFoundError, ValidationError } from "../errors/userError";
+import { StructuredLogger, generateExecutionId } from "../logging/structuredLogger";
+import { recordAudit } from "../audit/auditLog";
+import { UserRole } from "../scheduler/types";
+import { getRole, isKnownRole, Permission, PermissionSubject, PERMISSIONS, resolveRole, TokenGrant, UNKNOWN_ROLE } from "../users/roles";
+import { ApiTokenKind, ApiTokenRecord, ApiTokenStore, createApiTokenStore } from "./apiTokenStore";
+import type { UserIdentity } from "./identity";
+
+export type ApiTokenStatus = "active" | "expired" | "revoked";
+
+// What the API and dashboard show; never includes the hash.
+export type ApiTokenSummary = Omit<ApiTokenRecord, "hash"> & { status: ApiTokenStatus };
+
+export interface ApiTokenRequest {
+  name: string;
+  kind: ApiTokenKind;
+  subject: string;
+  // A service token's role. For a personal token, the issuer's current role:
+  // it bounds the scopes but is not stored.
+  role: UserRole;
+  permissions: Permission[];
+  targets?: string[];
+  expiresInDays: number;
+}
+
+// Tokens look like dbt_<12 hex id>_<secret>; the prefix makes leaks easy to grep for.
+export const API_TOKEN_PREFIX = "dbt_";
+
+export const MAX_TOKEN_LIFETIME_DAYS = 365;
+
+// Finds a personal token's subject's current role; null means the user is gone.
+export type RoleLookup = (userId: string) => Promise<UserRole | null>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// lastUsedAt is only rewritten once it is this stale, so busy tokens do not rewrite the store on every request.
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Scopes that only make sense for a signed-in user; token routes never accept tokens.
+const UNGRANTABLE: Permission[] = ["tokens:personal", "tokens:manage", "dashboard:admin", "audit:read"];
+
+let store: ApiTokenStore | null = null;
+
+
+function getApiTokenStore(): ApiTokenStore {
+  if (!store) {
+    store = createApiTokenStore();
+  }
+  return store;
+}
+
+
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+
+/**
+ * Validates the request and stores the new token. The returned `token` is the
+ * only time the plaintext exists outside the caller.
+ */
+export function issueApiToken(
+  request: ApiTokenRequest,
+  createdBy: string,
+  requestId: string,
+  now: number = Date.now()
+): { token: string; apiToken: ApiTokenSummary } {
+  validateRequest(request, requestId);
+
+  const idHex = crypto.randomBytes(6).toString("hex");
+  const secret = crypto.randomBytes(24).toString("base64url");
+  const record: ApiTokenRecord = {
+    id: `tok_${idHex}`,
+    name: request.name.trim(),
+    kind: request.kind,
+    subject: request.subject,
+    role: request.kind === "service" ? request.role : undefined,
+    permissions: [...new Set(request.permissions)],
+    targets: request.targets && request.targets.length > 0 ? request.targets : undefined,
+    hash: hashSecret(secret),
+    createdAt: now,
+    createdBy,
+    expiresAt: now + request.expiresInDays * DAY_MS,
+    revokedAt: null,
+    revokedBy: null,
+    lastUsedAt: null,
+  };
+
+  getApiTokenStore().put(record);
+  StructuredLogger.info(requestId, "system", "API token issued", {
+    tokenId: record.id,
+    kind: record.kind,
+    subject: record.subject,
+    role: record.role,
+    permissions: record.permissions,
+    targets: record.targets,
+    expiresAt: record.expiresAt,
+    createdBy,
+  });
+  recordAudit({
+    type: "token.issued",
+    executionId: requestId,
+    userId: createdBy,
+    tokenId: record.id,
+    outcome: "succeeded",
+    data: {
+      kind: record.kind,
+      subject: record.subject,
+      role: record.role,
+      permissions: record.permissions,
+      targets: record.targets,
+      expiresAt: record.expiresAt,
+    },
+  });
+
+  return { token: `${API_TOKEN_PREFIX}${idHex}_${secret}`, apiToken: summarize(record, now) };
+}
+
+
+/**
+ * Resolves a bearer token to the identity it acts as. A personal token gets
+ * its subject's role as of now, so demoting a user also demotes their
+ * tokens. Throws "Unauthorized: ..." like the identity providers, so routes
+ * answer 401.
+ */
+export async function authenticateApiToken(
+  token: string,
+  lookupRole: RoleLookup,
+  requestId: string = generateExecutionId(),
+  now: number = Date.now()
+): Promise<UserIdentity> {
+  const match = /^dbt_([0-9a-f]{12})_([A-Za-z0-9_-]+)$/.exec(token);
+  if (!match) {
+    throw new Error("Unauthorized: Malformed API token");
+  }
+
+  const tokenStore = getApiTokenStore();
+  const record = tokenStore.get(`tok_${match[1]}`);
+  const expected = Buffer.from(record?.hash ?? "", "hex");
+  const actual = Buffer.from(hashSecret(match[2]), "hex");
+  if (!record || expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    StructuredLogger.warn(requestId, "system", "Rejected unknown API token", { tokenId: `tok_${match[1]}` });
+    throw new Error("Unauthorized: Invalid API token");
+  }
+
+  const status = getStatus(record, now);
+  if (status !== "active") {
+    StructuredLogger.warn(requestId, "system", `Rejected ${status} API token`, { tokenId: record.id });
+    throw new Error(`Unauthorized: API token ${record.id} is ${status}`);
+  }
+
+  const role = await getTokenRole(record, lookupRole);
+  if (role === null) {
+    StructuredLogger.warn(requestId, "system", "Rejected API token of unknown user", { tokenId: record.id, userId: record.subject });
+    throw new Error(`Unauthorized: API token ${record.id} belongs to an unknown user`);
+  }
+
+  if (record.lastUsedAt === null || now - record.lastUsedAt >= LAST_USED_RESOLUTION_MS) {
+    tokenStore.put({ ...record, lastUsedAt: now });
+  }
+  StructuredLogger.info(requestId, "system", "API token used", {
+    tokenId: record.id,
+    kind: record.kind,
+    userId: record.subject,
+    role,
+  });
+
+  return { userId: record.subject, role, token: toGrant(record) };
+}
+
+
+/**
+ * The worker calls this before running a command that was enqueued with a
+ * token, so revoking a token, or demoting its user, also affects what it
+ * already queued. Resolves the role the same way authenticateApiToken does.
+ */
+export async function getActiveTokenSubject(
+  tokenId: string,
+  lookupRole: RoleLookup,
+  executionId: string,
+  now: number = Date.now()
+): Promise<PermissionSubject> {
+  const record = getApiTokenStore().get(tokenId);
+  const status = record ? getStatus(record, now) : "revoked";
+  if (!record || status !== "active") {
+    throw new AuthorizationError(`API token ${tokenId} is ${status}`, executionId, { tokenId });
+  }
+
+  const role = await getTokenRole(record, lookupRole);
+  if (role === null) {
+    throw new AuthorizationError(`API token ${tokenId} belongs to an unknown user`, executionId, { tokenId, userId: record.subject });
+  }
+  return { role, token: toGrant(record) };
+}
+
+
+export function listApiTokens(subject?: string, now: number = Date.now()): ApiTokenSummary[] {
+  return getApiTokenStore()
+    .list()
+    .filter(record => subject === undefined || (record.kind === "personal" && record.subject === subject))
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(record => summarize(record, now));
+}
+
+
+export function getApiToken(id: string, requestId: string, now: number = Date.now()): ApiTokenSummary {
+  const record = getApiTokenStore().get(id);
+  if (!record) {
+    throw new NotFoundError(`API token ${id} not found`, requestId, { tokenId: id });
+  }
+  return summarize(record, now);
+}
+
+
+// Revoking twice is harmless; the first revocation is kept.
+export function revokeApiToken(id: string, revokedBy: string, requestId: string, now: number = Date.now()): ApiTokenSummary {
+  const tokenStore = getApiTokenStore();
+  const record = tokenStore.get(id);
+  if (!record) {
+    throw new NotFoundError(`API token ${id} not found`, requestId, { tokenId: id });
+  }
+
+  if (record.revokedAt !== null) {
+    return summarize(record, now);
+  }
+
+  const revoked = { ...record, revokedAt: now, revokedBy };
+  tokenStore.put(revoked);
+  StructuredLogger.info(requestId, "system", "API token revoked", {
+    tokenId: id,
+    subject: record.subject,
+    revokedBy,
+  });
+  recordAudit({
+    type: "token.revoked",
+    executionId: requestId,
+    userId: revokedBy,
+    tokenId: id,
+    outcome: "succeeded",
+    data: { subject: record.subject },
+  });
+
+  return summarize(revoked, now);
+}
+
+
+function validateRequest(request: ApiTokenRequest, requestId: string): void {
+  if (typeof request.name !== "string" || request.name.trim() === "" || request.name.length > 64) {
+    throw new ValidationError("'name' must be 1-64 characters", requestId);
+  }
+  if (!isKnownRole(request.role)) {
+    throw new ValidationError(`Unknown role ${request.role}`, requestId);
+  }
+  if (!Array.isArray(request.permissions) || request.permissions.length === 0) {
+    throw new ValidationError("'permissions' must list at least one scope", requestId);
+  }
+
+  const unknown = request.permissions.filter(permission => !PERMISSIONS.includes(permission));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown scopes: ${unknown.join(", ")}`, requestId, { unknown });
+  }
+  const ungrantable = request.permissions.filter(permission => UNGRANTABLE.includes(permission));
+  if (ungrantable.length > 0) {
+    throw new ValidationError(`Scopes cannot be granted to a token: ${ungrantable.join(", ")}`, requestId, { ungrantable });
+  }
+  // A token can only narrow its role, so asking for more is a mistake worth reporting.
+  const rolePermissions = getRole(request.role).permissions;
+  const beyondRole = request.permissions.filter(permission => !rolePermissions.includes(permission));
+  if (beyondRole.length > 0) {
+    throw new ValidationError(`Role ${request.role} does not have: ${beyondRole.join(", ")}`, requestId, { beyondRole });
+  }
+
+  if (request.targets !== undefined && (!Array.isArray(request.targets) || request.targets.some(target => typeof target !== "string" || target === ""))) {
+    throw new ValidationError("'targets' must be namespace or namespace/deployment strings", requestId);
+  }
+  if (!Number.isFinite(request.expiresInDays) || request.expiresInDays <= 0 || request.expiresInDays > MAX_TOKEN_LIFETIME_DAYS) {
+    throw new ValidationError(`'expiresInDays' must be between 1 and ${MAX_TOKEN_LIFETIME_DAYS}`, requestId);
+  }
+}
+
+
+function getStatus(record: ApiTokenRecord, now: number): ApiTokenStatus {
+  if (record.revokedAt !== null) {
+    return "revoked";
+  }
+  if (record.expiresAt <= now) {
+    return "expired";
+  }
+  return "active";
+}
+
+
+// A personal token acts with its subject's current role; null when the subject is gone.
+async function getTokenRole(record: ApiTokenRecord, lookupRole: RoleLookup): Promise<UserRole | null> {
+  return record.kind === "service" ? resolveRole(record.role ?? UNKNOWN_ROLE) : lookupRole(record.subject);
+}
+
+
+function toGrant(record: ApiTokenRecord): TokenGrant {
+  return { tokenId: record.id, permissions: record.permissions, targets: record.targets };
+}
+
+
+function summarize(record: ApiTokenRecord, now: number): ApiTokenSummary {
+  const { hash: _hash, ...rest } = record;
+  return { ...rest, status: getStatus(record, now) };
+}
+
+
+function hashSecret(secret: string): string {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
@@ -0,0 +1,40 @@
+import { auth, clerkClient, currentUser } from "@clerk/nextjs/server";
+import { isClerkAPIResponseError } from "@clerk/nextjs/errors";
+import { UserRole } from "../scheduler/types";
+import { resolveRole } from "../users/roles";
+import type { IdentityProvider, UserIdentity } from "./identity";
+
+export class ClerkIdentityProvider implements IdentityProvider {
+  readonly name = "clerk";
+
+  async getIdentity(): Promise<UserIdentity> {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized: No authenticated user");
+    }
+
+
+    const user = await currentUser();
+    if (!user) {
+      throw new Error("Unauthorized: User not found");
+    }
+
+    // The role comes from Clerk metadata only; using up a quota never changes it.
+    const role = resolveRole(user.publicMetadata?.role as string | undefined);
+
+    return { userId, role };
+  }
+
+  async getRoleForUser(userId: string): Promise<UserRole | null> {
+    try {
+      const user = await (await clerkClient()).users.getUser(userId);
+      return resolveRole(user.publicMetadata?.role as string | undefined);
+    } catch (error) {
+      if (isClerkAPIResponseError(error) && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
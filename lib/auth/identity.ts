@@ -1,79 +1,92 @@
-import { auth, currentUser } from "@clerk/nextjs/server";
+import { headers } from "next/headers";
 import { UserRole, PriorityLevel } from "../scheduler/types";
+import { StructuredLogger } from "../logging/structuredLogger";
+import { getQuotaStatus } from "./quota";
+import { getRole, TokenGrant } from "../users/roles";
+import { authenticateApiToken, isApiToken } from "./apiTokens";
+import { ClerkIdentityProvider } from "./clerkProvider";
+import { getLocalAuthOptions, LocalIdentityProvider } from "./localProvider";
 
 export interface UserIdentity {
   userId: string;
   role: UserRole;
+  // Set when the request came in with an API token; narrows what the role may do.
+  token?: TokenGrant;
 }
 
-const FREE_QUOTA_LIMIT = 3;
-
-const userQuotaUsage: Map<string, number> = new Map();
+export interface IdentityOptions {
+  // Only routes meant for scripts and CLIs accept API tokens.
+  apiTokens?: boolean;
+  requestId?: string;
+}
 
-export async function getUserIdentity(): Promise<UserIdentity> {
-  const { userId } = await auth();
+/**
+ * Resolves who is calling the current request. Implementations throw when
+ * there is no valid caller; routes turn that into a 401.
+ */
+export interface IdentityProvider {
+  readonly name: string;
+  getIdentity(): Promise<UserIdentity>;
+  // The role a user has right now, or null when the provider does not know them.
+  getRoleForUser(userId: string): Promise<UserRole | null>;
+}
 
-  if (!userId) {
-    throw new Error("Unauthorized: No authenticated user");
-  }
+let provider: IdentityProvider | null = null;
 
 
-  const user = await currentUser();
-  if (!user) {
-    throw new Error("Unauthorized: User not found");
+export function getIdentityProvider(): IdentityProvider {
+  if (!provider) {
+    provider = createIdentityProvider();
   }
+  return provider;
+}
 
-  const role = deriveRole(userId, user.publicMetadata?.role as string);
 
-  return { userId, role };
-}
+/**
+ * AUTH_PROVIDER selects the backend: "clerk" (default) or "local", which
+ * accepts signed dev tokens and users from LOCAL_USERS_FILE without Clerk.
+ */
+export function createIdentityProvider(): IdentityProvider {
+  const kind = process.env.AUTH_PROVIDER ?? "clerk";
 
-function deriveRole(userId: string, metadataRole?: string): UserRole {
-  if (metadataRole === "ADMIN") {
-    return "ADMIN";
+  if (kind === "local") {
+    StructuredLogger.warn("system", "system", "Using local identity provider - Clerk is bypassed");
+    return new LocalIdentityProvider(getLocalAuthOptions());
   }
 
-  const used = userQuotaUsage.get(userId) || 0;
-  if (used < FREE_QUOTA_LIMIT) {
-    return "FREE";
+  if (kind !== "clerk") {
+    StructuredLogger.warn("system", "system", `Unknown AUTH_PROVIDER "${kind}" - using Clerk`);
   }
 
-  return "NORMAL";
+  return new ClerkIdentityProvider();
 }
 
-export function incrementQuota(userId: string): void {
-  const current = userQuotaUsage.get(userId) || 0;
-  userQuotaUsage.set(userId, current + 1);
-}
 
-export function getQuotaRemaining(userId: string): number {
-  const used = userQuotaUsage.get(userId) || 0;
-  return Math.max(0, FREE_QUOTA_LIMIT - used);
+export async function getUserIdentity(options: IdentityOptions = {}): Promise<UserIdentity> {
+  if (options.apiTokens) {
+    const authorization = (await headers()).get("authorization");
+    const bearer = authorization?.startsWith("Bearer ") ? authorization.slice("Bearer ".length).trim() : null;
+    if (bearer && isApiToken(bearer)) {
+      return authenticateApiToken(bearer, userId => getIdentityProvider().getRoleForUser(userId), options.requestId);
+    }
+  }
+
+  return getIdentityProvider().getIdentity();
 }
 
 export function mapRoleToPriority(role: UserRole): PriorityLevel {
-  switch (role) {
-    case "ADMIN":
-      return 1;
-    case "FREE":
-      return 2;
-    case "NORMAL":
-      return 3;
-  }
+  return getRole(role).priority;
 }
 
+// A role with a quota drops to the lowest priority once it is used up.
 export function getPriorityForUser(
   userId: string,
   role: UserRole
 ): PriorityLevel {
-  if (role === "ADMIN") {
-    return 1;
-  }
-
-  const quotaRemaining = getQuotaRemaining(userId);
-  if (role === "FREE" && quotaRemaining > 0) {
-    return 2;
+  const quota = getQuotaStatus(userId, role);
+  if (quota !== null && quota.remaining === 0) {
+    return 3;
   }
 
-  return 3;
+  return mapRoleToPriority(role);
 }
\ No newline at end of file
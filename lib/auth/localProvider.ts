@@ -0,0 +1,191 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { headers } from "next/headers";
+import { StructuredLogger } from "../logging/structuredLogger";
+import { UserRole } from "../scheduler/types";
+import { resolveRole } from "../users/roles";
+import type { IdentityProvider, UserIdentity } from "./identity";
+
+export interface LocalUser {
+  id: string;
+  role: UserRole;
+}
+
+export interface LocalAuthOptions {
+  // HMAC key for dev tokens; without it Bearer tokens are rejected.
+  secret: string | null;
+  // JSON array of { id, role }; required for the user header.
+  usersFile: string | null;
+  // The user header trusts the client, so it is off in production.
+  allowUserHeader: boolean;
+}
+
+/**
+ * What a dev token carries. `exp` is in seconds since the epoch, as in a JWT.
+ */
+export interface DevTokenPayload {
+  sub: string;
+  role: UserRole;
+  exp?: number;
+}
+
+export const LOCAL_USER_HEADER = "x-deploybot-user";
+
+const TOKEN_PREFIX = "dev";
+
+
+/**
+ * Identifies callers without Clerk, for tests and air-gapped installs. A
+ * request is accepted with either `Authorization: Bearer dev.<payload>.<sig>`
+ * (see createDevToken) or, outside production, an `X-DeployBot-User` header
+ * naming a user from the users file.
+ */
+export class LocalIdentityProvider implements IdentityProvider {
+  readonly name = "local";
+
+  private options: LocalAuthOptions;
+
+  private users: Map<string, LocalUser> | null = null;
+
+  constructor(options: LocalAuthOptions) {
+    this.options = options;
+  }
+
+  async getIdentity(): Promise<UserIdentity> {
+    return this.identify(await headers());
+  }
+
+  identify(requestHeaders: Headers): UserIdentity {
+    const authorization = requestHeaders.get("authorization");
+    if (authorization?.startsWith("Bearer ")) {
+      return this.fromToken(authorization.slice("Bearer ".length).trim());
+    }
+
+    const userId = requestHeaders.get(LOCAL_USER_HEADER);
+    if (userId) {
+      return this.fromUserHeader(userId.trim());
+    }
+
+    throw new Error("Unauthorized: No local credentials");
+  }
+
+  private fromToken(token: string): UserIdentity {
+    if (!this.options.secret) {
+      throw new Error("Unauthorized: Dev tokens are disabled (LOCAL_AUTH_SECRET is not set)");
+    }
+
+    const payload = verifyDevToken(token, this.options.secret);
+    // A user listed in the file keeps the file's role even if the token says otherwise.
+    const listed = this.getUsers().get(payload.sub);
+
+    return { userId: payload.sub, role: resolveRole(listed?.role ?? payload.role) };
+  }
+
+  private fromUserHeader(userId: string): UserIdentity {
+    if (!this.options.allowUserHeader) {
+      throw new Error(`Unauthorized: ${LOCAL_USER_HEADER} is disabled in production`);
+    }
+
+    const user = this.getUsers().get(userId);
+    if (!user) {
+      throw new Error(`Unauthorized: Unknown local user ${userId}`);
+    }
+
+    return { userId: user.id, role: resolveRole(user.role) };
+  }
+
+  // Only the users file is consulted; a dev token's role is not remembered.
+  async getRoleForUser(userId: string): Promise<UserRole | null> {
+    const user = this.getUsers().get(userId);
+    return user ? resolveRole(user.role) : null;
+  }
+
+  private getUsers(): Map<string, LocalUser> {
+    if (!this.users) {
+      this.users = new Map(loadUsers(this.options.usersFile).map(user => [user.id, user]));
+    }
+    return this.users;
+  }
+}
+
+
+export function createDevToken(payload: DevTokenPayload, secret: string): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${TOKEN_PREFIX}.${body}.${sign(body, secret)}`;
+}
+
+
+export function verifyDevToken(token: string, secret: string, now: number = Date.now()): DevTokenPayload {
+  const [prefix, body, signature] = token.split(".");
+  if (prefix !== TOKEN_PREFIX || !body || !signature) {
+    throw new Error("Unauthorized: Malformed dev token");
+  }
+
+  const expected = Buffer.from(sign(body, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new Error("Unauthorized: Invalid dev token signature");
+  }
+
+  let payload: DevTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Unauthorized: Malformed dev token");
+  }
+
+  if (typeof payload.sub !== "string" || payload.sub === "") {
+    throw new Error("Unauthorized: Dev token has no subject");
+  }
+  if (payload.exp !== undefined && payload.exp * 1000 <= now) {
+    throw new Error("Unauthorized: Dev token expired");
+  }
+
+  return payload;
+}
+
+
+/**
+ * LOCAL_AUTH_SECRET enables dev tokens, LOCAL_USERS_FILE lists known users.
+ */
+export function getLocalAuthOptions(): LocalAuthOptions {
+  return {
+    secret: process.env.LOCAL_AUTH_SECRET || null,
+    usersFile: process.env.LOCAL_USERS_FILE || null,
+    allowUserHeader: process.env.NODE_ENV !== "production",
+  };
+}
+
+
+function sign(body: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(body).digest("base64url");
+}
+
+
+function loadUsers(usersFile: string | null): LocalUser[] {
+  if (!usersFile) {
+    return [];
+  }
+
+  const filePath = path.resolve(usersFile);
+  try {
+    const parsed: unknown = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    if (!Array.isArray(parsed)) {
+      throw new Error("expected a JSON array of { id, role }");
+    }
+    return parsed.map(entry => {
+      const candidate = entry as Partial<LocalUser>;
+      if (typeof candidate.id !== "string" || typeof candidate.role !== "string") {
+        throw new Error(`user ${JSON.stringify(entry)} needs "id" and "role" strings`);
+      }
+      return { id: candidate.id, role: candidate.role };
+    });
+  } catch (error) {
+    StructuredLogger.error("system", "system", "Invalid LOCAL_USERS_FILE - no local users loaded", {
+      filePath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
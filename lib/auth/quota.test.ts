@@ -0,0 +1,107 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { chargeQuota, getQuotaStatus, refundQuota } from "./quota";
+import { getPriorityForUser } from "./identity";
+import { QuotaExceededError } from "../errors/userError";
+import { createExecutionRecord } from "../observability/executionStore";
+import { ScheduledCommand } from "../scheduler/types";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const START = Date.parse("2026-10-05T12:00:00Z");
+
+let cancelCommand: typeof import("../scheduler/queueControl").cancelCommand;
+
+let getSharedQueue: typeof import("../scheduler/sharedQueue").getSharedQueue;
+
+
+beforeAll(async () => {
+  process.env.QUOTA_STORE = "memory";
+  process.env.QUOTA_WINDOW = "rolling";
+  process.env.QUOTA_WINDOW_MS = String(HOUR_MS);
+  process.env.QUOTA_LIMITS = JSON.stringify({ FREE: 4 });
+  process.env.QUOTA_COSTS = JSON.stringify({ SCALE: 1, RESTART: 3, ROLLBACK: 0 });
+  process.env.QUEUE_STORE = "memory";
+  process.env.AUDIT_STORE = "memory";
+  // The shared queue is created on import, so it has to follow QUEUE_STORE.
+  ({ cancelCommand } = await import("../scheduler/queueControl"));
+  ({ getSharedQueue } = await import("../scheduler/sharedQueue"));
+});
+
+
+describe("chargeQuota", () => {
+  it("charges each action its own cost and rejects what does not fit", () => {
+    expect(chargeQuota("costs", "FREE", "RESTART", "exec-1", START)?.remaining).toBe(1);
+    expect(() => chargeQuota("costs", "FREE", "RESTART", "exec-2", START)).toThrow(QuotaExceededError);
+    expect(chargeQuota("costs", "FREE", "SCALE", "exec-3", START)?.remaining).toBe(0);
+    // A free action still fits once nothing is left.
+    expect(chargeQuota("costs", "FREE", "ROLLBACK", "exec-4", START)).toMatchObject({ used: 4, remaining: 0 });
+  });
+
+
+  it("frees each charge one window after it was made", () => {
+    chargeQuota("rolling", "FREE", "RESTART", "exec-1", START);
+    chargeQuota("rolling", "FREE", "SCALE", "exec-2", START + 30 * 60 * 1000);
+
+    expect(getQuotaStatus("rolling", "FREE", START + 30 * 60 * 1000)).toMatchObject({ used: 4, resetsAt: START + HOUR_MS });
+    expect(getQuotaStatus("rolling", "FREE", START + HOUR_MS - 1)?.remaining).toBe(0);
+    expect(getQuotaStatus("rolling", "FREE", START + HOUR_MS)).toMatchObject({
+      used: 1,
+      remaining: 3,
+      resetsAt: START + 90 * 60 * 1000,
+      window: "rolling 1h",
+    });
+    expect(getQuotaStatus("rolling", "FREE", START + 2 * HOUR_MS)).toMatchObject({ used: 0, resetsAt: null });
+  });
+
+
+  it("leaves roles without a limit unlimited", () => {
+    expect(chargeQuota("admin", "ADMIN", "RESTART", "exec-1", START)).toBeNull();
+    expect(getQuotaStatus("admin", "ADMIN", START)).toBeNull();
+  });
+});
+
+
+describe("getPriorityForUser", () => {
+  it("drops a role to the lowest priority once its quota is used up", () => {
+    expect(getPriorityForUser("priority", "FREE")).toBe(2);
+    chargeQuota("priority", "FREE", "RESTART", "exec-1");
+    expect(getPriorityForUser("priority", "FREE")).toBe(2);
+    chargeQuota("priority", "FREE", "SCALE", "exec-2");
+    expect(getPriorityForUser("priority", "FREE")).toBe(3);
+    expect(getPriorityForUser("priority", "ADMIN")).toBe(1);
+  });
+});
+
+
+describe("refunds", () => {
+  it("gives back only the refunded command's charge", () => {
+    chargeQuota("refund", "FREE", "RESTART", "exec-1", START);
+    chargeQuota("refund", "FREE", "SCALE", "exec-2", START);
+
+    refundQuota("refund", "exec-1", START);
+    expect(getQuotaStatus("refund", "FREE", START)?.used).toBe(1);
+    refundQuota("refund", "exec-unknown", START);
+    expect(getQuotaStatus("refund", "FREE", START)?.used).toBe(1);
+  });
+
+
+  it("refunds a pending command its owner cancels", () => {
+    const cmd: ScheduledCommand = {
+      id: "cmd_refund",
+      executionId: "exec_refund",
+      userId: "cancel",
+      priority: 2,
+      timestamp: Date.now(),
+      target: { deployment: "loadlab", namespace: "demo" },
+      role: "FREE",
+      parsed: { type: "EXECUTE", action: "RESTART", rawText: "restart loadlab" },
+    };
+    chargeQuota("cancel", "FREE", "RESTART", cmd.executionId);
+    createExecutionRecord(cmd);
+    getSharedQueue().enqueue(cmd);
+    expect(getQuotaStatus("cancel", "FREE")?.used).toBe(3);
+
+    cancelCommand(cmd.id, { userId: "cancel", role: "FREE" }, "req-1");
+    expect(getQuotaStatus("cancel", "FREE")?.used).toBe(0);
+  });
+});
@@ -0,0 +1,230 @@
+import { QuotaExceededError } from "../errors/userError";
+import { StructuredLogger } from "../logging/structuredLogger";
+import { ExecuteAction, UserRole } from "../scheduler/types";
+import { createQuotaStore, QuotaStore } from "./quotaStore";
+
+/**
+ * "hour" and "day" are fixed UTC windows that reset on the boundary;
+ * "rolling" counts every charge made in the last `durationMs`.
+ */
+export type QuotaWindow =
+  | { kind: "hour" }
+  | { kind: "day" }
+  | { kind: "rolling"; durationMs: number };
+
+export interface QuotaConfig {
+  window: QuotaWindow;
+  // Roles missing from the map have no quota.
+  limits: Record<UserRole, number>;
+  costs: Record<ExecuteAction, number>;
+}
+
+export interface QuotaStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+  // When the used amount next drops; null while nothing is used.
+  resetsAt: number | null;
+  window: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * HOUR_MS;
+
+const DEFAULT_LIMITS: Record<UserRole, number> = { FREE: 3 };
+
+const DEFAULT_COSTS: Record<ExecuteAction, number> = { SCALE: 1, RESTART: 2, ROLLBACK: 2 };
+
+let config: QuotaConfig | null = null;
+
+let store: QuotaStore | null = null;
+
+
+export function getQuotaConfig(): QuotaConfig {
+  if (!config) {
+    config = {
+      window: loadWindow(),
+      limits: loadJson("QUOTA_LIMITS", DEFAULT_LIMITS),
+      costs: { ...DEFAULT_COSTS, ...loadJson("QUOTA_COSTS", DEFAULT_COSTS) },
+    };
+  }
+  return config;
+}
+
+
+function getQuotaStore(): QuotaStore {
+  if (!store) {
+    store = createQuotaStore();
+  }
+  return store;
+}
+
+
+export function getQuotaCost(action: ExecuteAction): number {
+  return getQuotaConfig().costs[action];
+}
+
+
+/**
+ * Null when the role has no quota, so callers can tell "unlimited" apart
+ * from "nothing left".
+ */
+export function getQuotaStatus(userId: string, role: UserRole, now: number = Date.now()): QuotaStatus | null {
+  const { window, limits } = getQuotaConfig();
+  const limit = limits[role];
+  if (limit === undefined) {
+    return null;
+  }
+
+  const charges = getQuotaStore().list(userId, windowStart(window, now));
+  const used = charges.reduce((sum, charge) => sum + charge.cost, 0);
+
+  let resetsAt: number | null = null;
+  if (charges.length > 0) {
+    resetsAt = window.kind === "rolling"
+      ? charges[0].timestamp + window.durationMs
+      : windowStart(window, now) + windowLength(window);
+  }
+
+  return { limit, used, remaining: Math.max(0, limit - used), resetsAt, window: describeQuotaWindow(window) };
+}
+
+
+/**
+ * Records the command's cost and returns the status after it. Throws
+ * QuotaExceededError, leaving the ledger untouched, when the cost does not
+ * fit in what is left. The check and the charge run synchronously, so
+ * concurrent requests in one process cannot both spend the last unit; across
+ * processes a charge is never lost, but the last unit can be spent twice
+ * (see FileQuotaStore).
+ */
+export function chargeQuota(
+  userId: string,
+  role: UserRole,
+  action: ExecuteAction,
+  executionId: string,
+  now: number = Date.now()
+): QuotaStatus | null {
+  const before = getQuotaStatus(userId, role, now);
+  if (!before) {
+    return null;
+  }
+
+  const cost = getQuotaCost(action);
+  if (cost > before.remaining) {
+    throw new QuotaExceededError(executionId, {
+      userId,
+      action,
+      cost,
+      limit: before.limit,
+      used: before.used,
+      remaining: before.remaining,
+      resetsAt: before.resetsAt,
+      window: before.window,
+    });
+  }
+
+  const quotaStore = getQuotaStore();
+  const { window } = getQuotaConfig();
+  quotaStore.prune(now - Math.max(DAY_MS, window.kind === "rolling" ? window.durationMs : 0));
+  quotaStore.add(userId, { action, cost, timestamp: now, executionId });
+
+  return getQuotaStatus(userId, role, now);
+}
+
+
+/**
+ * Gives back what a command was charged. Only commands that never ran are
+ * refunded (a cancelled pending command); one that ran and failed still
+ * counts, since it did reach the cluster.
+ */
+export function refundQuota(userId: string, executionId: string, now: number = Date.now()): void {
+  getQuotaStore().refund(userId, executionId, now);
+}
+
+
+function windowStart(window: QuotaWindow, now: number): number {
+  switch (window.kind) {
+    case "hour":
+      return now - (now % HOUR_MS);
+    case "day":
+      return now - (now % DAY_MS);
+    case "rolling":
+      // A charge stops counting exactly durationMs after it was made, at resetsAt.
+      return now - window.durationMs + 1;
+  }
+}
+
+
+function windowLength(window: QuotaWindow): number {
+  switch (window.kind) {
+    case "hour":
+      return HOUR_MS;
+    case "day":
+      return DAY_MS;
+    case "rolling":
+      return window.durationMs;
+  }
+}
+
+
+export function describeQuotaWindow(window: QuotaWindow): string {
+  if (window.kind !== "rolling") {
+    return window.kind;
+  }
+  return window.durationMs % HOUR_MS === 0
+    ? `rolling ${window.durationMs / HOUR_MS}h`
+    : `rolling ${Math.round(window.durationMs / 60000)}m`;
+}
+
+
+/**
+ * QUOTA_WINDOW is "hour", "day" (default) or "rolling"; a rolling window
+ * spans QUOTA_WINDOW_MS, a day unless set.
+ */
+function loadWindow(): QuotaWindow {
+  const kind = process.env.QUOTA_WINDOW ?? "day";
+
+  if (kind === "rolling") {
+    const durationMs = Number(process.env.QUOTA_WINDOW_MS ?? DAY_MS);
+    if (Number.isFinite(durationMs) && durationMs > 0) {
+      return { kind: "rolling", durationMs };
+    }
+    StructuredLogger.warn("system", "system", `Invalid QUOTA_WINDOW_MS "${process.env.QUOTA_WINDOW_MS}" - using one day`);
+    return { kind: "rolling", durationMs: DAY_MS };
+  }
+
+  if (kind !== "hour" && kind !== "day") {
+    StructuredLogger.warn("system", "system", `Unknown QUOTA_WINDOW "${kind}" - using day`);
+    return { kind: "day" };
+  }
+
+  return { kind };
+}
+
+
+function loadJson<T extends Record<string, number>>(name: string, fallback: T): T {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      throw new Error("expected a JSON object");
+    }
+    for (const [key, value] of Object.entries(parsed)) {
+      if (!Number.isInteger(value) || (value as number) < 0) {
+        throw new Error(`"${key}" must be a non-negative integer`);
+      }
+    }
+    return parsed as T;
+  } catch (error) {
+    StructuredLogger.error("system", "system", `Invalid ${name} - falling back to defaults`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return fallback;
+  }
+}
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { FileQuotaStore, MemoryQuotaStore, QuotaCharge } from "./quotaStore";
+
+const MONDAY = Date.parse("2026-10-05T12:00:00Z");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let dir: string;
+
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "quota-store-"));
+});
+
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+
+function charge(timestamp: number, executionId: string, cost = 1): QuotaCharge {
+  return { action: "SCALE", cost, timestamp, executionId };
+}
+
+
+describe("FileQuotaStore", () => {
+  it("keeps charges from every store sharing the directory", () => {
+    const first = new FileQuotaStore(dir);
+    const second = new FileQuotaStore(dir);
+
+    first.add("user-1", charge(MONDAY, "exec-1"));
+    second.add("user-1", charge(MONDAY + 1000, "exec-2"));
+    first.add("user-1", charge(MONDAY + 2000, "exec-3"));
+    second.add("user-2", charge(MONDAY, "exec-4"));
+
+    expect(second.list("user-1", 0).map(item => item.executionId)).toEqual(["exec-1", "exec-2", "exec-3"]);
+    expect(first.list("user-2", 0).map(item => item.executionId)).toEqual(["exec-4"]);
+    expect(first.list("user-1", MONDAY + 1000).map(item => item.executionId)).toEqual(["exec-2", "exec-3"]);
+  });
+
+
+  it("writes one file per UTC day and prunes whole days", () => {
+    const store = new FileQuotaStore(dir);
+    store.add("user-1", charge(MONDAY - DAY_MS, "exec-sunday"));
+    store.add("user-1", charge(MONDAY, "exec-monday"));
+    expect(fs.readdirSync(dir).sort()).toEqual(["2026-10-04.jsonl", "2026-10-05.jsonl"]);
+
+    // Sunday's charge is older than `before`, but so is part of Monday's file.
+    store.prune(MONDAY - 60 * 1000);
+    expect(fs.readdirSync(dir)).toEqual(["2026-10-05.jsonl"]);
+    expect(store.list("user-1", 0).map(item => item.executionId)).toEqual(["exec-monday"]);
+  });
+
+
+  it("counts a refund written by another store, even on a later day", () => {
+    const first = new FileQuotaStore(dir);
+    first.add("user-1", charge(MONDAY, "exec-1"));
+    first.add("user-1", charge(MONDAY, "exec-2"));
+
+    new FileQuotaStore(dir).refund("user-1", "exec-1", MONDAY + DAY_MS);
+    expect(first.list("user-1", 0).map(item => item.executionId)).toEqual(["exec-2"]);
+    // A refund only applies to its own user.
+    new FileQuotaStore(dir).refund("user-2", "exec-2", MONDAY);
+    expect(first.list("user-1", 0)).toHaveLength(1);
+  });
+
+
+  it("skips a line it cannot read", () => {
+    const store = new FileQuotaStore(dir);
+    store.add("user-1", charge(MONDAY, "exec-1"));
+    fs.appendFileSync(path.join(dir, "2026-10-05.jsonl"), '{"op":"charge","userId":"us\n');
+    store.add("user-1", charge(MONDAY, "exec-2"));
+
+    expect(store.list("user-1", 0).map(item => item.executionId)).toEqual(["exec-1", "exec-2"]);
+  });
+
+
+  it("is empty before the first charge", () => {
+    const store = new FileQuotaStore(path.join(dir, "missing"));
+    expect(store.list("user-1", 0)).toEqual([]);
+    store.prune(MONDAY);
+  });
+});
+
+
+describe("MemoryQuotaStore", () => {
+  it("refunds and prunes", () => {
+    const store = new MemoryQuotaStore();
+    store.add("user-1", charge(MONDAY - DAY_MS, "exec-1"));
+    store.add("user-1", charge(MONDAY, "exec-2"));
+    store.add("user-1", charge(MONDAY, "exec-3"));
+
+    store.refund("user-1", "exec-2");
+    store.prune(MONDAY);
+    expect(store.list("user-1", 0).map(item => item.executionId)).toEqual(["exec-3"]);
+  });
+});
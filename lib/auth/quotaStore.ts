@@ -0,0 +1,182 @@
+import fs from "fs";
+import path from "path";
+import { ExecuteAction } from "../scheduler/types";
+import { StructuredLogger, generateExecutionId } from "../logging/structuredLogger";
+
+/**
+ * One accepted command. Charges are kept individually (not as a counter) so
+ * rolling windows can tell when each one stops counting.
+ */
+export interface QuotaCharge {
+  action: ExecuteAction;
+  cost: number;
+  timestamp: number;
+  executionId?: string;
+}
+
+export interface QuotaStore {
+  // Charges made at or after `since` and not refunded, oldest first.
+  list(userId: string, since: number): QuotaCharge[];
+  add(userId: string, charge: QuotaCharge): void;
+  // Stops counting the charge made for `executionId`, if there is one.
+  refund(userId: string, executionId: string, timestamp: number): void;
+  // Drops charges older than `before`; no window can count them any more.
+  prune(before: number): void;
+}
+
+// One line in a day file.
+type QuotaLogRecord =
+  | { op: "charge"; userId: string; charge: QuotaCharge }
+  | { op: "refund"; userId: string; executionId: string; timestamp: number };
+
+const DEFAULT_QUOTA_DIR = ".deploybot/quota";
+
+const DAY_FILE = /^\d{4}-\d{2}-\d{2}\.jsonl$/;
+
+
+export class MemoryQuotaStore implements QuotaStore {
+  private ledger: Map<string, QuotaCharge[]> = new Map();
+
+  list(userId: string, since: number): QuotaCharge[] {
+    return (this.ledger.get(userId) ?? []).filter(charge => charge.timestamp >= since);
+  }
+
+  add(userId: string, charge: QuotaCharge): void {
+    this.ledger.set(userId, [...(this.ledger.get(userId) ?? []), { ...charge }]);
+  }
+
+  refund(userId: string, executionId: string): void {
+    const charges = this.ledger.get(userId);
+    if (charges) {
+      this.ledger.set(userId, charges.filter(charge => charge.executionId !== executionId));
+    }
+  }
+
+  prune(before: number): void {
+    for (const [userId, charges] of this.ledger) {
+      const kept = charges.filter(charge => charge.timestamp >= before);
+      if (kept.length === 0) {
+        this.ledger.delete(userId);
+      } else {
+        this.ledger.set(userId, kept);
+      }
+    }
+  }
+}
+
+
+/**
+ * One append-only file per UTC day, one JSON record per line, summed on every
+ * read. Each charge is a single O_APPEND write and files are never rewritten,
+ * so replicas sharing the directory see and keep each other's charges;
+ * pruning deletes whole days no window reaches any more. The check before a
+ * charge is not atomic across replicas, so two of them charging at the same
+ * moment can both spend the last unit.
+ */
+export class FileQuotaStore implements QuotaStore {
+  private dirPath: string;
+
+  constructor(dirPath: string) {
+    this.dirPath = path.resolve(dirPath);
+  }
+
+  list(userId: string, since: number): QuotaCharge[] {
+    const charges: QuotaCharge[] = [];
+    const refunded = new Set<string>();
+
+    // A refund is always written after its charge, so it is never in an earlier file.
+    for (const file of this.dayFiles().filter(file => file >= dayFile(since))) {
+      for (const record of this.readDay(file)) {
+        if (record.userId !== userId) {
+          continue;
+        }
+        if (record.op === "refund") {
+          refunded.add(record.executionId);
+        } else if (record.charge.timestamp >= since) {
+          charges.push(record.charge);
+        }
+      }
+    }
+
+    return charges
+      .filter(charge => !charge.executionId || !refunded.has(charge.executionId))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  add(userId: string, charge: QuotaCharge): void {
+    this.append(charge.timestamp, { op: "charge", userId, charge: { ...charge } });
+  }
+
+  refund(userId: string, executionId: string, timestamp: number): void {
+    this.append(timestamp, { op: "refund", userId, executionId, timestamp });
+  }
+
+  prune(before: number): void {
+    for (const file of this.dayFiles().filter(file => file < dayFile(before))) {
+      // Another replica may have deleted it first.
+      fs.rmSync(path.join(this.dirPath, file), { force: true });
+    }
+  }
+
+  private dayFiles(): string[] {
+    if (!fs.existsSync(this.dirPath)) {
+      return [];
+    }
+    return fs.readdirSync(this.dirPath).filter(file => DAY_FILE.test(file)).sort();
+  }
+
+  private readDay(file: string): QuotaLogRecord[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(path.join(this.dirPath, file), "utf8");
+    } catch {
+      // Pruned by another replica since the directory was listed.
+      return [];
+    }
+
+    const records: QuotaLogRecord[] = [];
+    content.split("\n").forEach((line, index) => {
+      if (line.trim() === "") {
+        return;
+      }
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        StructuredLogger.warn(generateExecutionId(), "system", "Skipping unreadable quota record", {
+          filePath: path.join(this.dirPath, file),
+          line: index + 1,
+        });
+      }
+    });
+    return records;
+  }
+
+  private append(timestamp: number, record: QuotaLogRecord): void {
+    fs.mkdirSync(this.dirPath, { recursive: true });
+    fs.appendFileSync(path.join(this.dirPath, dayFile(timestamp)), `${JSON.stringify(record)}\n`, "utf8");
+  }
+}
+
+
+function dayFile(timestamp: number): string {
+  return `${new Date(timestamp).toISOString().slice(0, 10)}.jsonl`;
+}
+
+
+/**
+ * QUOTA_STORE selects the backend: "file" (default) persists to the
+ * QUOTA_STORE_PATH directory, "memory" resets quotas on every restart.
+ */
+export function createQuotaStore(): QuotaStore {
+  const kind = process.env.QUOTA_STORE ?? "file";
+
+  if (kind === "memory") {
+    return new MemoryQuotaStore();
+  }
+
+  if (kind !== "file") {
+    StructuredLogger.warn(generateExecutionId(), "system", `Unknown QUOTA_STORE "${kind}" - using file store`);
+  }
+
+  return new FileQuotaStore(process.env.QUOTA_STORE_PATH || DEFAULT_QUOTA_DIR);
+}
@@ -1,7 +1,14 @@
 import { SchedulerWorker } from "@/lib/scheduler/worker";
 import { Mutex } from "@/lib/scheduler/mutex";
 import { getSharedQueue } from "@/lib/scheduler/sharedQueue";
+import { PriorityQueue } from "@/lib/scheduler/priorityQueue";
 import { StructuredLogger, generateExecutionId } from "../logging/structuredLogger";
+import {
+  createExecutionRecord,
+  recordExecutionEvent,
+  markExecutionInterrupted,
+} from "../observability/executionStore";
+import { setLastError } from "../observability/executionState";
 
 let workerStarted = false;
 let sharedMutex: Mutex | null = null;
@@ -22,6 +29,7 @@ export function startWorkerOnce() {
   }
   
   const queue = getSharedQueue();
+  recoverQueue(queue, bootstrapExecutionId);
   
   workerInstance = new SchedulerWorker(sharedMutex, queue);
   workerInstance.start();
@@ -33,6 +41,41 @@ export function startWorkerOnce() {
 }
 
 
+/**
+ * Re-queues commands persisted before the last shutdown. Anything that was
+ * mid-execution is not retried: the cluster may already reflect it, so it is
+ * recorded as interrupted for the user to check and resubmit.
+ */
+function recoverQueue(queue: PriorityQueue, bootstrapExecutionId: string) {
+  const { pending, running } = queue.recover();
+
+  for (const cmd of pending) {
+    createExecutionRecord(cmd);
+    recordExecutionEvent(cmd.id, "queued", "Recovered from durable queue after restart");
+  }
+
+  for (const cmd of running) {
+    const message = `Command ${cmd.parsed.action} on ${cmd.target.namespace}/${cmd.target.deployment} was interrupted by a restart; verify the deployment before resubmitting`;
+
+    createExecutionRecord(cmd);
+    markExecutionInterrupted(cmd.id, message);
+    setLastError("Interrupted", message);
+    StructuredLogger.warn(cmd.executionId, "failed", "Command interrupted by restart", {
+      commandId: cmd.id,
+      userId: cmd.userId,
+      action: cmd.parsed.action,
+    });
+  }
+
+  if (pending.length > 0 || running.length > 0) {
+    StructuredLogger.info(bootstrapExecutionId, "system", "Recovered durable command queue", {
+      pending: pending.length,
+      interrupted: running.length,
+    });
+  }
+}
+
+
 function setupShutdownHandlers() {
   const handleShutdown = async (signal: string) => {
     const shutdownExecutionId = generateExecutionId();
@@ -57,6 +57,10 @@ export function chatReducer(
             system: action.payload.system,
             kubernetes: action.payload.kubernetes,
             pods: action.payload.pods,
+            revisions: action.payload.revisions,
+            events: action.payload.events,
+            usage: action.payload.usage,
+            metrics: action.payload.metrics,
             summary: action.payload.summary,
             output: action.payload.output,
             ts: action.payload.ts,
@@ -65,6 +69,23 @@ export function chatReducer(
       };
     }
 
+    case "SET_LOGS_RESPONSE": {
+      return {
+        ...state,
+        messages: [
+          ...state.messages,
+          {
+            id: action.payload.id,
+            role: "logs",
+            deployment: action.payload.deployment,
+            namespace: action.payload.namespace,
+            logs: action.payload.logs,
+            ts: action.payload.ts,
+          },
+        ],
+      };
+    }
+
     case "SET_DRYRUN_RESPONSE": {
       return {
         ...state,
@@ -96,6 +117,7 @@ export function chatReducer(
             executionId: action.payload.executionId,
             action: action.payload.action,
             target: action.payload.target,
+            namespace: action.payload.namespace,
             intent: action.payload.intent,
             before: action.payload.before,
             after: action.payload.after,
@@ -174,6 +196,8 @@ export function chatReducer(
         commandId: action.payload.commandId,
         executionId: action.payload.executionId,
         proof: action.payload.proof,
+        rollback: action.payload.rollback,
+        events: action.payload.events,
         ts: action.payload.ts,
       };
 
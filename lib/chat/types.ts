@@ -3,6 +3,12 @@
  * STRICT: No other message types allowed
  */
 
+import type { RollbackRecord } from "../observability/executionStore";
+import type { ContainerStatus, MutationPreview, RolloutRevision } from "../k8s/client";
+import type { PodLogs } from "../k8s/podLogs";
+import type { DeploymentEvent } from "../k8s/events";
+import type { DeploymentUsage, PodUsage } from "../k8s/resources";
+
 export type ChatState = "idle" | "queued" | "executing";
 
 export type ChatMessage =
@@ -20,6 +26,7 @@ export type ChatMessage =
       executionId?: string;
       action?: string;
       target?: string;
+      namespace?: string;
       intent?: "scale-up" | "scale-down" | "maintain";
       before?: {
         replicas: number;
@@ -44,6 +51,8 @@ export type ChatMessage =
       commandId?: string;
       executionId?: string;
       proof?: unknown;
+      rollback?: RollbackRecord;
+      events?: DeploymentEvent[];
       ts: number;
     }
   | {
@@ -62,7 +71,7 @@ export type ChatMessage =
   | {
       id: string;
       role: "read";
-      subtype?: "STATUS" | "PODS";
+      subtype?: "STATUS" | "PODS" | "HISTORY" | "LOGS" | "EVENTS" | "TOP";
       data?: {
         query: string;
         suggestion?: string;
@@ -81,22 +90,47 @@ export type ChatMessage =
         readyReplicas: number;
         totalPods: number;
         readyPods: number;
+        restarts?: number;
+        unhealthy?: Array<{ name: string; status: string }>;
       };
       pods?: Array<{
         name: string;
         status: string;
+        phase: string;
         ready: boolean;
+        readyContainers: number;
+        totalContainers: number;
+        containers: ContainerStatus[];
+        restarts: number;
+        node: string | null;
+        podIP: string | null;
+        revision: string | null;
+        usage?: PodUsage | null;
         uptime: number;
       }>;
+      revisions?: RolloutRevision[];
+      events?: DeploymentEvent[];
+      usage?: DeploymentUsage;
+      metrics?: { available: boolean; reason: string | null };
       summary?: {
         total: number;
-        ready: number;
+        ready?: number;
+        current?: number | null;
+        commandId?: string;
         deployment: string;
         namespace: string;
       };
       output: string;
       ts: number;
     }
+  | {
+      id: string;
+      role: "logs";
+      deployment: string;
+      namespace: string;
+      logs: PodLogs;
+      ts: number;
+    }
   | {
       id: string;
       role: "dryrun";
@@ -109,6 +143,8 @@ export type ChatMessage =
         namespace?: string;
         action?: string;
         effect?: string;
+        dryRun?: MutationPreview | null;
+        dryRunError?: string | null;
       };
       simulation: {
         action?: string;
@@ -152,7 +188,7 @@ export type ChatAction =
       type: "SET_READ_RESPONSE";
       payload: {
         id: string;
-        subtype?: "STATUS" | "PODS";
+        subtype?: "STATUS" | "PODS" | "HISTORY" | "LOGS" | "EVENTS" | "TOP";
         data?: {
           query: string;
           suggestion?: string;
@@ -171,16 +207,33 @@ export type ChatAction =
           readyReplicas: number;
           totalPods: number;
           readyPods: number;
+          restarts?: number;
+          unhealthy?: Array<{ name: string; status: string }>;
         };
         pods?: Array<{
           name: string;
           status: string;
+          phase: string;
           ready: boolean;
+          readyContainers: number;
+          totalContainers: number;
+          containers: ContainerStatus[];
+          restarts: number;
+          node: string | null;
+          podIP: string | null;
+          revision: string | null;
+          usage?: PodUsage | null;
           uptime: number;
         }>;
+        revisions?: RolloutRevision[];
+        events?: DeploymentEvent[];
+        usage?: DeploymentUsage;
+        metrics?: { available: boolean; reason: string | null };
         summary?: {
           total: number;
-          ready: number;
+          ready?: number;
+          current?: number | null;
+          commandId?: string;
           deployment: string;
           namespace: string;
         };
@@ -188,6 +241,16 @@ export type ChatAction =
         ts: number;
       };
     }
+  | {
+      type: "SET_LOGS_RESPONSE";
+      payload: {
+        id: string;
+        deployment: string;
+        namespace: string;
+        logs: PodLogs;
+        ts: number;
+      };
+    }
   | {
       type: "SET_DRYRUN_RESPONSE";
       payload: {
@@ -201,6 +264,8 @@ export type ChatAction =
           namespace?: string;
           action?: string;
           effect?: string;
+          dryRun?: MutationPreview | null;
+          dryRunError?: string | null;
         };
         simulation: {
           action?: string;
@@ -221,6 +286,7 @@ export type ChatAction =
         executionId: string;
         action?: string;
         target?: string;
+        namespace?: string;
         intent?: "scale-up" | "scale-down" | "maintain";
         before?: {
           replicas: number;
@@ -258,6 +324,8 @@ export type ChatAction =
         commandId?: string;
         executionId?: string;
         proof?: unknown;
+        rollback?: RollbackRecord;
+        events?: DeploymentEvent[];
         ts: number;
       };
     }
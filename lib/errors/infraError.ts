@@ -24,4 +24,10 @@ export class NetworkError extends InfraError {
   constructor(message: string, executionId?: string, metadata?: Record<string, unknown>) {
     super(`Network error: ${message}`, executionId, metadata);
   }
-}
\ No newline at end of file
+}
+
+export class RolloutVerificationError extends InfraError {
+  constructor(message: string, executionId?: string, metadata?: Record<string, unknown>) {
+    super(`Rollout verification failed: ${message}`, executionId, metadata);
+  }
+}
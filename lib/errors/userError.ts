@@ -51,4 +51,43 @@ export class QuotaExceededError extends UserError {
   getHttpStatus(): number {
     return 429;
   }
-}
\ No newline at end of file
+}
+export class TargetNotAllowedError extends UserError {
+  constructor(target: string, executionId?: string, metadata?: Record<string, unknown>) {
+    super(`Target not allowed: ${target} is not a managed deployment`, executionId, metadata);
+  }
+
+  getHttpStatus(): number {
+    return 403;
+  }
+}
+
+export class NotFoundError extends UserError {
+  constructor(message: string, executionId?: string, metadata?: Record<string, unknown>) {
+    super(message, executionId, metadata);
+  }
+
+  getHttpStatus(): number {
+    return 404;
+  }
+}
+
+export class ConflictError extends UserError {
+  constructor(message: string, executionId?: string, metadata?: Record<string, unknown>) {
+    super(message, executionId, metadata);
+  }
+
+  getHttpStatus(): number {
+    return 409;
+  }
+}
+
+export class PolicyViolationError extends UserError {
+  constructor(denials: Array<{ rule: string; message: string }>, executionId?: string, metadata?: Record<string, unknown>) {
+    super(`Blocked by policy: ${denials.map(denial => `${denial.message} [${denial.rule}]`).join("; ")}`, executionId, metadata);
+  }
+
+  getHttpStatus(): number {
+    return 403;
+  }
+}
@@ -1,3 +1,8 @@
+import { describeQuotaWindow, getQuotaConfig } from "../auth/quota";
+import { getManagedDeployments } from "../k8s/registry";
+import { describePolicies } from "../policy/engine";
+import { checkPermission, describeRole } from "../users/roles";
+
 interface HelpSection {
   title: string;
   content: string[];
@@ -11,6 +16,9 @@ interface HelpResponse {
 
 export function generateHelpContent(userRole: string): HelpResponse {
   const isAdmin = userRole === "ADMIN";
+  const managed = getManagedDeployments();
+  const quota = getQuotaConfig();
+  const roleLimit = quota.limits[userRole];
   
   return {
     version: "1.0.0",
@@ -21,10 +29,19 @@ export function generateHelpContent(userRole: string): HelpResponse {
         content: [
           "• help - Show this help panel",
           "• status - Show current system status",
-          "• show pods - Display LoadLab pod information",
-          "• scale loadlab to N - Scale LoadLab to N replicas (1-5)",
-          "• restart loadlab - Restart LoadLab deployment",
-          "• dry run <command> - Simulate command without execution"
+          "• show pods [deployment] [in namespace] - Display pod information",
+          "• scale <deployment> [in namespace] to N - Scale a deployment to N replicas",
+          "• scale <deployment> up|down [by N] - Scale relative to the live replica count",
+          "• double|triple|halve <deployment> - Multiply the live replica count",
+          "• restart <deployment> [in namespace] - Restart a deployment",
+          "• history [deployment] - List rollout revisions with image and change-cause",
+          "• logs [deployment|pod] [--tail N] [--previous] - Show recent container logs",
+          "• events [deployment] | events for <commandId> - Kubernetes events timeline",
+          "• top [deployment] - Live CPU and memory per pod against requests and limits",
+          "• rollback <deployment> [to revision N] - Restore a previous revision",
+          "• dry run <command> - Simulate command without execution",
+          "• cancel <commandId> - Withdraw a command that is still queued",
+          ...(checkPermission(userRole, "queue:reprioritize") === null ? ["• reprioritize <commandId> to 1|2|3 - Move any queued command to another priority"] : [])
         ]
       },
       {
@@ -32,7 +49,16 @@ export function generateHelpContent(userRole: string): HelpResponse {
         content: [
           "status",
           "scale loadlab to 3",
+          "scale loadlab in demo to 2",
+          "scale loadlab up by 2",
+          "scale down one",
+          "double replicas",
           "restart loadlab", 
+          "history loadlab",
+          "logs loadlab --tail 50",
+          "events loadlab",
+          "top loadlab",
+          "rollback loadlab to revision 2",
           "dry run scale loadlab to 5",
           "show pods"
         ]
@@ -47,14 +73,25 @@ export function generateHelpContent(userRole: string): HelpResponse {
         ]
       },
       {
-        title: "Replica Limits",
+        title: "Managed Deployments & Replica Limits",
         content: [
-          "• Minimum replicas: 1",
-          "• Maximum replicas: 5", 
-          "• Invalid replica counts will be rejected",
+          ...managed.map(
+            (entry, index) =>
+              `• ${entry.deployment} in ${entry.namespace}: ${entry.minReplicas}-${entry.maxReplicas} replicas${index === 0 ? " (default)" : ""}`
+          ),
+          "• Commands without a deployment target the default",
+          "• Unlisted deployments are rejected",
           "• Current replica count shown in status"
         ]
       },
+      {
+        title: "Policies",
+        content: [
+          ...describePolicies(),
+          "• Checked on dry run, before queueing and again just before execution",
+          "• Dry runs list each rule's verdict"
+        ]
+      },
       {
         title: `Role-Based Behavior (You are: ${userRole})`,
         content: isAdmin ? [
@@ -62,12 +99,17 @@ export function generateHelpContent(userRole: string): HelpResponse {
           "• Unlimited command quota",
           "• Highest execution priority (queue position 1)",
           "• Access to all system endpoints",
+          "• Cancel or reprioritize anyone's queued command",
           "• Real-time execution tracking"
         ] : [
-          "👤 FREE user limits:",
-          "• 3 commands per session quota",
+          `👤 ${userRole} user limits:`,
+          ...(roleLimit !== undefined ? [
+            `• ${roleLimit} quota units per ${describeQuotaWindow(quota.window)} window`,
+            `• Costs: ${Object.entries(quota.costs).map(([action, cost]) => `${action} ${cost}`).join(", ")}`,
+            "• Execute commands rejected once the quota is used up",
+          ] : ["• No command quota"]),
           "• Standard execution priority (queue position varies)",
-          "• Commands queued when quota exceeded",
+          `• Permissions: ${describeRole(userRole)}`,
           "• Real-time execution tracking"
         ]
       },
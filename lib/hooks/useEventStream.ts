@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from 'react';
+import { EXECUTION_EVENT_TYPES, ExecutionEventType, ExecutionStreamEvent } from '@/lib/observability/executionEvents';
+
+interface EventStreamOptions {
+  enabled: boolean;
+  onEvent: (event: ExecutionStreamEvent) => void;
+  // Only these event types reach onEvent; every type when omitted.
+  types?: readonly ExecutionEventType[];
+  // Coalesces bursts: onEvent gets the latest event at most once per interval.
+  throttleMs?: number;
+}
+
+// Events that change the queue length, worker status or last result the dashboards show.
+export const STATUS_EVENT_TYPES: readonly ExecutionEventType[] = ['enqueued', 'executing', 'completed', 'failed', 'cancelled'];
+
+type StreamHandler = (event: ExecutionStreamEvent) => void;
+
+type StatusListener = (connected: boolean) => void;
+
+interface SharedStream {
+  source: EventSource;
+  connected: boolean;
+  handlers: Set<StreamHandler>;
+  statusListeners: Set<StatusListener>;
+}
+
+// One EventSource per page, opened by the first subscriber and closed by the last.
+let shared: SharedStream | null = null;
+
+
+function openStream(): SharedStream {
+  const stream: SharedStream = {
+    source: new EventSource('/api/events'),
+    connected: false,
+    handlers: new Set(),
+    statusListeners: new Set(),
+  };
+
+  const setConnected = (connected: boolean) => {
+    stream.connected = connected;
+    stream.statusListeners.forEach(listener => listener(connected));
+  };
+  stream.source.onopen = () => setConnected(true);
+  stream.source.onerror = () => setConnected(false);
+
+  const handleMessage = (message: MessageEvent<string>) => {
+    let event: ExecutionStreamEvent;
+    try {
+      event = JSON.parse(message.data);
+    } catch (error) {
+      console.warn('Event stream parse error:', error);
+      return;
+    }
+    stream.handlers.forEach(handler => handler(event));
+  };
+  EXECUTION_EVENT_TYPES.forEach(type => stream.source.addEventListener(type, handleMessage));
+
+  return stream;
+}
+
+
+function subscribe(handler: StreamHandler, onStatus: StatusListener): () => void {
+  if (!shared) {
+    shared = openStream();
+  }
+  const stream = shared;
+
+  stream.handlers.add(handler);
+  stream.statusListeners.add(onStatus);
+  if (stream.connected) {
+    onStatus(true);
+  }
+
+  return () => {
+    stream.handlers.delete(handler);
+    stream.statusListeners.delete(onStatus);
+    if (stream.handlers.size === 0) {
+      stream.source.close();
+      if (shared === stream) {
+        shared = null;
+      }
+    }
+  };
+}
+
+
+/**
+ * Subscribes to /api/events. Every hook on the page shares one connection.
+ * `connected` drops to false whenever the stream is down so callers can fall
+ * back to polling until EventSource reconnects.
+ */
+export function useEventStream({ enabled, onEvent, types, throttleMs }: EventStreamOptions) {
+  const [connected, setConnected] = useState(false);
+  const onEventRef = useRef(onEvent);
+  const typesRef = useRef(types);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+    typesRef.current = types;
+  }, [onEvent, types]);
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') {
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let latest: ExecutionStreamEvent | undefined;
+
+    const handleEvent = (event: ExecutionStreamEvent) => {
+      if (typesRef.current && !typesRef.current.includes(event.type)) {
+        return;
+      }
+      if (!throttleMs) {
+        onEventRef.current(event);
+        return;
+      }
+
+      latest = event;
+      if (timer === undefined) {
+        timer = setTimeout(() => {
+          timer = undefined;
+          if (latest) {
+            onEventRef.current(latest);
+          }
+        }, throttleMs);
+      }
+    };
+
+    const unsubscribe = subscribe(handleEvent, setConnected);
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+      setConnected(false);
+    };
+  }, [enabled, throttleMs]);
+
+  return { connected };
+}
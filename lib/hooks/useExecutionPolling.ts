@@ -1,12 +1,31 @@
-import { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
+import { useEventStream } from './useEventStream';
+import type { ExecutionStreamEvent } from '@/lib/observability/executionEvents';
+import type { RollbackRecord } from '@/lib/observability/executionStore';
+import type { DeploymentEvent } from '@/lib/k8s/events';
+
+type ExecutionTrackingState = 'queued' | 'executing' | 'completed' | 'failed';
+
+export interface ExecutionResult {
+  message?: string;
+  proof?: unknown;
+  rollback?: RollbackRecord;
+  events?: DeploymentEvent[];
+}
 
 interface ExecutionPollingOptions {
   commandId?: string;
   executionId?: string;
-  onStateChange: (state: 'queued' | 'executing' | 'completed' | 'failed', result?: { message?: string; proof?: unknown }) => void;
+  onStateChange: (state: ExecutionTrackingState, result?: ExecutionResult) => void;
   enabled: boolean;
 }
 
+/**
+ * Tracks one command. Lifecycle events arrive over the /api/events stream;
+ * /api/executions/:id is polled only while the stream is down, plus once per
+ * command to catch up on anything that happened before we subscribed and to
+ * fetch the final proof.
+ */
 export function useExecutionPolling({
   commandId,
   executionId,
@@ -16,87 +35,97 @@ export function useExecutionPolling({
   const intervalRef = useRef<NodeJS.Timeout | undefined>(undefined);
   const lastStateRef = useRef<string | undefined>(undefined);
 
-  useEffect(() => {
-    if (!enabled || !executionId) {
-      if (intervalRef.current !== undefined) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = undefined;
-      }
-      return;
+  const stopPolling = useCallback(() => {
+    if (intervalRef.current !== undefined) {
+      clearInterval(intervalRef.current);
+      intervalRef.current = undefined;
     }
+  }, []);
 
-    const pollExecution = async () => {
-      try {
-        const response = await fetch('/api/internal/status');
-        if (!response.ok) return;
-
-        const data = await response.json();
-        
-        if (data.system.currentCommand && 
-            (data.system.currentCommand.commandId === commandId || 
-             data.system.currentCommand.executionId === executionId)) {
-          if (lastStateRef.current !== 'executing') {
-            lastStateRef.current = 'executing';
-            onStateChange('executing');
-          }
-          return;
-        }
-
-        if (data.system.lastResult && 
-            (data.system.lastResult.commandId === commandId ||
-             data.system.lastResult.executionId === executionId)) {
-          
-          const newState = data.system.lastResult.status === 'success' ? 'completed' : 'failed';
-          if (lastStateRef.current !== newState) {
-            lastStateRef.current = newState;
-            
-            const proof = {
-              executionId: executionId,
-              timestamp: data.system.lastResult.timestamp,
-              workerStatus: data.system.workerStatus,
-              message: data.system.lastResult.message,
-              systemTimestamp: data.timestamp,
-            };
-            
-            onStateChange(newState, { 
-              ...data.system.lastResult,
-              proof 
-            });
-            
-            if (intervalRef.current !== undefined) {
-              clearInterval(intervalRef.current);
-              intervalRef.current = undefined;
-            }
-          }
-          return;
-        }
-
-        if (lastStateRef.current !== 'queued') {
-          lastStateRef.current = 'queued';
-          onStateChange('queued');
-        }
-
-      } catch (error) {
-        console.warn('Execution polling error:', error);
-      }
-    };
+  const reportState = useCallback((newState: ExecutionTrackingState, result?: ExecutionResult) => {
+    if (lastStateRef.current === newState) return;
+    lastStateRef.current = newState;
+    onStateChange(newState, result);
+  }, [onStateChange]);
+
+  const fetchExecution = useCallback(async () => {
+    const id = commandId ?? executionId;
+    if (!id) return;
 
-    intervalRef.current = setInterval(pollExecution, 2000);
-    
-    pollExecution();
+    try {
+      const response = await fetch(`/api/executions/${encodeURIComponent(id)}`);
+      if (!response.ok) return;
 
-    return () => {
-      if (intervalRef.current !== undefined) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = undefined;
+      const data = await response.json();
+      const execution = data.execution;
+      if (!execution) return;
+
+      if (execution.status === 'RUNNING') {
+        reportState('executing');
+        return;
       }
-    };
-  }, [enabled, executionId, commandId, onStateChange]);
 
-  return () => {
-    if (intervalRef.current !== undefined) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = undefined;
+      if (execution.status === 'SUCCESS' || execution.status === 'FAILED' || execution.status === 'INTERRUPTED' || execution.status === 'CANCELLED') {
+        const lastEvent = execution.events[execution.events.length - 1];
+        stopPolling();
+        reportState(execution.status === 'SUCCESS' ? 'completed' : 'failed', {
+          message: execution.error?.message ?? lastEvent?.message,
+          proof: execution.proof,
+          rollback: execution.rollback,
+          events: execution.kubernetesEvents,
+        });
+        return;
+      }
+
+      reportState('queued');
+    } catch (error) {
+      console.warn('Execution polling error:', error);
     }
-  };
-}
\ No newline at end of file
+  }, [commandId, executionId, reportState, stopPolling]);
+
+  const handleStreamEvent = useCallback((event: ExecutionStreamEvent) => {
+    if (!enabled || event.commandId !== commandId) return;
+
+    switch (event.type) {
+      case 'enqueued':
+      case 'queue_position':
+        reportState('queued');
+        break;
+      case 'executing':
+      case 'verification':
+        reportState('executing');
+        break;
+      case 'completed':
+      case 'failed':
+      case 'cancelled':
+        // The record carries the full proof and error details.
+        fetchExecution();
+        break;
+    }
+  }, [enabled, commandId, reportState, fetchExecution]);
+
+  const { connected } = useEventStream({ enabled: true, onEvent: handleStreamEvent });
+
+  useEffect(() => {
+    // Each tracked command starts fresh so a fast second command that
+    // finishes in the same state as the previous one is still reported.
+    lastStateRef.current = undefined;
+
+    if (enabled && executionId) {
+      fetchExecution();
+    }
+  }, [enabled, executionId, fetchExecution]);
+
+  useEffect(() => {
+    if (!enabled || !executionId || connected) {
+      stopPolling();
+      return;
+    }
+
+    intervalRef.current = setInterval(fetchExecution, 2000);
+
+    return stopPolling;
+  }, [enabled, executionId, connected, fetchExecution, stopPolling]);
+
+  return stopPolling;
+}
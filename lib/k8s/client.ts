@@ -1,38 +1,186 @@
 import * as k8s from "@kubernetes/client-node";
 import { KubernetesError } from "../errors/infraError";
 import { TimeoutError } from "../errors/systemError";
+import { NotFoundError } from "../errors/userError";
 import { StructuredLogger } from "../logging/structuredLogger";
+import { AuditOutcome, recordAudit } from "../audit/auditLog";
+import { replicaBoundsViolation } from "../policy/rules";
+import { DeploymentTarget } from "../scheduler/types";
+import { formatTarget, getManagedDeployment } from "./registry";
+import { DeploymentEvent, EventWindow, ObservedEvent, summarizeEvents } from "./events";
+import { ContainerSample, DeploymentUsage, sumFigures, sumSampled, toPodUsage } from "./resources";
+import { getSimulatorOptions, SimulatedCluster } from "./simulator";
+import { diffObjects, SpecChange } from "./specDiff";
+import { getPodLogLimits, PodLogRequest, PodLogs, resolveTailLines, toPodLogs } from "./podLogs";
 
 const EXECUTION_TIMEOUT_MS = 15000;
 
 
-const NAMESPACE = "demo";
+export interface K8sExecutor {
+  scaleDeployment(target: DeploymentTarget, replicas: number, executionId?: string, actor?: PatchActor): Promise<void>;
+  restartDeployment(target: DeploymentTarget, executionId?: string, actor?: PatchActor): Promise<void>;
+  getStatus(target: DeploymentTarget, executionId?: string): Promise<K8sStatus>;
+  getRolloutStatus(target: DeploymentTarget, executionId?: string): Promise<RolloutStatus>;
+  getDeploymentSnapshot(target: DeploymentTarget, executionId?: string): Promise<DeploymentSnapshot>;
+  restoreDeploymentSnapshot(target: DeploymentTarget, snapshot: DeploymentSnapshot, executionId?: string, actor?: PatchActor): Promise<void>;
+  getRolloutHistory(target: DeploymentTarget, executionId?: string): Promise<RolloutRevision[]>;
+  rollbackToRevision(target: DeploymentTarget, revision: number | undefined, executionId?: string, actor?: PatchActor): Promise<RolloutRevision>;
+  getPodLogs(target: DeploymentTarget, request: PodLogRequest, executionId?: string): Promise<PodLogs>;
+  getEvents(target: DeploymentTarget, window?: EventWindow, executionId?: string): Promise<DeploymentEvent[]>;
+  getPodUsage(target: DeploymentTarget, executionId?: string): Promise<DeploymentUsage>;
+  previewMutation(target: DeploymentTarget, mutation: DeploymentMutation, executionId?: string): Promise<MutationPreview>;
+}
 
-const DEPLOYMENT_NAME = "loadlab";
+// Who a mutation is made for; its k8s.patch audit entry names them.
+export interface PatchActor {
+  commandId?: string;
+  userId?: string;
+  tokenId?: string;
+}
 
-const MIN_REPLICAS = 1;
-const MAX_REPLICAS = 5;
+export interface K8sStatus {
+  replicas: number;
+  readyReplicas: number;
+  pods: PodStatus[];
+}
 
+export interface ContainerStatus {
+  name: string;
+  ready: boolean;
+  restartCount: number;
+  state: "running" | "waiting" | "terminated" | "unknown";
+  // Waiting/terminated reason of the current state, e.g. "CrashLoopBackOff".
+  reason: string | null;
+  // Why the previous instance ended, e.g. "OOMKilled".
+  lastTerminationReason: string | null;
+}
 
-export interface K8sExecutor {
-  scaleDeployment(replicas: number, executionId?: string): Promise<void>;
-  restartDeployment(executionId?: string): Promise<void>;
-  getStatus(executionId?: string): Promise<K8sStatus>;
+/**
+ * A pod as `kubectl get pods -o wide` would describe it. `status` is the
+ * single word shown in tables: a container reason when there is one,
+ * "Terminating" while being deleted, otherwise the phase.
+ */
+export interface PodStatus {
+  name: string;
+  startTime: string | null;
+  phase: string;
+  status: string;
+  ready: boolean;
+  readyContainers: number;
+  totalContainers: number;
+  containers: ContainerStatus[];
+  restarts: number;
+  reason: string | null;
+  node: string | null;
+  podIP: string | null;
+  revision: string | null;
+  terminating: boolean;
 }
 
-export interface K8sStatus {
+export interface RolloutPod {
+  name: string;
+  phase: string;
+  ready: boolean;
+  createdAt: string | null;
+  terminating: boolean;
+  // First waiting/terminated reason across containers, e.g. "CrashLoopBackOff".
+  reason: string | null;
+}
+
+/**
+ * The Deployment fields rollout verification converges on, plus the pods
+ * behind it so a stalled rollout can say why.
+ */
+export interface RolloutStatus {
+  generation: number;
+  observedGeneration: number;
+  desiredReplicas: number;
   replicas: number;
+  updatedReplicas: number;
   readyReplicas: number;
-  pods: Array<{
-    name: string;
-    startTime: string | null;
-  }>;
+  availableReplicas: number;
+  restartedAt: string | null;
+  pods: RolloutPod[];
+}
+
+/**
+ * What a compensating rollback puts back: the replica count and the exact
+ * pod template, captured before a mutation.
+ */
+export interface DeploymentSnapshot {
+  replicas: number;
+  revision: string | null;
+  template: Record<string, unknown>;
+  capturedAt: string;
+}
+
+/**
+ * One entry of `kubectl rollout history`: a ReplicaSet owned by the
+ * Deployment, identified by its revision number.
+ */
+export interface RolloutRevision {
+  revision: number;
+  replicaSet: string;
+  changeCause: string | null;
+  images: string[];
+  createdAt: string | null;
+  replicas: number;
+  current: boolean;
 }
 
+export type DeploymentMutation =
+  | { action: "SCALE"; replicas: number }
+  | { action: "RESTART" }
+  | { action: "ROLLBACK"; revision?: number };
+
+/**
+ * Why the API server refused a patch: schema validation ("Invalid"), an
+ * admission webhook or policy ("Forbidden"), a conflict, and so on.
+ */
+export interface DryRunRejection {
+  code: number | null;
+  reason: string;
+  message: string;
+  causes: Array<{ field: string | null; message: string }>;
+}
+
+/**
+ * The outcome of sending a mutation's patch with dryRun=All. `changes`
+ * compares the live Deployment with the object the API server would store.
+ */
+export interface MutationPreview {
+  accepted: boolean;
+  mode: "server" | "simulated";
+  changes: SpecChange[];
+  rejection: DryRunRejection | null;
+  // Revision a rollback would restore.
+  revision: number | null;
+}
+
+/**
+ * A patch body with the content type it must be sent as. Mutations and their
+ * dry runs are built from the same helpers so a preview sends the same bytes.
+ */
+export interface DeploymentPatch {
+  strategy: k8s.PatchStrategy;
+  body: object;
+}
+
+const CHANGE_CAUSE_ANNOTATION = "kubernetes.io/change-cause";
+
+// Added by the Deployment controller to every ReplicaSet; must not be copied
+// back into the Deployment template.
+const POD_TEMPLATE_HASH_LABEL = "pod-template-hash";
+
+const REVISION_ANNOTATION = "deployment.kubernetes.io/revision";
+
+const RESTARTED_AT_ANNOTATION = "kubectl.kubernetes.io/restartedAt";
+
 
 export class K8sClient implements K8sExecutor {
   private appsApi: k8s.AppsV1Api;
   private coreApi: k8s.CoreV1Api;
+  private metricsApi: k8s.Metrics;
 
   constructor() {
     const kc = new k8s.KubeConfig();
@@ -58,6 +206,7 @@ export class K8sClient implements K8sExecutor {
 
     this.appsApi = kc.makeApiClient(k8s.AppsV1Api);
     this.coreApi = kc.makeApiClient(k8s.CoreV1Api);
+    this.metricsApi = new k8s.Metrics(kc);
   }
 
   private async withTimeout<T>(
@@ -84,7 +233,10 @@ export class K8sClient implements K8sExecutor {
     });
   }
 
-  async scaleDeployment(replicas: number, executionId?: string): Promise<void> {
+  async scaleDeployment(target: DeploymentTarget, replicas: number, executionId?: string, actor?: PatchActor): Promise<void> {
+    const managed = getManagedDeployment(target, executionId);
+    const { deployment, namespace, minReplicas, maxReplicas } = managed;
+
     if (!Number.isInteger(replicas)) {
       throw new KubernetesError(
         `Invalid replica count: ${replicas}. Must be an integer.`,
@@ -93,52 +245,37 @@ export class K8sClient implements K8sExecutor {
       );
     }
 
-    if (replicas < MIN_REPLICAS || replicas > MAX_REPLICAS) {
+    const violation = replicaBoundsViolation(managed, replicas);
+    if (violation) {
       throw new KubernetesError(
-        `Invalid replica count: ${replicas}. Must be between ${MIN_REPLICAS} and ${MAX_REPLICAS}.`,
+        violation,
         executionId,
-        { requestedReplicas: replicas, minReplicas: MIN_REPLICAS, maxReplicas: MAX_REPLICAS }
+        { requestedReplicas: replicas, minReplicas, maxReplicas, deployment, namespace }
       );
     }
 
     await this.withTimeout(async () => {
       try {
-        // Use JSON Patch format (RFC 6902)
-        const patch = [
-          {
-            op: 'replace',
-            path: '/spec/replicas',
-            value: replicas
-          }
-        ];
-
-        await this.appsApi.patchNamespacedDeployment(
-          {
-            name: DEPLOYMENT_NAME,
-            namespace: NAMESPACE,
-            body: patch,
-            ...{ 'Content-Type': 'application/json-patch+json' }
-          }
-        );
+        await this.patchDeployment(deployment, namespace, scalePatch(replicas), executionId, actor);
         StructuredLogger.info(executionId || "system", "completed", "Scale operation succeeded", {
-          deployment: DEPLOYMENT_NAME,
-          namespace: NAMESPACE,
+          deployment,
+          namespace,
           replicas: replicas
         });
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
         StructuredLogger.error(executionId || "system", "failed", "K8s patch failed", {
           error: errorMsg,
-          deployment: DEPLOYMENT_NAME,
-          namespace: NAMESPACE,
+          deployment,
+          namespace,
           replicas: replicas
         });
         throw new KubernetesError(
-          `Failed to scale deployment ${DEPLOYMENT_NAME} to ${replicas} replicas.`,
+          `Failed to scale deployment ${deployment} to ${replicas} replicas.`,
           executionId,
           { 
-            deployment: DEPLOYMENT_NAME,
-            namespace: NAMESPACE,
+            deployment,
+            namespace,
             requestedReplicas: replicas,
             originalError: errorMsg
           }
@@ -147,33 +284,19 @@ export class K8sClient implements K8sExecutor {
     }, `scale-deployment-${replicas}`, executionId);
   }
 
-  async restartDeployment(executionId?: string): Promise<void> {
-    await this.withTimeout(async () => {
-      const patch = {
-        spec: {
-          template: {
-            metadata: {
-              annotations: {
-                "kubectl.kubernetes.io/restartedAt": new Date().toISOString(),
-              },
-            },
-          },
-        },
-      };
+  async restartDeployment(target: DeploymentTarget, executionId?: string, actor?: PatchActor): Promise<void> {
+    const { deployment, namespace } = getManagedDeployment(target, executionId);
 
+    await this.withTimeout(async () => {
       try {
-        await this.appsApi.patchNamespacedDeployment({
-          name: DEPLOYMENT_NAME,
-          namespace: NAMESPACE,
-          body: patch,
-        });
+        await this.patchDeployment(deployment, namespace, restartPatch(new Date().toISOString()), executionId, actor);
       } catch (error) {
         throw new KubernetesError(
-          `Failed to restart deployment ${DEPLOYMENT_NAME}.`,
+          `Failed to restart deployment ${deployment}.`,
           executionId,
           {
-            deployment: DEPLOYMENT_NAME,
-            namespace: NAMESPACE,
+            deployment,
+            namespace,
             originalError: error instanceof Error ? error.message : String(error)
           }
         );
@@ -181,28 +304,35 @@ export class K8sClient implements K8sExecutor {
     }, "restart-deployment", executionId);
   }
 
-  async getStatus(executionId?: string): Promise<K8sStatus> {
+  async getStatus(target: DeploymentTarget, executionId?: string): Promise<K8sStatus> {
+    const { deployment: deploymentName, namespace } = getManagedDeployment(target, executionId);
+
     return this.withTimeout(async () => {
       try {
         const deploymentResponse = await this.appsApi.readNamespacedDeployment({
-          name: DEPLOYMENT_NAME,
-          namespace: NAMESPACE,
+          name: deploymentName,
+          namespace,
         });
 
         const deployment = deploymentResponse;
         const replicas = deployment.spec?.replicas ?? 0;
         const readyReplicas = deployment.status?.readyReplicas ?? 0;
 
-        const labelSelector = `app=${DEPLOYMENT_NAME}`;
-        const podsResponse = await this.coreApi.listNamespacedPod({
-          namespace: NAMESPACE,
-          labelSelector: labelSelector,
-        });
+        const labelSelector = toLabelSelector(deployment.spec?.selector?.matchLabels ?? { app: deploymentName });
+        const [podsResponse, replicaSets] = await Promise.all([
+          this.coreApi.listNamespacedPod({ namespace, labelSelector }),
+          this.appsApi.listNamespacedReplicaSet({ namespace, labelSelector }),
+        ]);
 
-        const pods = podsResponse.items.map(pod => ({
-          name: pod.metadata?.name ?? "unknown",
-          startTime: pod.status?.startTime?.toISOString() ?? null,
-        }));
+        const revisions: Map<string, string> = new Map();
+        for (const replicaSet of replicaSets.items) {
+          const revision = replicaSet.metadata?.annotations?.[REVISION_ANNOTATION];
+          if (replicaSet.metadata?.name && revision) {
+            revisions.set(replicaSet.metadata.name, revision);
+          }
+        }
+
+        const pods = podsResponse.items.map(pod => toPodStatus(pod, revisions));
 
         return {
           replicas,
@@ -211,17 +341,776 @@ export class K8sClient implements K8sExecutor {
         };
       } catch (error) {
         throw new KubernetesError(
-          `Failed to get status for deployment ${DEPLOYMENT_NAME}.`,
+          `Failed to get status for deployment ${deploymentName}.`,
           executionId,
           {
-            deployment: DEPLOYMENT_NAME,
-            namespace: NAMESPACE,
+            deployment: deploymentName,
+            namespace,
             originalError: error instanceof Error ? error.message : String(error)
           }
         );
       }
     }, "get-status", executionId);
   }
+
+  async getRolloutStatus(target: DeploymentTarget, executionId?: string): Promise<RolloutStatus> {
+    const { deployment: deploymentName, namespace } = getManagedDeployment(target, executionId);
+
+    return this.withTimeout(async () => {
+      try {
+        const deployment = await this.appsApi.readNamespacedDeployment({
+          name: deploymentName,
+          namespace,
+        });
+
+        const podsResponse = await this.coreApi.listNamespacedPod({
+          namespace,
+          labelSelector: toLabelSelector(deployment.spec?.selector?.matchLabels ?? { app: deploymentName }),
+        });
+
+        return {
+          generation: deployment.metadata?.generation ?? 0,
+          observedGeneration: deployment.status?.observedGeneration ?? 0,
+          desiredReplicas: deployment.spec?.replicas ?? 0,
+          replicas: deployment.status?.replicas ?? 0,
+          updatedReplicas: deployment.status?.updatedReplicas ?? 0,
+          readyReplicas: deployment.status?.readyReplicas ?? 0,
+          availableReplicas: deployment.status?.availableReplicas ?? 0,
+          restartedAt: deployment.spec?.template?.metadata?.annotations?.[RESTARTED_AT_ANNOTATION] ?? null,
+          pods: podsResponse.items.map(toRolloutPod),
+        };
+      } catch (error) {
+        throw new KubernetesError(
+          `Failed to get rollout status for deployment ${deploymentName}.`,
+          executionId,
+          {
+            deployment: deploymentName,
+            namespace,
+            originalError: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }, "get-rollout-status", executionId);
+  }
+
+  async getDeploymentSnapshot(target: DeploymentTarget, executionId?: string): Promise<DeploymentSnapshot> {
+    const { deployment: deploymentName, namespace } = getManagedDeployment(target, executionId);
+
+    return this.withTimeout(async () => {
+      try {
+        const deployment = await this.appsApi.readNamespacedDeployment({
+          name: deploymentName,
+          namespace,
+        });
+
+        return {
+          replicas: deployment.spec?.replicas ?? 0,
+          revision: deployment.metadata?.annotations?.[REVISION_ANNOTATION] ?? null,
+          // Round-trip through JSON to drop the client's Date objects and get
+          // the wire format back for the restore patch.
+          template: JSON.parse(JSON.stringify(deployment.spec?.template ?? {})),
+          capturedAt: new Date().toISOString(),
+        };
+      } catch (error) {
+        throw new KubernetesError(
+          `Failed to snapshot deployment ${deploymentName}.`,
+          executionId,
+          {
+            deployment: deploymentName,
+            namespace,
+            originalError: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }, "snapshot-deployment", executionId);
+  }
+
+  async restoreDeploymentSnapshot(target: DeploymentTarget, snapshot: DeploymentSnapshot, executionId?: string, actor?: PatchActor): Promise<void> {
+    const { deployment, namespace } = getManagedDeployment(target, executionId);
+
+    await this.withTimeout(async () => {
+      try {
+        await this.patchDeployment(deployment, namespace, snapshotPatch(snapshot), executionId, actor);
+        StructuredLogger.info(executionId || "system", "completed", "Deployment snapshot restored", {
+          deployment,
+          namespace,
+          replicas: snapshot.replicas,
+          revision: snapshot.revision,
+        });
+      } catch (error) {
+        throw new KubernetesError(
+          `Failed to restore deployment ${deployment} to ${snapshot.replicas} replicas.`,
+          executionId,
+          {
+            deployment,
+            namespace,
+            replicas: snapshot.replicas,
+            revision: snapshot.revision,
+            originalError: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }, "restore-deployment", executionId);
+  }
+
+  async getRolloutHistory(target: DeploymentTarget, executionId?: string): Promise<RolloutRevision[]> {
+    const { deployment: deploymentName, namespace } = getManagedDeployment(target, executionId);
+
+    return this.withTimeout(async () => {
+      try {
+        const { revisions } = await this.readRevisions(deploymentName, namespace);
+        return revisions;
+      } catch (error) {
+        throw new KubernetesError(
+          `Failed to read rollout history for deployment ${deploymentName}.`,
+          executionId,
+          {
+            deployment: deploymentName,
+            namespace,
+            originalError: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }, "get-rollout-history", executionId);
+  }
+
+  /**
+   * Copies the pod template of the chosen revision back into the Deployment,
+   * as `kubectl rollout undo --to-revision` does. Without a revision it goes
+   * back to the one before the current. Returns the revision rolled back to.
+   */
+  async rollbackToRevision(target: DeploymentTarget, revision: number | undefined, executionId?: string, actor?: PatchActor): Promise<RolloutRevision> {
+    const { deployment: deploymentName, namespace } = getManagedDeployment(target, executionId);
+
+    return this.withTimeout(async () => {
+      const { chosen, template } = await this.resolveRollback(deploymentName, namespace, revision, executionId);
+
+      try {
+        await this.patchDeployment(deploymentName, namespace, templatePatch(template), executionId, actor);
+        StructuredLogger.info(executionId || "system", "completed", "Rollback to revision applied", {
+          deployment: deploymentName,
+          namespace,
+          revision: chosen.revision,
+          images: chosen.images,
+        });
+      } catch (error) {
+        throw new KubernetesError(
+          `Failed to roll back deployment ${deploymentName} to revision ${chosen.revision}.`,
+          executionId,
+          {
+            deployment: deploymentName,
+            namespace,
+            revision: chosen.revision,
+            originalError: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+
+      return chosen;
+    }, "rollback-deployment", executionId);
+  }
+
+  /**
+   * Reads one container's log from a pod of the Deployment. Pods are looked
+   * up through the Deployment's selector, so only managed pods are readable.
+   */
+  async getPodLogs(target: DeploymentTarget, request: PodLogRequest, executionId?: string): Promise<PodLogs> {
+    const { deployment: deploymentName, namespace } = getManagedDeployment(target, executionId);
+    const limits = getPodLogLimits();
+    const tailLines = resolveTailLines(request.tailLines, limits);
+
+    return this.withTimeout(async () => {
+      let pod: k8s.V1Pod | undefined;
+      try {
+        const deployment = await this.appsApi.readNamespacedDeployment({ name: deploymentName, namespace });
+        const pods = await this.coreApi.listNamespacedPod({
+          namespace,
+          labelSelector: toLabelSelector(deployment.spec?.selector?.matchLabels ?? { app: deploymentName }),
+        });
+        pod = request.pod
+          ? pods.items.find(item => item.metadata?.name === request.pod)
+          : newestPod(pods.items);
+      } catch (error) {
+        throw new KubernetesError(
+          `Failed to list pods for deployment ${deploymentName}.`,
+          executionId,
+          {
+            deployment: deploymentName,
+            namespace,
+            originalError: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+
+      if (!pod?.metadata?.name) {
+        throw new NotFoundError(
+          request.pod
+            ? `Pod ${request.pod} not found in ${namespace}/${deploymentName}`
+            : `Deployment ${namespace}/${deploymentName} has no pods`,
+          executionId,
+          { deployment: deploymentName, namespace, pod: request.pod }
+        );
+      }
+
+      const podName = pod.metadata.name;
+      const containers = (pod.spec?.containers ?? []).map(container => container.name);
+      const container = containers[0];
+
+      try {
+        const raw = await this.coreApi.readNamespacedPodLog({
+          name: podName,
+          namespace,
+          container,
+          tailLines,
+          previous: request.previous ?? false,
+          limitBytes: limits.maxBytes,
+        });
+
+        return toPodLogs(raw ?? "", { pod: podName, container, containers, previous: request.previous ?? false, tailLines }, limits);
+      } catch (error) {
+        throw new KubernetesError(
+          `Failed to read ${request.previous ? "previous " : ""}logs for pod ${podName}.`,
+          executionId,
+          {
+            deployment: deploymentName,
+            namespace,
+            pod: podName,
+            container,
+            originalError: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }, "get-pod-logs", executionId);
+  }
+
+  /**
+   * Events for the Deployment, its ReplicaSets and their pods, including
+   * pods that have since been deleted (matched by ReplicaSet name prefix).
+   */
+  async getEvents(target: DeploymentTarget, window: EventWindow = {}, executionId?: string): Promise<DeploymentEvent[]> {
+    const { deployment: deploymentName, namespace } = getManagedDeployment(target, executionId);
+
+    return this.withTimeout(async () => {
+      try {
+        const deployment = await this.appsApi.readNamespacedDeployment({ name: deploymentName, namespace });
+        const replicaSets = await this.appsApi.listNamespacedReplicaSet({
+          namespace,
+          labelSelector: toLabelSelector(deployment.spec?.selector?.matchLabels ?? { app: deploymentName }),
+        });
+        const replicaSetNames = replicaSets.items
+          .filter(replicaSet => replicaSet.metadata?.ownerReferences?.some(owner => owner.uid === deployment.metadata?.uid))
+          .map(replicaSet => replicaSet.metadata?.name ?? "");
+
+        const events = await this.coreApi.listNamespacedEvent({ namespace });
+
+        const observed = events.items
+          .filter(event => {
+            const { kind, name = "" } = event.involvedObject;
+            return (
+              (kind === "Deployment" && name === deploymentName) ||
+              (kind === "ReplicaSet" && replicaSetNames.includes(name)) ||
+              (kind === "Pod" && replicaSetNames.some(replicaSet => name.startsWith(`${replicaSet}-`)))
+            );
+          })
+          .map(toObservedEvent);
+
+        return summarizeEvents(observed, window);
+      } catch (error) {
+        throw new KubernetesError(
+          `Failed to list events for deployment ${deploymentName}.`,
+          executionId,
+          {
+            deployment: deploymentName,
+            namespace,
+            originalError: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }, "get-events", executionId);
+  }
+
+  /**
+   * CPU and memory per pod from metrics.k8s.io next to the pods' requests and
+   * limits. A missing or failing metrics API is reported in the result, not
+   * thrown, since metrics-server is an optional add-on.
+   */
+  async getPodUsage(target: DeploymentTarget, executionId?: string): Promise<DeploymentUsage> {
+    const { deployment: deploymentName, namespace } = getManagedDeployment(target, executionId);
+
+    return this.withTimeout(async () => {
+      let pods: k8s.V1Pod[];
+      try {
+        const deployment = await this.appsApi.readNamespacedDeployment({ name: deploymentName, namespace });
+        const podsResponse = await this.coreApi.listNamespacedPod({
+          namespace,
+          labelSelector: toLabelSelector(deployment.spec?.selector?.matchLabels ?? { app: deploymentName }),
+        });
+        pods = podsResponse.items.filter(pod => !pod.metadata?.deletionTimestamp);
+      } catch (error) {
+        throw new KubernetesError(
+          `Failed to list pods for deployment ${deploymentName}.`,
+          executionId,
+          {
+            deployment: deploymentName,
+            namespace,
+            originalError: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+
+      let samples: Map<string, ContainerSample[]> | null = null;
+      let reason: string | null = null;
+      let sampledAt: string | null = null;
+      let window: string | null = null;
+      try {
+        const metrics = await this.metricsApi.getPodMetrics(namespace);
+        samples = new Map(metrics.items.map(item => [item.metadata.name, item.containers]));
+        sampledAt = metrics.items[0]?.timestamp ?? null;
+        window = metrics.items[0]?.window ?? null;
+      } catch (error) {
+        const code = error instanceof k8s.ApiException ? error.code : null;
+        reason = code === 404 || code === 503
+          ? "Metrics API (metrics.k8s.io) is not installed or not ready in this cluster"
+          : `Metrics API request failed: ${error instanceof Error ? error.message : String(error)}`;
+        StructuredLogger.warn(executionId || "system", "system", "Pod metrics unavailable", {
+          deployment: deploymentName,
+          namespace,
+          reason,
+        });
+      }
+
+      const podUsage = pods.map(pod =>
+        toPodUsage(
+          pod.metadata?.name ?? "unknown",
+          (pod.spec?.containers ?? []).map(container => ({
+            name: container.name,
+            requests: container.resources?.requests,
+            limits: container.resources?.limits,
+          })),
+          samples ? samples.get(pod.metadata?.name ?? "") ?? null : null
+        )
+      );
+
+      const cpu = sumFigures(podUsage.map(pod => pod.cpu));
+      const memory = sumFigures(podUsage.map(pod => pod.memory));
+      cpu.usage = sumSampled(podUsage.map(pod => pod.cpu.usage));
+      memory.usage = sumSampled(podUsage.map(pod => pod.memory.usage));
+
+      return {
+        available: samples !== null,
+        reason,
+        sampledAt,
+        window,
+        pods: podUsage,
+        totals: { cpu, memory },
+      };
+    }, "get-pod-usage", executionId);
+  }
+
+  /**
+   * Sends the patch the matching mutation would send, with dryRun=All, so
+   * validation and admission run without anything being persisted. A 4xx
+   * answer is a rejection to show the user; anything else is thrown.
+   */
+  async previewMutation(target: DeploymentTarget, mutation: DeploymentMutation, executionId?: string): Promise<MutationPreview> {
+    const { deployment: deploymentName, namespace } = getManagedDeployment(target, executionId);
+
+    return this.withTimeout(async () => {
+      let patch: DeploymentPatch;
+      let revision: number | null = null;
+      if (mutation.action === "ROLLBACK") {
+        const { chosen, template } = await this.resolveRollback(deploymentName, namespace, mutation.revision, executionId);
+        patch = templatePatch(template);
+        revision = chosen.revision;
+      } else {
+        patch = mutation.action === "SCALE" ? scalePatch(mutation.replicas) : restartPatch(new Date().toISOString());
+      }
+
+      let live: k8s.V1Deployment;
+      try {
+        live = await this.appsApi.readNamespacedDeployment({ name: deploymentName, namespace });
+      } catch (error) {
+        throw new KubernetesError(
+          `Failed to read deployment ${deploymentName}.`,
+          executionId,
+          {
+            deployment: deploymentName,
+            namespace,
+            originalError: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+
+      try {
+        const result = await this.patchDeployment(deploymentName, namespace, patch, executionId, {}, true);
+        return {
+          accepted: true,
+          mode: "server",
+          changes: diffObjects(toDiffable(live), toDiffable(result)),
+          rejection: null,
+          revision,
+        };
+      } catch (error) {
+        const rejection = toDryRunRejection(error);
+        if (!rejection) {
+          throw new KubernetesError(
+            `Failed to dry-run ${mutation.action.toLowerCase()} for deployment ${deploymentName}.`,
+            executionId,
+            {
+              deployment: deploymentName,
+              namespace,
+              originalError: error instanceof Error ? error.message : String(error)
+            }
+          );
+        }
+
+        StructuredLogger.info(executionId || "system", "system", "Dry run rejected by API server", {
+          deployment: deploymentName,
+          namespace,
+          action: mutation.action,
+          code: rejection.code,
+          reason: rejection.reason,
+        });
+        return { accepted: false, mode: "server", changes: [], rejection, revision };
+      }
+    }, "preview-mutation", executionId);
+  }
+
+  // Every patch that is not a dry run goes into the audit trail as sent.
+  private async patchDeployment(
+    name: string,
+    namespace: string,
+    patch: DeploymentPatch,
+    executionId?: string,
+    actor: PatchActor = {},
+    dryRun: boolean = false
+  ): Promise<k8s.V1Deployment> {
+    const request = this.appsApi.patchNamespacedDeployment(
+      { name, namespace, body: patch.body, ...(dryRun ? { dryRun: "All" } : {}) },
+      k8s.setHeaderOptions("Content-Type", patch.strategy)
+    );
+    if (dryRun) {
+      return request;
+    }
+
+    try {
+      const result = await request;
+      auditPatch({ deployment: name, namespace }, patch, "succeeded", executionId, actor);
+      return result;
+    } catch (error) {
+      auditPatch({ deployment: name, namespace }, patch, "failed", executionId, actor, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * The revision a rollback would restore and its pod template, or a
+   * KubernetesError naming the revisions that do exist.
+   */
+  private async resolveRollback(
+    deploymentName: string,
+    namespace: string,
+    revision: number | undefined,
+    executionId?: string
+  ): Promise<{ chosen: RolloutRevision; template: Record<string, unknown> }> {
+    let history: { revisions: RolloutRevision[]; templates: Map<string, Record<string, unknown>> };
+    try {
+      history = await this.readRevisions(deploymentName, namespace);
+    } catch (error) {
+      throw new KubernetesError(
+        `Failed to read rollout history for deployment ${deploymentName}.`,
+        executionId,
+        {
+          deployment: deploymentName,
+          namespace,
+          originalError: error instanceof Error ? error.message : String(error)
+        }
+      );
+    }
+
+    const chosen = selectRevision(history.revisions, revision);
+    if (!chosen) {
+      throw new KubernetesError(
+        revision === undefined
+          ? `Deployment ${deploymentName} has no earlier revision to roll back to.`
+          : `Revision ${revision} not found for deployment ${deploymentName}.`,
+        executionId,
+        {
+          deployment: deploymentName,
+          namespace,
+          requestedRevision: revision,
+          availableRevisions: history.revisions.map(entry => entry.revision),
+        }
+      );
+    }
+
+    return { chosen, template: history.templates.get(chosen.replicaSet) ?? {} };
+  }
+
+  /**
+   * Lists the Deployment's ReplicaSets newest revision first, keeping each
+   * one's pod template (keyed by ReplicaSet name) ready to be patched back.
+   */
+  private async readRevisions(
+    deploymentName: string,
+    namespace: string
+  ): Promise<{ revisions: RolloutRevision[]; templates: Map<string, Record<string, unknown>> }> {
+    const deployment = await this.appsApi.readNamespacedDeployment({ name: deploymentName, namespace });
+    const replicaSets = await this.appsApi.listNamespacedReplicaSet({
+      namespace,
+      labelSelector: toLabelSelector(deployment.spec?.selector?.matchLabels ?? { app: deploymentName }),
+    });
+    const currentRevision = deployment.metadata?.annotations?.[REVISION_ANNOTATION];
+    const templates: Map<string, Record<string, unknown>> = new Map();
+
+    const revisions = replicaSets.items
+      .filter(replicaSet => replicaSet.metadata?.ownerReferences?.some(owner => owner.uid === deployment.metadata?.uid))
+      .map(replicaSet => {
+        const name = replicaSet.metadata?.name ?? "unknown";
+        const revision = replicaSet.metadata?.annotations?.[REVISION_ANNOTATION];
+        templates.set(name, toDeploymentTemplate(replicaSet));
+
+        return {
+          revision: Number(revision ?? 0),
+          replicaSet: name,
+          changeCause: replicaSet.metadata?.annotations?.[CHANGE_CAUSE_ANNOTATION] ?? null,
+          images: (replicaSet.spec?.template?.spec?.containers ?? []).map(container => container.image ?? "unknown"),
+          createdAt: replicaSet.metadata?.creationTimestamp?.toISOString() ?? null,
+          replicas: replicaSet.status?.replicas ?? 0,
+          current: revision !== undefined && revision === currentRevision,
+        };
+      })
+      .sort((a, b) => b.revision - a.revision);
+
+    return { revisions, templates };
+  }
+}
+
+
+export function auditPatch(
+  target: DeploymentTarget,
+  patch: DeploymentPatch,
+  outcome: AuditOutcome,
+  executionId?: string,
+  actor: PatchActor = {},
+  data: Record<string, unknown> = {}
+): void {
+  recordAudit({
+    type: "k8s.patch",
+    executionId: executionId || "system",
+    commandId: actor.commandId,
+    userId: actor.userId,
+    tokenId: actor.tokenId,
+    target: formatTarget(target),
+    outcome,
+    data: { contentType: patch.strategy, body: patch.body, ...data },
+  });
+}
+
+
+export function scalePatch(replicas: number): DeploymentPatch {
+  return {
+    strategy: k8s.PatchStrategy.JsonPatch,
+    body: [{ op: "replace", path: "/spec/replicas", value: replicas }],
+  };
+}
+
+
+// A merge patch, because the template may not have an annotations map yet.
+export function restartPatch(restartedAt: string): DeploymentPatch {
+  return {
+    strategy: k8s.PatchStrategy.MergePatch,
+    body: { spec: { template: { metadata: { annotations: { [RESTARTED_AT_ANNOTATION]: restartedAt } } } } },
+  };
+}
+
+
+export function templatePatch(template: Record<string, unknown>): DeploymentPatch {
+  return {
+    strategy: k8s.PatchStrategy.JsonPatch,
+    body: [{ op: "replace", path: "/spec/template", value: template }],
+  };
+}
+
+
+export function snapshotPatch(snapshot: DeploymentSnapshot): DeploymentPatch {
+  return {
+    strategy: k8s.PatchStrategy.JsonPatch,
+    body: [
+      { op: "replace", path: "/spec/template", value: snapshot.template },
+      { op: "replace", path: "/spec/replicas", value: snapshot.replicas },
+    ],
+  };
+}
+
+
+// Only what a patch can change; status and server-managed metadata are noise.
+function toDiffable(deployment: k8s.V1Deployment): unknown {
+  return JSON.parse(JSON.stringify({
+    metadata: { labels: deployment.metadata?.labels, annotations: deployment.metadata?.annotations },
+    spec: deployment.spec,
+  }));
+}
+
+
+function toDryRunRejection(error: unknown): DryRunRejection | null {
+  if (!(error instanceof k8s.ApiException) || error.code < 400 || error.code >= 500) {
+    return null;
+  }
+
+  let status: k8s.V1Status | null = null;
+  try {
+    status = typeof error.body === "string" ? JSON.parse(error.body) : error.body;
+  } catch {
+    status = null;
+  }
+
+  return {
+    code: error.code,
+    reason: status?.reason ?? "Rejected",
+    message: status?.message ?? error.message,
+    causes: (status?.details?.causes ?? []).map(cause => ({
+      field: cause.field ?? null,
+      message: cause.message ?? cause.reason ?? "",
+    })),
+  };
+}
+
+
+function toLabelSelector(matchLabels: Record<string, string>): string {
+  return Object.entries(matchLabels)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(",");
+}
+
+
+function toRolloutPod(pod: k8s.V1Pod): RolloutPod {
+  return {
+    name: pod.metadata?.name ?? "unknown",
+    phase: pod.status?.phase ?? "Unknown",
+    ready: isPodReady(pod),
+    createdAt: pod.metadata?.creationTimestamp?.toISOString() ?? null,
+    terminating: Boolean(pod.metadata?.deletionTimestamp),
+    reason: podReason(pod),
+  };
+}
+
+
+function toPodStatus(pod: k8s.V1Pod, revisions: Map<string, string>): PodStatus {
+  const containers = (pod.status?.containerStatuses ?? []).map(toContainerStatus);
+  const phase = pod.status?.phase ?? "Unknown";
+  const terminating = Boolean(pod.metadata?.deletionTimestamp);
+  const reason = podReason(pod);
+  const owner = pod.metadata?.ownerReferences?.find(reference => reference.kind === "ReplicaSet");
+
+  return {
+    name: pod.metadata?.name ?? "unknown",
+    startTime: pod.status?.startTime?.toISOString() ?? null,
+    phase,
+    status: terminating ? "Terminating" : reason ?? phase,
+    ready: isPodReady(pod),
+    readyContainers: containers.filter(container => container.ready).length,
+    totalContainers: pod.spec?.containers.length ?? containers.length,
+    containers,
+    restarts: containers.reduce((total, container) => total + container.restartCount, 0),
+    reason,
+    node: pod.spec?.nodeName ?? null,
+    podIP: pod.status?.podIP ?? null,
+    revision: owner ? revisions.get(owner.name) ?? null : null,
+    terminating,
+  };
+}
+
+
+function toContainerStatus(container: k8s.V1ContainerStatus): ContainerStatus {
+  const state = container.state?.running
+    ? "running"
+    : container.state?.waiting
+      ? "waiting"
+      : container.state?.terminated
+        ? "terminated"
+        : "unknown";
+
+  return {
+    name: container.name,
+    ready: container.ready,
+    restartCount: container.restartCount,
+    state,
+    reason: container.state?.waiting?.reason ?? container.state?.terminated?.reason ?? null,
+    lastTerminationReason: container.lastState?.terminated?.reason ?? null,
+  };
+}
+
+
+function isPodReady(pod: k8s.V1Pod): boolean {
+  return pod.status?.conditions?.some(condition => condition.type === "Ready" && condition.status === "True") ?? false;
+}
+
+
+// First waiting/terminated reason, init containers first and prefixed the way
+// kubectl shows them, e.g. "Init:CrashLoopBackOff".
+function podReason(pod: k8s.V1Pod): string | null {
+  const stateReason = (container: k8s.V1ContainerStatus) =>
+    container.state?.waiting?.reason ?? container.state?.terminated?.reason;
+
+  const initReason = (pod.status?.initContainerStatuses ?? [])
+    .filter(container => container.state?.terminated?.reason !== "Completed")
+    .map(stateReason)
+    .find(Boolean);
+  if (initReason) {
+    return `Init:${initReason}`;
+  }
+
+  return (pod.status?.containerStatuses ?? []).map(stateReason).find(Boolean) ?? pod.status?.reason ?? null;
+}
+
+
+/**
+ * The requested revision, or the newest one older than the current when none
+ * is given. `revisions` is sorted newest first.
+ */
+export function selectRevision(revisions: RolloutRevision[], revision?: number): RolloutRevision | undefined {
+  if (revision !== undefined) {
+    return revisions.find(entry => entry.revision === revision);
+  }
+  const current = revisions.find(entry => entry.current);
+  return revisions.find(entry => !entry.current && (!current || entry.revision < current.revision));
+}
+
+
+function toObservedEvent(event: k8s.CoreV1Event): ObservedEvent {
+  const lastSeen = event.series?.lastObservedTime ?? event.lastTimestamp ?? event.eventTime ?? event.metadata?.creationTimestamp;
+  const firstSeen = event.firstTimestamp ?? event.eventTime ?? lastSeen;
+
+  return {
+    type: event.type ?? "Normal",
+    reason: event.reason ?? "Unknown",
+    message: event.message ?? "",
+    kind: event.involvedObject.kind ?? "Unknown",
+    name: event.involvedObject.name ?? "unknown",
+    count: event.series?.count ?? event.count ?? 1,
+    firstSeen: firstSeen?.toISOString() ?? null,
+    lastSeen: lastSeen?.toISOString() ?? null,
+  };
+}
+
+
+// A fresh pod is usually the one a failed restart left crash-looping.
+function newestPod(pods: k8s.V1Pod[]): k8s.V1Pod | undefined {
+  return pods
+    .filter(pod => !pod.metadata?.deletionTimestamp)
+    .sort((a, b) => (b.metadata?.creationTimestamp?.getTime() ?? 0) - (a.metadata?.creationTimestamp?.getTime() ?? 0))[0];
+}
+
+
+function toDeploymentTemplate(replicaSet: k8s.V1ReplicaSet): Record<string, unknown> {
+  const template = JSON.parse(JSON.stringify(replicaSet.spec?.template ?? {}));
+  if (template.metadata?.labels) {
+    delete template.metadata.labels[POD_TEMPLATE_HASH_LABEL];
+  }
+  return template;
 }
 
 
@@ -229,9 +1118,29 @@ let executor: K8sExecutor | null = null;
 
 export function getK8sExecutor(): K8sExecutor {
   if (!executor) {
-    executor = new K8sClient();
+    executor = createK8sExecutor();
   }
   return executor;
 }
 
 
+/**
+ * K8S_EXECUTOR selects the backend: "cluster" (default) talks to the API
+ * server, "simulator" runs an in-memory cluster that needs no kubeconfig.
+ */
+export function createK8sExecutor(): K8sExecutor {
+  const kind = process.env.K8S_EXECUTOR ?? "cluster";
+
+  if (kind === "simulator") {
+    StructuredLogger.warn("system", "system", "Using the in-memory Kubernetes simulator - no cluster will be changed");
+    return new SimulatedCluster(getSimulatorOptions());
+  }
+
+  if (kind !== "cluster") {
+    StructuredLogger.warn("system", "system", `Unknown K8S_EXECUTOR "${kind}" - using the cluster`);
+  }
+
+  return new K8sClient();
+}
+
+
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "bun:test";
+import { ObservedEvent, summarizeEvents } from "./events";
+
+
+function event(reason: string, name: string, firstSeen: string, lastSeen: string, overrides: Partial<ObservedEvent> = {}): ObservedEvent {
+  return {
+    type: "Normal",
+    reason,
+    message: `${reason} ${name}`,
+    kind: "Pod",
+    name,
+    count: 1,
+    firstSeen: `2026-10-01T${firstSeen}Z`,
+    lastSeen: `2026-10-01T${lastSeen}Z`,
+    ...overrides,
+  };
+}
+
+
+function at(time: string): number {
+  return Date.parse(`2026-10-01T${time}Z`);
+}
+
+
+describe("summarizeEvents", () => {
+  it("folds events with the same type and reason, oldest first", () => {
+    const timeline = summarizeEvents([
+      event("BackOff", "web-2", "12:03:00", "12:05:00", { type: "Warning", count: 4 }),
+      event("Scheduled", "web-1", "12:00:00", "12:00:00"),
+      event("BackOff", "web-1", "12:02:00", "12:04:00", { type: "Warning", count: 3 }),
+    ]);
+
+    expect(timeline).toEqual([
+      {
+        type: "Normal",
+        reason: "Scheduled",
+        message: "Scheduled web-1",
+        objects: ["Pod/web-1"],
+        count: 1,
+        firstSeen: "2026-10-01T12:00:00Z",
+        lastSeen: "2026-10-01T12:00:00Z",
+      },
+      {
+        type: "Warning",
+        reason: "BackOff",
+        message: "BackOff web-2",
+        objects: ["Pod/web-1", "Pod/web-2"],
+        count: 7,
+        firstSeen: "2026-10-01T12:02:00Z",
+        lastSeen: "2026-10-01T12:05:00Z",
+      },
+    ]);
+  });
+
+
+  it("keeps only events that overlap the window", () => {
+    const observed = [
+      event("Before", "web-1", "11:00:00", "11:30:00"),
+      event("Spanning", "web-1", "11:50:00", "12:10:00"),
+      event("Inside", "web-1", "12:05:00", "12:06:00"),
+      event("After", "web-1", "12:30:00", "12:31:00"),
+    ];
+
+    // Ordered by when each was last seen.
+    const reasons = summarizeEvents(observed, { since: at("12:00:00"), until: at("12:20:00") }).map(entry => entry.reason);
+    expect(reasons).toEqual(["Inside", "Spanning"]);
+
+    // A still-running command has no upper bound.
+    expect(summarizeEvents(observed, { since: at("12:00:00") }).map(entry => entry.reason)).toEqual(["Inside", "Spanning", "After"]);
+  });
+
+
+  it("caps the objects listed per entry and the number of entries", () => {
+    const crashes = Array.from({ length: 8 }, (_, index) => event("BackOff", `web-${index}`, "12:00:00", "12:00:00"));
+    const [entry] = summarizeEvents(crashes);
+    expect(entry.count).toBe(8);
+    expect(entry.objects).toHaveLength(5);
+
+    const distinct = Array.from({ length: 60 }, (_, index) =>
+      event(`Reason${index}`, "web-1", "12:00:00", `12:${String(index).padStart(2, "0")}:00`)
+    );
+    const timeline = summarizeEvents(distinct);
+    expect(timeline).toHaveLength(50);
+    expect(timeline[0].reason).toBe("Reason10");
+    expect(timeline[49].reason).toBe("Reason59");
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * A Kubernetes Event as read from the API, reduced to what the timeline
+ * needs. `kind`/`name` identify the Deployment, ReplicaSet or Pod involved.
+ */
+export interface ObservedEvent {
+  type: string;
+  reason: string;
+  message: string;
+  kind: string;
+  name: string;
+  count: number;
+  firstSeen: string | null;
+  lastSeen: string | null;
+}
+
+/**
+ * One timeline entry: every event sharing a type and reason, folded together
+ * so a crash-looping pod shows up once with a count instead of fifty times.
+ */
+export interface DeploymentEvent {
+  type: string;
+  reason: string;
+  message: string;
+  objects: string[];
+  count: number;
+  firstSeen: string | null;
+  lastSeen: string | null;
+}
+
+/**
+ * Epoch-millisecond bounds; events overlapping the window are kept.
+ */
+export interface EventWindow {
+  since?: number;
+  until?: number;
+}
+
+const MAX_TIMELINE_ENTRIES = 50;
+
+const MAX_OBJECTS_PER_ENTRY = 5;
+
+
+export function summarizeEvents(observed: ObservedEvent[], window: EventWindow = {}): DeploymentEvent[] {
+  const grouped: Map<string, DeploymentEvent> = new Map();
+
+  const inWindow = observed
+    .filter(event => overlaps(event, window))
+    .sort((a, b) => timeOf(a.lastSeen) - timeOf(b.lastSeen));
+
+  for (const event of inWindow) {
+    const key = `${event.type}:${event.reason}`;
+    const object = `${event.kind}/${event.name}`;
+    const entry = grouped.get(key);
+
+    if (!entry) {
+      grouped.set(key, {
+        type: event.type,
+        reason: event.reason,
+        message: event.message,
+        objects: [object],
+        count: event.count,
+        firstSeen: event.firstSeen,
+        lastSeen: event.lastSeen,
+      });
+      continue;
+    }
+
+    // Events arrive oldest first, so the latest message wins.
+    entry.message = event.message;
+    entry.count += event.count;
+    entry.lastSeen = event.lastSeen ?? entry.lastSeen;
+    if (timeOf(event.firstSeen) < timeOf(entry.firstSeen)) {
+      entry.firstSeen = event.firstSeen;
+    }
+    if (!entry.objects.includes(object) && entry.objects.length < MAX_OBJECTS_PER_ENTRY) {
+      entry.objects.push(object);
+    }
+  }
+
+  return Array.from(grouped.values())
+    .sort((a, b) => timeOf(a.lastSeen) - timeOf(b.lastSeen))
+    .slice(-MAX_TIMELINE_ENTRIES);
+}
+
+
+function overlaps(event: ObservedEvent, window: EventWindow): boolean {
+  const first = timeOf(event.firstSeen ?? event.lastSeen);
+  const last = timeOf(event.lastSeen ?? event.firstSeen);
+
+  if (window.since !== undefined && last < window.since) {
+    return false;
+  }
+  if (window.until !== undefined && first > window.until) {
+    return false;
+  }
+  return true;
+}
+
+
+function timeOf(timestamp: string | null): number {
+  return timestamp ? new Date(timestamp).getTime() : 0;
+}
@@ -0,0 +1,178 @@
+import { StructuredLogger } from "../logging/structuredLogger";
+
+export interface PodLogRequest {
+  // Omitted means the newest pod of the deployment.
+  pod?: string;
+  tailLines?: number;
+  previous?: boolean;
+}
+
+/**
+ * Log lines as returned to users: already capped and redacted, so nothing
+ * downstream has to repeat either step.
+ */
+export interface PodLogs {
+  pod: string;
+  container: string;
+  containers: string[];
+  previous: boolean;
+  lines: string[];
+  tailLines: number;
+  bytes: number;
+  truncated: boolean;
+  redactions: number;
+}
+
+export interface PodLogLimits {
+  defaultLines: number;
+  maxLines: number;
+  maxBytes: number;
+}
+
+const DEFAULT_LOG_LINES = 100;
+
+const MAX_LOG_LINES = 500;
+
+const MAX_LOG_BYTES = 64 * 1024;
+
+const REDACTED = "[REDACTED]";
+
+// Each pattern's first group, if any, is kept so "password=..." stays readable.
+const DEFAULT_REDACT_PATTERNS: RegExp[] = [
+  /((?:password|passwd|secret|token|api[_-]?key|access[_-]?key|client[_-]?secret)["']?\s*[:=]\s*["']?)[^\s"',}]+/gi,
+  /(authorization:\s*(?:bearer|basic)\s+)\S+/gi,
+  /(bearer\s+)[a-z0-9._~+/-]+=*/gi,
+  /()\bAKIA[0-9A-Z]{16}\b/g,
+  /()\b(?:sk|pk|rk)_(?:live|test)_[0-9a-zA-Z]{16,}\b/g,
+  /()-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  // Key blocks the API server's own tail cut in half: a body with no BEGIN, or a BEGIN with no END.
+  /()(?:^[A-Za-z0-9+/]{40,}={0,2}\r?\n)+-----END [A-Z ]*PRIVATE KEY-----/gm,
+  /()-----BEGIN [A-Z ]*PRIVATE KEY-----(?:\r?\n[A-Za-z0-9+/]{40,}={0,2})*/g,
+];
+
+let redactPatterns: RegExp[] | null = null;
+
+
+/**
+ * LOGS_DEFAULT_LINES, LOGS_MAX_LINES and LOGS_MAX_BYTES bound what a single
+ * "logs" command can pull from the API server.
+ */
+export function getPodLogLimits(): PodLogLimits {
+  const maxLines = positiveEnv("LOGS_MAX_LINES", MAX_LOG_LINES);
+  return {
+    defaultLines: Math.min(positiveEnv("LOGS_DEFAULT_LINES", DEFAULT_LOG_LINES), maxLines),
+    maxLines,
+    maxBytes: positiveEnv("LOGS_MAX_BYTES", MAX_LOG_BYTES),
+  };
+}
+
+
+export function resolveTailLines(requested: number | undefined, limits: PodLogLimits = getPodLogLimits()): number {
+  if (requested === undefined || requested <= 0) {
+    return limits.defaultLines;
+  }
+  return Math.min(requested, limits.maxLines);
+}
+
+
+/**
+ * Built-in secret patterns plus LOGS_REDACT_PATTERNS, a JSON array of regular
+ * expression sources. Invalid extra patterns are logged and skipped.
+ */
+export function getRedactPatterns(): RegExp[] {
+  if (!redactPatterns) {
+    redactPatterns = [...DEFAULT_REDACT_PATTERNS, ...loadExtraPatterns()];
+  }
+  return redactPatterns;
+}
+
+
+export function redactSecrets(text: string, patterns: RegExp[] = getRedactPatterns()): { text: string; redactions: number } {
+  let redactions = 0;
+  let redacted = text;
+
+  for (const pattern of patterns) {
+    redacted = redacted.replace(pattern, (_match, prefix) => {
+      redactions++;
+      return `${typeof prefix === "string" ? prefix : ""}${REDACTED}`;
+    });
+  }
+
+  return { text: redacted, redactions };
+}
+
+
+/**
+ * Redacts raw log output, then trims it to the byte and line caps. Redacting
+ * first means a cap can never split a secret from the marker that identifies
+ * it. Bytes are cut from the front so the most recent lines survive.
+ */
+export function toPodLogs(
+  raw: string,
+  details: { pod: string; container: string; containers: string[]; previous: boolean; tailLines: number },
+  limits: PodLogLimits = getPodLogLimits()
+): PodLogs {
+  const { text: redacted, redactions } = redactSecrets(raw);
+  let text = redacted;
+  let truncated = false;
+
+  if (Buffer.byteLength(text, "utf8") > limits.maxBytes) {
+    text = Buffer.from(text, "utf8").subarray(-limits.maxBytes).toString("utf8");
+    text = text.slice(text.indexOf("\n") + 1);
+    truncated = true;
+  }
+
+  let lines = text.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  if (lines.length > details.tailLines) {
+    lines = lines.slice(-details.tailLines);
+    truncated = true;
+  }
+
+  return {
+    ...details,
+    lines,
+    bytes: Buffer.byteLength(lines.join("\n"), "utf8"),
+    truncated,
+    redactions,
+  };
+}
+
+
+function loadExtraPatterns(): RegExp[] {
+  const raw = process.env.LOGS_REDACT_PATTERNS;
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      throw new Error("expected a JSON array of strings");
+    }
+    return parsed.flatMap(source => {
+      try {
+        return [new RegExp(`()${String(source)}`, "g")];
+      } catch (error) {
+        StructuredLogger.warn("system", "system", "Skipping invalid LOGS_REDACT_PATTERNS entry", {
+          pattern: source,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return [];
+      }
+    });
+  } catch (error) {
+    StructuredLogger.error("system", "system", "Invalid LOGS_REDACT_PATTERNS - using built-in patterns only", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+
+function positiveEnv(name: string, fallback: number): number {
+  const configured = Number(process.env[name]);
+  return Number.isInteger(configured) && configured > 0 ? configured : fallback;
+}
@@ -0,0 +1,74 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { TargetNotAllowedError, ValidationError } from "../errors/userError";
+import { getDefaultTarget, getManagedDeployments, resolveLogSubject, resolveTarget } from "./registry";
+
+const MANAGED = [
+  { deployment: "Web", namespace: "Prod", minReplicas: 2, maxReplicas: 10 },
+  { deployment: "web", namespace: "staging", minReplicas: 1, maxReplicas: 3 },
+  { deployment: "web-api", namespace: "prod", minReplicas: 1, maxReplicas: 4 },
+];
+
+// The registry is read once per process, so load it while the variable is set.
+const previous = process.env.MANAGED_DEPLOYMENTS;
+
+
+beforeAll(() => {
+  process.env.MANAGED_DEPLOYMENTS = JSON.stringify(MANAGED);
+  getManagedDeployments();
+});
+
+
+afterAll(() => {
+  if (previous === undefined) {
+    delete process.env.MANAGED_DEPLOYMENTS;
+  } else {
+    process.env.MANAGED_DEPLOYMENTS = previous;
+  }
+});
+
+
+describe("registry", () => {
+  it("lowercases names and defaults to the first entry", () => {
+    expect(getDefaultTarget()).toEqual({ deployment: "web", namespace: "prod", minReplicas: 2, maxReplicas: 10 });
+    expect(resolveTarget()).toEqual(getDefaultTarget());
+    expect(resolveTarget({})).toEqual(getDefaultTarget());
+  });
+
+
+  it("hands out copies", () => {
+    getManagedDeployments()[0].maxReplicas = 100;
+    expect(getDefaultTarget().maxReplicas).toBe(10);
+  });
+
+
+  it("resolves a unique deployment or namespace", () => {
+    expect(resolveTarget({ deployment: "web-api" })).toMatchObject({ namespace: "prod", deployment: "web-api" });
+    expect(resolveTarget({ namespace: "staging" })).toMatchObject({ namespace: "staging", deployment: "web" });
+    expect(resolveTarget({ deployment: "web", namespace: "staging" }).maxReplicas).toBe(3);
+  });
+
+
+  it("asks for a namespace when a name is ambiguous", () => {
+    expect(() => resolveTarget({ deployment: "web" })).toThrow(ValidationError);
+    expect(() => resolveTarget({ deployment: "web" })).toThrow('Name the namespace, e.g. "web in prod"');
+  });
+
+
+  it("rejects targets outside the allow-list", () => {
+    expect(() => resolveTarget({ deployment: "db" })).toThrow(TargetNotAllowedError);
+    expect(() => resolveTarget({ deployment: "web-api", namespace: "staging" })).toThrow("staging/web-api is not a managed deployment");
+  });
+
+
+  it("resolves log subjects to a deployment or one of its pods", () => {
+    expect(resolveLogSubject(undefined, undefined)).toEqual({ target: getDefaultTarget() });
+    expect(resolveLogSubject("web", "staging").target.namespace).toBe("staging");
+    // The longest matching deployment owns the pod.
+    expect(resolveLogSubject("web-api-7d9f-x2x4q", undefined)).toEqual({
+      target: { deployment: "web-api", namespace: "prod", minReplicas: 1, maxReplicas: 4 },
+      pod: "web-api-7d9f-x2x4q",
+    });
+    expect(resolveLogSubject("web-5c4b-abcde", "staging").target.namespace).toBe("staging");
+    expect(() => resolveLogSubject("db-0", undefined)).toThrow(TargetNotAllowedError);
+  });
+});
@@ -0,0 +1,149 @@
+import { DeploymentTarget, TargetReference } from "../scheduler/types";
+import { TargetNotAllowedError, ValidationError } from "../errors/userError";
+import { StructuredLogger } from "../logging/structuredLogger";
+
+export interface ManagedDeployment extends DeploymentTarget {
+  minReplicas: number;
+  maxReplicas: number;
+}
+
+const DEFAULT_MANAGED_DEPLOYMENTS: ManagedDeployment[] = [
+  { deployment: "loadlab", namespace: "demo", minReplicas: 1, maxReplicas: 5 },
+];
+
+let registry: ManagedDeployment[] | null = null;
+
+/**
+ * Deployments DeployBot may touch. Configured through MANAGED_DEPLOYMENTS as a
+ * JSON array; the first entry is the default target when a command names none.
+ */
+export function getManagedDeployments(): ManagedDeployment[] {
+  if (!registry) {
+    registry = loadRegistry();
+  }
+  return registry.map(entry => ({ ...entry }));
+}
+
+export function getDefaultTarget(): ManagedDeployment {
+  return getManagedDeployments()[0];
+}
+
+export function resolveTarget(reference?: TargetReference, executionId?: string): ManagedDeployment {
+  const managed = getManagedDeployments();
+
+  if (!reference?.deployment && !reference?.namespace) {
+    return managed[0];
+  }
+
+  const candidates = managed.filter(
+    entry =>
+      (!reference.deployment || entry.deployment === reference.deployment) &&
+      (!reference.namespace || entry.namespace === reference.namespace)
+  );
+
+  if (candidates.length === 0) {
+    throw new TargetNotAllowedError(formatReference(reference), executionId, {
+      requested: reference,
+      allowed: managed.map(formatTarget),
+    });
+  }
+
+  if (candidates.length > 1) {
+    throw new ValidationError(
+      `"${formatReference(reference)}" matches several managed deployments. Name the namespace, e.g. "${candidates[0].deployment} in ${candidates[0].namespace}".`,
+      executionId,
+      { requested: reference, matches: candidates.map(formatTarget) }
+    );
+  }
+
+  return candidates[0];
+}
+
+/**
+ * Resolves the subject of "logs <name>": a managed deployment by name, or a
+ * pod named "<deployment>-..." of one. The executor still checks the pod
+ * against the deployment's selector.
+ */
+export function resolveLogSubject(
+  name: string | undefined,
+  namespace: string | undefined,
+  executionId?: string
+): { target: ManagedDeployment; pod?: string } {
+  const managed = getManagedDeployments().filter(entry => !namespace || entry.namespace === namespace);
+
+  if (!name || managed.some(entry => entry.deployment === name)) {
+    return { target: resolveTarget({ deployment: name, namespace }, executionId) };
+  }
+
+  const owners = managed
+    .filter(entry => name.startsWith(`${entry.deployment}-`))
+    .sort((a, b) => b.deployment.length - a.deployment.length);
+
+  if (owners.length === 0) {
+    throw new TargetNotAllowedError(namespace ? `${namespace}/${name}` : name, executionId, {
+      requested: { pod: name, namespace },
+      allowed: getManagedDeployments().map(formatTarget),
+    });
+  }
+
+  return { target: resolveTarget(owners[0], executionId), pod: name };
+}
+
+export function getManagedDeployment(target: DeploymentTarget, executionId?: string): ManagedDeployment {
+  return resolveTarget(target, executionId);
+}
+
+export function formatTarget(target: DeploymentTarget): string {
+  return `${target.namespace}/${target.deployment}`;
+}
+
+function formatReference(reference: TargetReference): string {
+  if (reference.deployment && reference.namespace) {
+    return `${reference.namespace}/${reference.deployment}`;
+  }
+  return reference.deployment ?? `namespace ${reference.namespace}`;
+}
+
+function loadRegistry(): ManagedDeployment[] {
+  const raw = process.env.MANAGED_DEPLOYMENTS;
+  if (!raw) {
+    return DEFAULT_MANAGED_DEPLOYMENTS;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed) || parsed.length === 0) {
+      throw new Error("expected a non-empty JSON array");
+    }
+    return parsed.map(validateEntry);
+  } catch (error) {
+    StructuredLogger.error("system", "system", "Invalid MANAGED_DEPLOYMENTS - falling back to defaults", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return DEFAULT_MANAGED_DEPLOYMENTS;
+  }
+}
+
+function validateEntry(entry: unknown): ManagedDeployment {
+  const candidate = entry as Partial<ManagedDeployment>;
+  const { deployment, namespace, minReplicas, maxReplicas } = candidate;
+
+  if (typeof deployment !== "string" || typeof namespace !== "string") {
+    throw new Error(`entry ${JSON.stringify(entry)} needs "deployment" and "namespace" strings`);
+  }
+  if (
+    !Number.isInteger(minReplicas) ||
+    !Number.isInteger(maxReplicas) ||
+    (minReplicas as number) < 0 ||
+    (minReplicas as number) > (maxReplicas as number)
+  ) {
+    throw new Error(`entry ${namespace}/${deployment} needs integer minReplicas <= maxReplicas`);
+  }
+
+  return {
+    deployment: deployment.toLowerCase(),
+    namespace: namespace.toLowerCase(),
+    minReplicas: minReplicas as number,
+    maxReplicas: maxReplicas as number,
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * CPU figures are millicores, memory figures bytes. A null usage means the
+ * metrics API had no sample; a null request/limit means none is set.
+ */
+export interface ResourceFigures {
+  usage: number | null;
+  request: number | null;
+  limit: number | null;
+}
+
+export interface ContainerUsage {
+  name: string;
+  cpu: ResourceFigures;
+  memory: ResourceFigures;
+}
+
+export interface PodUsage {
+  name: string;
+  cpu: ResourceFigures;
+  memory: ResourceFigures;
+  containers: ContainerUsage[];
+}
+
+/**
+ * Usage for every pod of a deployment. When metrics.k8s.io is missing,
+ * `available` is false, `reason` says why, and only requests/limits are set.
+ */
+export interface DeploymentUsage {
+  available: boolean;
+  reason: string | null;
+  sampledAt: string | null;
+  window: string | null;
+  pods: PodUsage[];
+  totals: { cpu: ResourceFigures; memory: ResourceFigures };
+}
+
+export interface ContainerResources {
+  name: string;
+  requests?: Record<string, string>;
+  limits?: Record<string, string>;
+}
+
+export interface ContainerSample {
+  name: string;
+  usage: { cpu: string; memory: string };
+}
+
+const CPU_SUFFIXES: Record<string, number> = {
+  n: 1e-6,
+  u: 1e-3,
+  m: 1,
+  "": 1000,
+};
+
+const MEMORY_SUFFIXES: Record<string, number> = {
+  Ki: 2 ** 10,
+  Mi: 2 ** 20,
+  Gi: 2 ** 30,
+  Ti: 2 ** 40,
+  k: 1e3,
+  M: 1e6,
+  G: 1e9,
+  T: 1e12,
+  "": 1,
+};
+
+const QUANTITY_PATTERN = /^([0-9.]+(?:e[0-9]+)?)([a-zA-Z]*)$/;
+
+
+export function parseCpuMillicores(quantity: string | undefined): number | null {
+  return parseQuantity(quantity, CPU_SUFFIXES);
+}
+
+
+export function parseMemoryBytes(quantity: string | undefined): number | null {
+  return parseQuantity(quantity, MEMORY_SUFFIXES);
+}
+
+
+export function formatCpu(millicores: number | null): string {
+  if (millicores === null) {
+    return "-";
+  }
+  return millicores >= 1000 ? `${(millicores / 1000).toFixed(2)}` : `${Math.round(millicores)}m`;
+}
+
+
+export function formatMemory(bytes: number | null): string {
+  if (bytes === null) {
+    return "-";
+  }
+  if (bytes >= 2 ** 30) {
+    return `${(bytes / 2 ** 30).toFixed(2)}Gi`;
+  }
+  if (bytes >= 2 ** 20) {
+    return `${Math.round(bytes / 2 ** 20)}Mi`;
+  }
+  return `${Math.round(bytes / 2 ** 10)}Ki`;
+}
+
+
+/**
+ * Joins a pod's container specs with its metrics sample (if any). Pod
+ * figures are container sums; a pod-level request or limit is only set when
+ * every container declares one, since a partial sum would understate it.
+ */
+export function toPodUsage(name: string, specs: ContainerResources[], samples: ContainerSample[] | null): PodUsage {
+  const containers = specs.map(spec => {
+    const sample = samples?.find(candidate => candidate.name === spec.name);
+    return {
+      name: spec.name,
+      cpu: {
+        usage: sample ? parseCpuMillicores(sample.usage.cpu) : null,
+        request: parseCpuMillicores(spec.requests?.cpu),
+        limit: parseCpuMillicores(spec.limits?.cpu),
+      },
+      memory: {
+        usage: sample ? parseMemoryBytes(sample.usage.memory) : null,
+        request: parseMemoryBytes(spec.requests?.memory),
+        limit: parseMemoryBytes(spec.limits?.memory),
+      },
+    };
+  });
+
+  return {
+    name,
+    cpu: sumFigures(containers.map(container => container.cpu)),
+    memory: sumFigures(containers.map(container => container.memory)),
+    containers,
+  };
+}
+
+
+export function sumFigures(figures: ResourceFigures[]): ResourceFigures {
+  return {
+    usage: sumAll(figures.map(figure => figure.usage)),
+    request: sumAll(figures.map(figure => figure.request)),
+    limit: sumAll(figures.map(figure => figure.limit)),
+  };
+}
+
+
+// Pods too new to have a sample are skipped rather than blanking the total.
+export function sumSampled(values: Array<number | null>): number | null {
+  const sampled = values.filter((value): value is number => value !== null);
+  return sampled.length > 0 ? sampled.reduce((total, value) => total + value, 0) : null;
+}
+
+
+function sumAll(values: Array<number | null>): number | null {
+  if (values.length === 0 || values.some(value => value === null)) {
+    return null;
+  }
+  return (values as number[]).reduce((total, value) => total + value, 0);
+}
+
+
+function parseQuantity(quantity: string | undefined, suffixes: Record<string, number>): number | null {
+  const match = quantity ? QUANTITY_PATTERN.exec(quantity.trim()) : null;
+  if (!match || !(match[2] in suffixes)) {
+    return null;
+  }
+  return Number(match[1]) * suffixes[match[2]];
+}
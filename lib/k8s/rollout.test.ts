@@ -0,0 +1,144 @@
+import { describe, expect, it } from "bun:test";
+import { K8sExecutor, RolloutPod, RolloutStatus } from "./client";
+import { assessRollout, RolloutReport, waitForRollout } from "./rollout";
+import { Clock } from "../scheduler/clock";
+
+const TARGET = { deployment: "web", namespace: "prod" };
+
+const RESTARTED_AT = "2026-10-01T12:00:00.500Z";
+
+
+function pod(name: string, overrides: Partial<RolloutPod> = {}): RolloutPod {
+  return { name, phase: "Running", ready: true, createdAt: "2026-10-01T12:00:05Z", terminating: false, reason: null, ...overrides };
+}
+
+
+function status(overrides: Partial<RolloutStatus> = {}): RolloutStatus {
+  return {
+    generation: 4,
+    observedGeneration: 4,
+    desiredReplicas: 3,
+    replicas: 3,
+    updatedReplicas: 3,
+    readyReplicas: 3,
+    availableReplicas: 3,
+    restartedAt: null,
+    pods: [pod("web-1"), pod("web-2"), pod("web-3")],
+    ...overrides,
+  };
+}
+
+
+function manualClock(): Clock {
+  let now = 0;
+  return {
+    now: () => now,
+    sleep: async ms => {
+      now += ms;
+    },
+  };
+}
+
+
+// Only getRolloutStatus is used; it replays `statuses` and then repeats the last one.
+function executorReturning(statuses: RolloutStatus[]): { executor: K8sExecutor; calls: () => number } {
+  let calls = 0;
+  const executor = {
+    getRolloutStatus: async () => statuses[Math.min(calls++, statuses.length - 1)],
+  } as unknown as K8sExecutor;
+  return { executor, calls: () => calls };
+}
+
+
+describe("assessRollout", () => {
+  it("converges when every count matches and the generation is observed", () => {
+    const report = assessRollout(status(), { replicas: 3 }, 1200, Date.parse("2026-10-01T12:01:00Z"));
+    expect(report).toMatchObject({ converged: true, timedOut: false, summary: "3/3 ready", elapsedMs: 1200 });
+    expect(report.checkedAt).toBe("2026-10-01T12:01:00.000Z");
+  });
+
+
+  it("waits for the expected replica count and the new generation", () => {
+    expect(assessRollout(status(), { replicas: 5 }, 0, 0).converged).toBe(false);
+
+    const unobserved = assessRollout(status({ observedGeneration: 3 }), {}, 0, 0);
+    expect(unobserved.converged).toBe(false);
+    expect(unobserved.summary).toBe("3/3 ready, generation 4 not yet observed");
+  });
+
+
+  it("says why a rollout is stuck", () => {
+    const report = assessRollout(status({
+      replicas: 4,
+      updatedReplicas: 2,
+      readyReplicas: 1,
+      availableReplicas: 1,
+      pods: [
+        pod("web-1"),
+        pod("web-2", { ready: false, reason: "CrashLoopBackOff" }),
+        pod("web-3", { ready: false, phase: "Pending" }),
+        pod("web-4", { ready: false, reason: "CrashLoopBackOff" }),
+        pod("web-5", { terminating: true, ready: false, reason: "Error" }),
+      ],
+    }), {}, 0, 0);
+
+    expect(report.converged).toBe(false);
+    expect(report.podReasons).toEqual({ CrashLoopBackOff: 2, Pending: 1 });
+    expect(report.summary).toBe("1/3 ready, 2/3 updated, 2 CrashLoopBackOff, 1 Pending, 1 old replica still running");
+  });
+
+
+  it("requires a restart to replace every serving pod", () => {
+    const pods = [pod("web-1"), pod("web-2", { createdAt: "2026-09-30T08:00:00Z" }), pod("web-3")];
+    const stale = assessRollout(status({ restartedAt: RESTARTED_AT, pods }), { requireRestart: true }, 0, 0);
+    expect(stale.converged).toBe(false);
+    expect(stale.oldPods).toBe(1);
+    expect(stale.summary).toBe("3/3 ready, 1 not yet replaced");
+
+    // Pod timestamps are whole seconds, so a pod created in the restart's second counts as new.
+    const sameSecond = [pod("web-1", { createdAt: "2026-10-01T12:00:00Z" }), pod("web-2"), pod("web-3")];
+    expect(assessRollout(status({ restartedAt: RESTARTED_AT, pods: sameSecond }), { requireRestart: true }, 0, 0).converged).toBe(true);
+
+    expect(assessRollout(status(), { requireRestart: true }, 0, 0).converged).toBe(false);
+  });
+});
+
+
+describe("waitForRollout", () => {
+  it("polls until the rollout converges and reports each change once", async () => {
+    const { executor, calls } = executorReturning([
+      status({ readyReplicas: 1, availableReplicas: 1 }),
+      status({ readyReplicas: 1, availableReplicas: 1 }),
+      status({ readyReplicas: 2, availableReplicas: 2 }),
+      status(),
+    ]);
+    const progress: RolloutReport[] = [];
+
+    const report = await waitForRollout(executor, TARGET, { replicas: 3 }, {
+      clock: manualClock(),
+      deadlineMs: 60000,
+      pollIntervalMs: 1000,
+      onProgress: update => progress.push(update),
+    });
+
+    expect(report.converged).toBe(true);
+    expect(report.elapsedMs).toBe(3000);
+    expect(calls()).toBe(4);
+    expect(progress.map(update => update.summary)).toEqual(["1/3 ready", "2/3 ready", "3/3 ready"]);
+  });
+
+
+  it("returns the last report marked timedOut instead of throwing", async () => {
+    const { executor, calls } = executorReturning([status({ readyReplicas: 2, availableReplicas: 2 })]);
+
+    const report = await waitForRollout(executor, TARGET, { replicas: 3 }, {
+      clock: manualClock(),
+      deadlineMs: 10000,
+      pollIntervalMs: 2000,
+    });
+
+    expect(report).toMatchObject({ converged: false, timedOut: true, summary: "2/3 ready", elapsedMs: 10000 });
+    // Checks at 0, 2, 4, 6, 8 and 10 seconds; another poll would pass the deadline.
+    expect(calls()).toBe(6);
+  });
+});
@@ -0,0 +1,174 @@
+import { K8sExecutor, RolloutPod, RolloutStatus } from "./client";
+import { DeploymentTarget } from "../scheduler/types";
+import { Clock, systemClock } from "../scheduler/clock";
+
+const DEFAULT_DEADLINE_MS = 120000;
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+export interface RolloutExpectation {
+  replicas?: number;
+  // Every serving pod must have been created after the restartedAt annotation.
+  requireRestart?: boolean;
+}
+
+/**
+ * Structured outcome of a verification run. `summary` is the one-line form
+ * shown to users, e.g. "2/3 ready, 1 CrashLoopBackOff".
+ */
+export interface RolloutReport {
+  converged: boolean;
+  timedOut: boolean;
+  summary: string;
+  desiredReplicas: number;
+  updatedReplicas: number;
+  readyReplicas: number;
+  availableReplicas: number;
+  generation: number;
+  observedGeneration: number;
+  oldPods: number;
+  podReasons: Record<string, number>;
+  elapsedMs: number;
+  checkedAt: string;
+}
+
+export interface WaitForRolloutOptions {
+  executionId?: string;
+  deadlineMs?: number;
+  pollIntervalMs?: number;
+  clock?: Clock;
+  onProgress?: (report: RolloutReport) => void;
+}
+
+
+export function getRolloutDeadlineMs(): number {
+  const configured = Number(process.env.ROLLOUT_DEADLINE_MS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_DEADLINE_MS;
+}
+
+
+/**
+ * AUTO_ROLLBACK=false leaves a Deployment in whatever state a failed
+ * verification found it; anything else restores the pre-command snapshot.
+ */
+export function isAutoRollbackEnabled(): boolean {
+  return process.env.AUTO_ROLLBACK !== "false";
+}
+
+
+/**
+ * Polls the Deployment until it converges or the deadline passes. Never
+ * throws on timeout: the caller gets the last report and decides.
+ */
+export async function waitForRollout(
+  executor: K8sExecutor,
+  target: DeploymentTarget,
+  expectation: RolloutExpectation,
+  options: WaitForRolloutOptions = {}
+): Promise<RolloutReport> {
+  const clock = options.clock ?? systemClock;
+  const deadlineMs = options.deadlineMs ?? getRolloutDeadlineMs();
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const startedAt = clock.now();
+  let lastSummary: string | null = null;
+
+  for (;;) {
+    const status = await executor.getRolloutStatus(target, options.executionId);
+    const elapsedMs = clock.now() - startedAt;
+    const report = assessRollout(status, expectation, elapsedMs, clock.now());
+
+    if (report.summary !== lastSummary) {
+      lastSummary = report.summary;
+      options.onProgress?.(report);
+    }
+
+    if (report.converged) {
+      return report;
+    }
+
+    if (elapsedMs + pollIntervalMs > deadlineMs) {
+      return { ...report, timedOut: true };
+    }
+
+    await clock.sleep(pollIntervalMs);
+  }
+}
+
+
+export function assessRollout(
+  status: RolloutStatus,
+  expectation: RolloutExpectation,
+  elapsedMs: number,
+  now: number
+): RolloutReport {
+  const desired = status.desiredReplicas;
+  const serving = status.pods.filter(pod => !pod.terminating);
+  const oldPods = expectation.requireRestart
+    ? serving.filter(pod => !createdAfter(pod, status.restartedAt)).length
+    : 0;
+
+  const podReasons: Record<string, number> = {};
+  for (const pod of serving) {
+    const reason = pod.reason ?? (pod.phase === "Pending" ? "Pending" : null);
+    if (reason && !pod.ready) {
+      podReasons[reason] = (podReasons[reason] ?? 0) + 1;
+    }
+  }
+
+  const observed = status.observedGeneration >= status.generation;
+  const converged =
+    observed &&
+    (expectation.replicas === undefined || desired === expectation.replicas) &&
+    status.updatedReplicas === desired &&
+    status.readyReplicas === desired &&
+    status.availableReplicas === desired &&
+    status.replicas === desired &&
+    (!expectation.requireRestart || (status.restartedAt !== null && oldPods === 0));
+
+  const parts = [`${status.readyReplicas}/${desired} ready`];
+  if (status.updatedReplicas !== desired) {
+    parts.push(`${status.updatedReplicas}/${desired} updated`);
+  }
+  if (status.availableReplicas !== status.readyReplicas) {
+    parts.push(`${status.availableReplicas}/${desired} available`);
+  }
+  for (const [reason, count] of Object.entries(podReasons)) {
+    parts.push(`${count} ${reason}`);
+  }
+  if (oldPods > 0) {
+    parts.push(`${oldPods} not yet replaced`);
+  }
+  if (status.replicas > desired) {
+    const extra = status.replicas - desired;
+    parts.push(`${extra} old ${extra === 1 ? "replica" : "replicas"} still running`);
+  }
+  if (!observed) {
+    parts.push(`generation ${status.generation} not yet observed`);
+  }
+
+  return {
+    converged,
+    timedOut: false,
+    summary: parts.join(", "),
+    desiredReplicas: desired,
+    updatedReplicas: status.updatedReplicas,
+    readyReplicas: status.readyReplicas,
+    availableReplicas: status.availableReplicas,
+    generation: status.generation,
+    observedGeneration: status.observedGeneration,
+    oldPods,
+    podReasons,
+    elapsedMs,
+    checkedAt: new Date(now).toISOString(),
+  };
+}
+
+
+// Pod timestamps have second precision, so compare against the whole second.
+function createdAfter(pod: RolloutPod, restartedAt: string | null): boolean {
+  if (!restartedAt || !pod.createdAt) {
+    return false;
+  }
+  const restartSecond = Math.floor(new Date(restartedAt).getTime() / 1000) * 1000;
+  return new Date(pod.createdAt).getTime() >= restartSecond;
+}
@@ -0,0 +1,946 @@
+import crypto from "crypto";
+import { KubernetesError } from "../errors/infraError";
+import { NotFoundError } from "../errors/userError";
+import { StructuredLogger } from "../logging/structuredLogger";
+import { replicaBoundsViolation } from "../policy/rules";
+import { Clock, systemClock } from "../scheduler/clock";
+import { DeploymentTarget } from "../scheduler/types";
+import type {
+  ContainerStatus,
+  DeploymentMutation,
+  DeploymentSnapshot,
+  K8sExecutor,
+  K8sStatus,
+  MutationPreview,
+  PatchActor,
+  PodStatus,
+  RolloutPod,
+  RolloutRevision,
+  RolloutStatus,
+} from "./client";
+import { auditPatch, restartPatch, scalePatch, selectRevision, snapshotPatch, templatePatch } from "./client";
+import { DeploymentEvent, EventWindow, ObservedEvent, summarizeEvents } from "./events";
+import { getPodLogLimits, PodLogRequest, PodLogs, resolveTailLines, toPodLogs } from "./podLogs";
+import { getManagedDeployment, ManagedDeployment } from "./registry";
+import { diffObjects } from "./specDiff";
+import {
+  ContainerSample,
+  DeploymentUsage,
+  parseCpuMillicores,
+  parseMemoryBytes,
+  sumFigures,
+  sumSampled,
+  toPodUsage,
+} from "./resources";
+
+/**
+ * Delays of the simulated control plane and kubelet, in milliseconds.
+ */
+export interface SimulatorTiming {
+  // Mutation to the Deployment controller observing the new generation.
+  observeDelayMs: number;
+  // Pod creation to its containers starting (scheduling + image pull).
+  startupMs: number;
+  // Container start to the readiness probe passing.
+  readinessMs: number;
+  // Deletion to the pod disappearing (graceful termination).
+  terminationMs: number;
+  // Time between restarts of a crash-looping container.
+  crashIntervalMs: number;
+}
+
+export type SimulatedPodFailure = "CrashLoopBackOff" | "ImagePullBackOff";
+
+export interface SimulatorFailures {
+  // Fraction (0-1) of newly created pods that never become ready.
+  podFailureRate: number;
+  podFailureReason: SimulatedPodFailure;
+  // Fraction (0-1) of API calls that fail with a KubernetesError.
+  apiErrorRate: number;
+}
+
+export interface SimulatorOptions {
+  clock?: Clock;
+  random?: () => number;
+  timing?: Partial<SimulatorTiming>;
+  failures?: Partial<SimulatorFailures>;
+  metricsAvailable?: boolean;
+}
+
+interface ContainerTemplate {
+  name: string;
+  image?: string;
+  resources?: { requests?: Record<string, string>; limits?: Record<string, string> };
+}
+
+interface PodTemplate {
+  metadata?: { labels?: Record<string, string>; annotations?: Record<string, string> };
+  spec?: { containers?: ContainerTemplate[] };
+}
+
+interface SimPod {
+  name: string;
+  replicaSet: string;
+  createdAt: number;
+  startedAt: number;
+  readyAt: number;
+  deletedAt: number | null;
+  failure: SimulatedPodFailure | null;
+  node: string;
+  podIP: string;
+  started: boolean;
+  // Restarts for CrashLoopBackOff, pull retries for ImagePullBackOff.
+  backoffs: number;
+}
+
+interface SimReplicaSet {
+  name: string;
+  hash: string;
+  revision: number;
+  template: PodTemplate;
+  changeCause: string | null;
+  createdAt: number;
+  pods: SimPod[];
+}
+
+interface SimDeployment {
+  target: ManagedDeployment;
+  replicas: number;
+  template: PodTemplate;
+  generation: number;
+  observedGeneration: number;
+  changedAt: number;
+  current: SimReplicaSet;
+  replicaSets: SimReplicaSet[];
+  events: ObservedEvent[];
+  reconciledAt: number;
+}
+
+const DEFAULT_TIMING: SimulatorTiming = {
+  observeDelayMs: 500,
+  startupMs: 1500,
+  readinessMs: 3000,
+  terminationMs: 2000,
+  crashIntervalMs: 10000,
+};
+
+const RESTARTED_AT_ANNOTATION = "kubectl.kubernetes.io/restartedAt";
+
+// The controller loop is replayed in steps of this size between calls, so
+// rollouts progress the same however often they are polled.
+const STEP_MS = 250;
+
+const MAX_STEPS = 1200;
+
+const MAX_EVENTS = 500;
+
+const LOG_INTERVAL_MS = 5000;
+
+const NODES = ["sim-node-a", "sim-node-b", "sim-node-c"];
+
+
+/**
+ * An in-memory cluster implementing K8sExecutor, for running the whole chat →
+ * queue → worker → verification flow without a kubeconfig. Deployments from
+ * the registry are created on first use with two revisions of history.
+ *
+ * Rollouts follow the Deployment controller's rules (25% surge and
+ * unavailability, old pods removed only as new ones become ready), and pods
+ * move through Pending, Running and Ready on the configured timing.
+ */
+export class SimulatedCluster implements K8sExecutor {
+  private clock: Clock;
+
+  private random: () => number;
+
+  private timing: SimulatorTiming;
+
+  private failures: SimulatorFailures;
+
+  private metricsAvailable: boolean;
+
+  private deployments: Map<string, SimDeployment> = new Map();
+
+  private podCount: number = 0;
+
+  constructor(options: SimulatorOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.random = options.random ?? Math.random;
+    this.timing = { ...DEFAULT_TIMING, ...options.timing };
+    this.failures = { podFailureRate: 0, podFailureReason: "CrashLoopBackOff", apiErrorRate: 0, ...options.failures };
+    this.metricsAvailable = options.metricsAvailable ?? true;
+  }
+
+  /**
+   * Changes failure injection for pods created and calls made from now on.
+   */
+  setFailures(failures: Partial<SimulatorFailures>): void {
+    this.failures = { ...this.failures, ...failures };
+  }
+
+  async scaleDeployment(target: DeploymentTarget, replicas: number, executionId?: string, actor?: PatchActor): Promise<void> {
+    const managed = getManagedDeployment(target, executionId);
+    const { deployment, namespace, minReplicas, maxReplicas } = managed;
+
+    if (!Number.isInteger(replicas)) {
+      throw new KubernetesError(
+        `Invalid replica count: ${replicas}. Must be an integer.`,
+        executionId,
+        { requestedReplicas: replicas }
+      );
+    }
+
+    const violation = replicaBoundsViolation(managed, replicas);
+    if (violation) {
+      throw new KubernetesError(
+        violation,
+        executionId,
+        { requestedReplicas: replicas, minReplicas, maxReplicas, deployment, namespace }
+      );
+    }
+
+    const state = this.load(target, `scale deployment ${deployment} to ${replicas} replicas`, executionId);
+    state.replicas = replicas;
+    this.bumpGeneration(state);
+    // Audited as the patch a real cluster would have been sent.
+    auditPatch(state.target, scalePatch(replicas), "succeeded", executionId, actor, { simulated: true });
+
+    StructuredLogger.info(executionId || "system", "completed", "Scale operation succeeded", {
+      deployment,
+      namespace,
+      replicas,
+      simulated: true,
+    });
+  }
+
+  async restartDeployment(target: DeploymentTarget, executionId?: string, actor?: PatchActor): Promise<void> {
+    const state = this.load(target, "restart deployment", executionId);
+    const restartedAt = new Date(this.clock.now()).toISOString();
+    state.template = withRestartedAt(state.template, restartedAt);
+    this.bumpGeneration(state);
+    auditPatch(state.target, restartPatch(restartedAt), "succeeded", executionId, actor, { simulated: true });
+  }
+
+  async getStatus(target: DeploymentTarget, executionId?: string): Promise<K8sStatus> {
+    const state = this.load(target, "get status for deployment", executionId);
+    const now = this.clock.now();
+
+    return {
+      replicas: state.replicas,
+      readyReplicas: livePods(state).filter(pod => this.isReady(pod, now)).length,
+      pods: allPods(state).map(pod => this.toPodStatus(state, pod, now)),
+    };
+  }
+
+  async getRolloutStatus(target: DeploymentTarget, executionId?: string): Promise<RolloutStatus> {
+    const state = this.load(target, "get rollout status for deployment", executionId);
+    const now = this.clock.now();
+    const live = livePods(state);
+    const ready = live.filter(pod => this.isReady(pod, now)).length;
+
+    return {
+      generation: state.generation,
+      observedGeneration: state.observedGeneration,
+      desiredReplicas: state.replicas,
+      replicas: live.length,
+      updatedReplicas: state.current.pods.filter(pod => pod.deletedAt === null).length,
+      readyReplicas: ready,
+      availableReplicas: ready,
+      restartedAt: state.template.metadata?.annotations?.[RESTARTED_AT_ANNOTATION] ?? null,
+      pods: allPods(state).map(pod => this.toRolloutPod(pod, now)),
+    };
+  }
+
+  async getDeploymentSnapshot(target: DeploymentTarget, executionId?: string): Promise<DeploymentSnapshot> {
+    const state = this.load(target, "snapshot deployment", executionId);
+
+    return {
+      replicas: state.replicas,
+      revision: String(state.current.revision),
+      template: cloneTemplate(state.template) as Record<string, unknown>,
+      capturedAt: new Date(this.clock.now()).toISOString(),
+    };
+  }
+
+  async restoreDeploymentSnapshot(target: DeploymentTarget, snapshot: DeploymentSnapshot, executionId?: string, actor?: PatchActor): Promise<void> {
+    const state = this.load(target, `restore deployment to ${snapshot.replicas} replicas`, executionId);
+    state.template = cloneTemplate(snapshot.template as PodTemplate);
+    state.replicas = snapshot.replicas;
+    this.bumpGeneration(state);
+    auditPatch(state.target, snapshotPatch(snapshot), "succeeded", executionId, actor, { simulated: true });
+
+    StructuredLogger.info(executionId || "system", "completed", "Deployment snapshot restored", {
+      deployment: state.target.deployment,
+      namespace: state.target.namespace,
+      replicas: snapshot.replicas,
+      revision: snapshot.revision,
+      simulated: true,
+    });
+  }
+
+  async getRolloutHistory(target: DeploymentTarget, executionId?: string): Promise<RolloutRevision[]> {
+    const state = this.load(target, "read rollout history for deployment", executionId);
+    return toRevisions(state);
+  }
+
+  async rollbackToRevision(target: DeploymentTarget, revision: number | undefined, executionId?: string, actor?: PatchActor): Promise<RolloutRevision> {
+    const state = this.load(target, "roll back deployment", executionId);
+    const { chosen, template } = resolveRollback(state, revision, executionId);
+    state.template = template;
+    this.bumpGeneration(state);
+    auditPatch(state.target, templatePatch(template as Record<string, unknown>), "succeeded", executionId, actor, { simulated: true });
+
+    StructuredLogger.info(executionId || "system", "completed", "Rollback to revision applied", {
+      deployment: state.target.deployment,
+      namespace: state.target.namespace,
+      revision: chosen.revision,
+      images: chosen.images,
+      simulated: true,
+    });
+    return chosen;
+  }
+
+  async getPodLogs(target: DeploymentTarget, request: PodLogRequest, executionId?: string): Promise<PodLogs> {
+    const state = this.load(target, "list pods for deployment", executionId);
+    const { deployment, namespace } = state.target;
+    const limits = getPodLogLimits();
+    const tailLines = resolveTailLines(request.tailLines, limits);
+    const now = this.clock.now();
+
+    const pod = request.pod
+      ? allPods(state).find(candidate => candidate.name === request.pod)
+      : livePods(state).sort((a, b) => b.createdAt - a.createdAt)[0];
+
+    if (!pod) {
+      throw new NotFoundError(
+        request.pod
+          ? `Pod ${request.pod} not found in ${namespace}/${deployment}`
+          : `Deployment ${namespace}/${deployment} has no pods`,
+        executionId,
+        { deployment, namespace, pod: request.pod }
+      );
+    }
+
+    const containers = templateContainers(this.replicaSetOf(state, pod).template).map(container => container.name);
+    const previous = request.previous ?? false;
+
+    if (previous && restarts(pod) === 0) {
+      throw new KubernetesError(
+        `Failed to read previous logs for pod ${pod.name}.`,
+        executionId,
+        { deployment, namespace, pod: pod.name, container: containers[0], originalError: "previous terminated container not found" }
+      );
+    }
+
+    const raw = this.renderLogs(state, pod, previous, tailLines, now);
+    return toPodLogs(raw, { pod: pod.name, container: containers[0], containers, previous, tailLines }, limits);
+  }
+
+  async getEvents(target: DeploymentTarget, window: EventWindow = {}, executionId?: string): Promise<DeploymentEvent[]> {
+    const state = this.load(target, "list events for deployment", executionId);
+    return summarizeEvents(state.events, window);
+  }
+
+  async getPodUsage(target: DeploymentTarget, executionId?: string): Promise<DeploymentUsage> {
+    const state = this.load(target, "list pods for deployment", executionId);
+    const now = this.clock.now();
+
+    const pods = livePods(state).map(pod => {
+      const containers = templateContainers(this.replicaSetOf(state, pod).template);
+      const running = pod.started && pod.failure === null;
+      return toPodUsage(
+        pod.name,
+        containers.map(container => ({ name: container.name, ...container.resources })),
+        this.metricsAvailable && running ? containers.map(container => simulateSample(pod, container, now)) : null
+      );
+    });
+
+    const cpu = sumFigures(pods.map(pod => pod.cpu));
+    const memory = sumFigures(pods.map(pod => pod.memory));
+    cpu.usage = sumSampled(pods.map(pod => pod.cpu.usage));
+    memory.usage = sumSampled(pods.map(pod => pod.memory.usage));
+
+    return {
+      available: this.metricsAvailable,
+      reason: this.metricsAvailable ? null : "Metrics API (metrics.k8s.io) is disabled in the simulator",
+      sampledAt: this.metricsAvailable ? new Date(now).toISOString() : null,
+      window: this.metricsAvailable ? "30s" : null,
+      pods,
+      totals: { cpu, memory },
+    };
+  }
+
+  /**
+   * Applies the mutation to a copy of the Deployment and diffs the two; the
+   * simulator has no admission chain, so previews are never rejected.
+   */
+  async previewMutation(target: DeploymentTarget, mutation: DeploymentMutation, executionId?: string): Promise<MutationPreview> {
+    const state = this.load(target, `dry-run ${mutation.action.toLowerCase()} for deployment`, executionId);
+    let replicas = state.replicas;
+    let template = state.template;
+    let revision: number | null = null;
+
+    if (mutation.action === "SCALE") {
+      replicas = mutation.replicas;
+    } else if (mutation.action === "RESTART") {
+      template = withRestartedAt(state.template, new Date(this.clock.now()).toISOString());
+    } else {
+      const rollback = resolveRollback(state, mutation.revision, executionId);
+      template = rollback.template;
+      revision = rollback.chosen.revision;
+    }
+
+    return {
+      accepted: true,
+      mode: "simulated",
+      changes: diffObjects({ spec: { replicas: state.replicas, template: state.template } }, { spec: { replicas, template } }),
+      rejection: null,
+      revision,
+    };
+  }
+
+  /**
+   * Resolves the target, injects an API failure if one is due, and brings
+   * the deployment up to the current time before anything reads it.
+   */
+  private load(target: DeploymentTarget, operation: string, executionId?: string): SimDeployment {
+    const managed = getManagedDeployment(target, executionId);
+    const key = `${managed.namespace}/${managed.deployment}`;
+
+    if (this.random() < this.failures.apiErrorRate) {
+      throw new KubernetesError(
+        `Failed to ${operation} ${managed.deployment}.`,
+        executionId,
+        { deployment: managed.deployment, namespace: managed.namespace, originalError: "simulated API server error", simulated: true }
+      );
+    }
+
+    let state = this.deployments.get(key);
+    if (!state) {
+      state = this.seed(managed);
+      this.deployments.set(key, state);
+    }
+    this.advance(state);
+    return state;
+  }
+
+  private seed(target: ManagedDeployment): SimDeployment {
+    const now = this.clock.now();
+    const day = 24 * 60 * 60 * 1000;
+    const replicas = Math.max(target.minReplicas, Math.min(2, target.maxReplicas));
+
+    const initial = this.newReplicaSet(target, defaultTemplate(target.deployment, "1.0.0"), 1, now - 2 * day);
+    initial.changeCause = "initial release";
+    const current = this.newReplicaSet(target, defaultTemplate(target.deployment, "1.1.0"), 2, now - day);
+    current.changeCause = `image updated to ${target.deployment}:1.1.0`;
+
+    for (let index = 0; index < replicas; index++) {
+      const pod = this.newPod(current, now - day, null);
+      pod.started = true;
+      current.pods.push(pod);
+    }
+
+    StructuredLogger.info("system", "system", "Simulated deployment created", {
+      deployment: target.deployment,
+      namespace: target.namespace,
+      replicas,
+    });
+
+    return {
+      target,
+      replicas,
+      template: cloneTemplate(current.template),
+      generation: 1,
+      observedGeneration: 1,
+      changedAt: now - day,
+      current,
+      replicaSets: [initial, current],
+      events: [],
+      reconciledAt: now,
+    };
+  }
+
+  private bumpGeneration(state: SimDeployment): void {
+    state.generation++;
+    state.changedAt = this.clock.now();
+  }
+
+  private advance(state: SimDeployment): void {
+    const now = this.clock.now();
+    const elapsed = now - state.reconciledAt;
+    if (elapsed <= 0) {
+      return;
+    }
+
+    const steps = Math.min(Math.ceil(elapsed / STEP_MS), MAX_STEPS);
+    for (let step = 1; step <= steps; step++) {
+      this.reconcile(state, state.reconciledAt + (elapsed * step) / steps);
+    }
+    state.reconciledAt = now;
+  }
+
+  /**
+   * One pass of the Deployment controller and kubelet at time `at`.
+   */
+  private reconcile(state: SimDeployment, at: number): void {
+    const { deployment } = state.target;
+
+    if (state.observedGeneration < state.generation && at >= state.changedAt + this.timing.observeDelayMs) {
+      state.observedGeneration = state.generation;
+      const hash = templateHash(state.template);
+      const nextRevision = Math.max(...state.replicaSets.map(replicaSet => replicaSet.revision)) + 1;
+      let current = state.replicaSets.find(replicaSet => replicaSet.hash === hash);
+
+      if (!current) {
+        current = this.newReplicaSet(state.target, cloneTemplate(state.template), nextRevision, at);
+        state.replicaSets.push(current);
+      } else if (current !== state.current) {
+        // Going back to an old template reuses its ReplicaSet under a new revision.
+        current.revision = nextRevision;
+      }
+      state.current = current;
+    }
+
+    if (state.observedGeneration === state.generation) {
+      const desired = state.replicas;
+      const maxSurge = Math.max(1, Math.ceil(desired * 0.25));
+      const minAvailable = desired - Math.floor(desired * 0.25);
+      const current = state.current;
+      const currentLive = current.pods.filter(pod => pod.deletedAt === null);
+      const total = livePods(state).length;
+
+      const toCreate = Math.min(desired - currentLive.length, desired + maxSurge - total);
+      if (toCreate > 0) {
+        for (let index = 0; index < toCreate; index++) {
+          current.pods.push(this.newPod(current, at, this.pickFailure()));
+        }
+        this.recordEvent(state, "Normal", "ScalingReplicaSet", `Scaled up replica set ${current.name} to ${currentLive.length + toCreate}`, "Deployment", deployment, at);
+      } else if (currentLive.length > desired) {
+        this.terminate(state, current, currentLive.length - desired, at);
+      }
+
+      const available = livePods(state).filter(pod => this.isReady(pod, at)).length;
+      let removable = Math.max(0, available - minAvailable);
+      for (const replicaSet of state.replicaSets) {
+        const live = replicaSet.pods.filter(pod => pod.deletedAt === null);
+        if (replicaSet === current || live.length === 0) {
+          continue;
+        }
+        // Unready old pods can always go; ready ones only while availability holds.
+        const unready = live.filter(pod => !this.isReady(pod, at)).length;
+        const count = Math.min(live.length, unready + removable);
+        if (count > 0) {
+          removable -= Math.max(0, count - unready);
+          this.terminate(state, replicaSet, count, at);
+        }
+      }
+    }
+
+    for (const replicaSet of state.replicaSets) {
+      replicaSet.pods = replicaSet.pods.filter(pod => pod.deletedAt === null || at < pod.deletedAt + this.timing.terminationMs);
+      for (const pod of replicaSet.pods) {
+        this.runKubelet(state, pod, at);
+      }
+    }
+  }
+
+  private runKubelet(state: SimDeployment, pod: SimPod, at: number): void {
+    if (pod.deletedAt !== null || at < pod.startedAt) {
+      return;
+    }
+
+    const image = templateContainers(this.replicaSetOf(state, pod).template)[0]?.image ?? "unknown";
+
+    if (!pod.started) {
+      pod.started = true;
+      this.recordEvent(state, "Normal", "Scheduled", `Successfully assigned ${state.target.namespace}/${pod.name} to ${pod.node}`, "Pod", pod.name, pod.createdAt);
+      if (pod.failure === "ImagePullBackOff") {
+        this.recordEvent(state, "Warning", "Failed", `Failed to pull image "${image}": manifest unknown`, "Pod", pod.name, at);
+        return;
+      }
+      this.recordEvent(state, "Normal", "Pulled", `Container image "${image}" already present on machine`, "Pod", pod.name, at);
+      this.recordEvent(state, "Normal", "Started", "Started container", "Pod", pod.name, at);
+    }
+
+    const backoffs = Math.floor((at - pod.startedAt) / this.timing.crashIntervalMs);
+    if (pod.failure && backoffs > pod.backoffs) {
+      pod.backoffs = backoffs;
+      this.recordEvent(
+        state,
+        "Warning",
+        "BackOff",
+        pod.failure === "ImagePullBackOff" ? `Back-off pulling image "${image}"` : "Back-off restarting failed container",
+        "Pod",
+        pod.name,
+        at
+      );
+    }
+  }
+
+  // Not-ready pods go first, then the newest, as the ReplicaSet controller does.
+  private terminate(state: SimDeployment, replicaSet: SimReplicaSet, count: number, at: number): void {
+    const victims = replicaSet.pods
+      .filter(pod => pod.deletedAt === null)
+      .sort((a, b) => Number(this.isReady(a, at)) - Number(this.isReady(b, at)) || b.createdAt - a.createdAt)
+      .slice(0, count);
+
+    for (const pod of victims) {
+      pod.deletedAt = at;
+      this.recordEvent(state, "Normal", "Killing", "Stopping container", "Pod", pod.name, at);
+    }
+
+    const remaining = replicaSet.pods.filter(pod => pod.deletedAt === null).length;
+    this.recordEvent(state, "Normal", "ScalingReplicaSet", `Scaled down replica set ${replicaSet.name} to ${remaining}`, "Deployment", state.target.deployment, at);
+  }
+
+  // Repeats of the same event bump its count, as the API server does.
+  private recordEvent(
+    state: SimDeployment,
+    type: string,
+    reason: string,
+    message: string,
+    kind: string,
+    name: string,
+    at: number
+  ): void {
+    const seen = new Date(at).toISOString();
+    const existing = state.events.find(
+      event => event.kind === kind && event.name === name && event.reason === reason && event.message === message
+    );
+
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = seen;
+      return;
+    }
+
+    state.events.push({ type, reason, message, kind, name, count: 1, firstSeen: seen, lastSeen: seen });
+    if (state.events.length > MAX_EVENTS) {
+      state.events.shift();
+    }
+  }
+
+  private newReplicaSet(target: DeploymentTarget, template: PodTemplate, revision: number, at: number): SimReplicaSet {
+    const hash = templateHash(template);
+    return {
+      name: `${target.deployment}-${hash}`,
+      hash,
+      revision,
+      template,
+      changeCause: null,
+      createdAt: at,
+      pods: [],
+    };
+  }
+
+  private newPod(replicaSet: SimReplicaSet, at: number, failure: SimulatedPodFailure | null): SimPod {
+    const index = this.podCount++;
+    // ±20% jitter keeps pods of one rollout from becoming ready in lockstep.
+    const jitter = () => 0.8 + this.random() * 0.4;
+    const startedAt = at + this.timing.startupMs * jitter();
+
+    return {
+      name: `${replicaSet.name}-${randomSuffix(this.random)}`,
+      replicaSet: replicaSet.name,
+      createdAt: at,
+      startedAt,
+      readyAt: startedAt + this.timing.readinessMs * jitter(),
+      deletedAt: null,
+      failure,
+      node: NODES[index % NODES.length],
+      podIP: `10.244.${index % NODES.length}.${10 + (index % 240)}`,
+      started: false,
+      backoffs: 0,
+    };
+  }
+
+  private pickFailure(): SimulatedPodFailure | null {
+    return this.random() < this.failures.podFailureRate ? this.failures.podFailureReason : null;
+  }
+
+  private isReady(pod: SimPod, at: number): boolean {
+    return pod.deletedAt === null && pod.failure === null && at >= pod.readyAt;
+  }
+
+  private replicaSetOf(state: SimDeployment, pod: SimPod): SimReplicaSet {
+    return state.replicaSets.find(replicaSet => replicaSet.name === pod.replicaSet) ?? state.current;
+  }
+
+  private toContainerStatuses(state: SimDeployment, pod: SimPod, now: number): ContainerStatus[] {
+    const ready = this.isReady(pod, now);
+    return templateContainers(this.replicaSetOf(state, pod).template).map(container => {
+      let containerState: ContainerStatus["state"] = "running";
+      let reason: string | null = null;
+
+      if (pod.failure === "ImagePullBackOff" && now >= pod.startedAt) {
+        containerState = "waiting";
+        reason = "ImagePullBackOff";
+      } else if (now < pod.startedAt) {
+        containerState = "waiting";
+        reason = "ContainerCreating";
+      } else if (pod.failure === "CrashLoopBackOff" && restarts(pod) > 0) {
+        containerState = "waiting";
+        reason = "CrashLoopBackOff";
+      }
+
+      return {
+        name: container.name,
+        ready,
+        restartCount: restarts(pod),
+        state: containerState,
+        reason,
+        lastTerminationReason: restarts(pod) > 0 ? "Error" : null,
+      };
+    });
+  }
+
+  private toPodStatus(state: SimDeployment, pod: SimPod, now: number): PodStatus {
+    const containers = this.toContainerStatuses(state, pod, now);
+    const phase = podPhase(pod, now);
+    const reason = containers.map(container => container.reason).find(Boolean) ?? null;
+    const terminating = pod.deletedAt !== null;
+
+    return {
+      name: pod.name,
+      startTime: new Date(pod.createdAt).toISOString(),
+      phase,
+      status: terminating ? "Terminating" : reason ?? phase,
+      ready: this.isReady(pod, now),
+      readyContainers: containers.filter(container => container.ready).length,
+      totalContainers: containers.length,
+      containers,
+      restarts: containers.reduce((total, container) => total + container.restartCount, 0),
+      reason,
+      node: pod.node,
+      podIP: now >= pod.startedAt ? pod.podIP : null,
+      revision: String(this.replicaSetOf(state, pod).revision),
+      terminating,
+    };
+  }
+
+  private toRolloutPod(pod: SimPod, now: number): RolloutPod {
+    const reason = now < pod.startedAt
+      ? "ContainerCreating"
+      : pod.failure === "ImagePullBackOff" || (pod.failure === "CrashLoopBackOff" && restarts(pod) > 0)
+        ? pod.failure
+        : null;
+
+    return {
+      name: pod.name,
+      phase: podPhase(pod, now),
+      ready: this.isReady(pod, now),
+      createdAt: new Date(pod.createdAt).toISOString(),
+      terminating: pod.deletedAt !== null,
+      reason,
+    };
+  }
+
+  private renderLogs(state: SimDeployment, pod: SimPod, previous: boolean, tailLines: number, now: number): string {
+    const image = templateContainers(this.replicaSetOf(state, pod).template)[0]?.image ?? "unknown";
+    const stamp = (at: number) => new Date(at).toISOString();
+
+    if (now < pod.startedAt || pod.failure === "ImagePullBackOff") {
+      return "";
+    }
+
+    const startedAt = pod.failure === "CrashLoopBackOff"
+      ? pod.startedAt + (previous ? restarts(pod) - 1 : restarts(pod)) * this.timing.crashIntervalMs
+      : pod.startedAt;
+
+    const lines = [
+      `${stamp(startedAt)} INFO starting ${image}`,
+      `${stamp(startedAt)} INFO config loaded: db_user=${state.target.deployment} password=sim-not-a-secret`,
+    ];
+
+    if (pod.failure === "CrashLoopBackOff") {
+      lines.push(`${stamp(startedAt + 200)} INFO connecting to database at db.${state.target.namespace}.svc:5432`);
+      lines.push(`${stamp(startedAt + 1200)} ERROR dial tcp: connection refused`);
+      lines.push(`${stamp(startedAt + 1200)} FATAL giving up after 3 attempts, exiting with code 1`);
+      return lines.join("\n") + "\n";
+    }
+
+    lines.push(`${stamp(startedAt + 500)} INFO listening on :8080`);
+    const end = pod.deletedAt ?? now;
+    const requests = Math.max(0, Math.floor((end - pod.readyAt) / LOG_INTERVAL_MS));
+    for (let index = Math.max(0, requests - tailLines); index < requests; index++) {
+      const at = pod.readyAt + (index + 1) * LOG_INTERVAL_MS;
+      lines.push(`${stamp(at)} INFO GET /healthz 200 ${1 + (index % 7)}ms`);
+    }
+    if (pod.deletedAt !== null) {
+      lines.push(`${stamp(pod.deletedAt)} INFO received SIGTERM, draining connections`);
+    }
+    return lines.join("\n") + "\n";
+  }
+}
+
+
+/**
+ * Simulator settings from the environment: SIMULATOR_STARTUP_MS,
+ * SIMULATOR_READINESS_MS, SIMULATOR_TERMINATION_MS, SIMULATOR_POD_FAILURE_RATE,
+ * SIMULATOR_POD_FAILURE_REASON, SIMULATOR_API_ERROR_RATE and
+ * SIMULATOR_METRICS=false.
+ */
+export function getSimulatorOptions(): SimulatorOptions {
+  const timing: Partial<SimulatorTiming> = {};
+  const startupMs = numberEnv("SIMULATOR_STARTUP_MS");
+  const readinessMs = numberEnv("SIMULATOR_READINESS_MS");
+  const terminationMs = numberEnv("SIMULATOR_TERMINATION_MS");
+  if (startupMs !== undefined) {
+    timing.startupMs = startupMs;
+  }
+  if (readinessMs !== undefined) {
+    timing.readinessMs = readinessMs;
+  }
+  if (terminationMs !== undefined) {
+    timing.terminationMs = terminationMs;
+  }
+
+  const reason = process.env.SIMULATOR_POD_FAILURE_REASON;
+
+  return {
+    timing,
+    failures: {
+      podFailureRate: fractionEnv("SIMULATOR_POD_FAILURE_RATE"),
+      podFailureReason: reason === "ImagePullBackOff" ? "ImagePullBackOff" : "CrashLoopBackOff",
+      apiErrorRate: fractionEnv("SIMULATOR_API_ERROR_RATE"),
+    },
+    metricsAvailable: process.env.SIMULATOR_METRICS !== "false",
+  };
+}
+
+
+function allPods(state: SimDeployment): SimPod[] {
+  return state.replicaSets.flatMap(replicaSet => replicaSet.pods);
+}
+
+
+function livePods(state: SimDeployment): SimPod[] {
+  return allPods(state).filter(pod => pod.deletedAt === null);
+}
+
+
+function toRevisions(state: SimDeployment): RolloutRevision[] {
+  return state.replicaSets
+    .map(replicaSet => ({
+      revision: replicaSet.revision,
+      replicaSet: replicaSet.name,
+      changeCause: replicaSet.changeCause,
+      images: templateContainers(replicaSet.template).map(container => container.image ?? "unknown"),
+      createdAt: new Date(replicaSet.createdAt).toISOString(),
+      replicas: replicaSet.pods.filter(pod => pod.deletedAt === null).length,
+      current: replicaSet === state.current,
+    }))
+    .sort((a, b) => b.revision - a.revision);
+}
+
+
+function restarts(pod: SimPod): number {
+  return pod.failure === "CrashLoopBackOff" ? pod.backoffs : 0;
+}
+
+
+function resolveRollback(
+  state: SimDeployment,
+  revision: number | undefined,
+  executionId?: string
+): { chosen: RolloutRevision; template: PodTemplate } {
+  const { deployment, namespace } = state.target;
+  const revisions = toRevisions(state);
+  const chosen = selectRevision(revisions, revision);
+
+  if (!chosen) {
+    throw new KubernetesError(
+      revision === undefined
+        ? `Deployment ${deployment} has no earlier revision to roll back to.`
+        : `Revision ${revision} not found for deployment ${deployment}.`,
+      executionId,
+      { deployment, namespace, requestedRevision: revision, availableRevisions: revisions.map(entry => entry.revision) }
+    );
+  }
+
+  const replicaSet = state.replicaSets.find(candidate => candidate.name === chosen.replicaSet);
+  return { chosen, template: cloneTemplate(replicaSet?.template ?? state.template) };
+}
+
+
+function withRestartedAt(template: PodTemplate, restartedAt: string): PodTemplate {
+  const restarted = cloneTemplate(template);
+  restarted.metadata = {
+    ...restarted.metadata,
+    annotations: { ...restarted.metadata?.annotations, [RESTARTED_AT_ANNOTATION]: restartedAt },
+  };
+  return restarted;
+}
+
+
+function podPhase(pod: SimPod, now: number): string {
+  return now < pod.startedAt || pod.failure === "ImagePullBackOff" ? "Pending" : "Running";
+}
+
+
+function templateContainers(template: PodTemplate): ContainerTemplate[] {
+  return template.spec?.containers ?? [];
+}
+
+
+function defaultTemplate(deployment: string, version: string): PodTemplate {
+  return {
+    metadata: { labels: { app: deployment } },
+    spec: {
+      containers: [
+        {
+          name: deployment,
+          image: `${deployment}:${version}`,
+          resources: {
+            requests: { cpu: "100m", memory: "128Mi" },
+            limits: { cpu: "500m", memory: "256Mi" },
+          },
+        },
+      ],
+    },
+  };
+}
+
+
+function cloneTemplate(template: PodTemplate): PodTemplate {
+  return JSON.parse(JSON.stringify(template));
+}
+
+
+function templateHash(template: PodTemplate): string {
+  return crypto.createHash("sha256").update(JSON.stringify(template)).digest("hex").slice(0, 10);
+}
+
+
+function randomSuffix(random: () => number): string {
+  const alphabet = "bcdfghjklmnpqrstvwxz2456789";
+  return Array.from({ length: 5 }, () => alphabet[Math.floor(random() * alphabet.length)]).join("");
+}
+
+
+// Usage drifts slowly per pod so repeated "top" calls look alive but stable.
+function simulateSample(pod: SimPod, container: ContainerTemplate, now: number): ContainerSample {
+  const seed = parseInt(crypto.createHash("md5").update(pod.name).digest("hex").slice(0, 6), 16);
+  const wave = (Math.sin(now / 60000 + seed) + 1) / 2;
+  const cpuRequest = parseCpuMillicores(container.resources?.requests?.cpu) ?? 100;
+  const memoryRequest = parseMemoryBytes(container.resources?.requests?.memory) ?? 128 * 2 ** 20;
+
+  return {
+    name: container.name,
+    usage: {
+      cpu: `${Math.round(cpuRequest * (0.2 + 0.6 * wave))}m`,
+      memory: `${Math.round((memoryRequest / 1024) * (0.5 + 0.3 * wave))}Ki`,
+    },
+  };
+}
+
+
+function numberEnv(name: string): number | undefined {
+  const configured = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(configured) && configured >= 0 ? configured : undefined;
+}
+
+
+function fractionEnv(name: string): number {
+  return Math.min(1, numberEnv(name) ?? 0);
+}
@@ -0,0 +1,62 @@
+/**
+ * One leaf-level difference between two objects, addressed by a JSON Pointer
+ * style path such as "/spec/template/spec/containers/0/image".
+ */
+export interface SpecChange {
+  path: string;
+  op: "add" | "remove" | "replace";
+  before?: unknown;
+  after?: unknown;
+}
+
+const MAX_CHANGES = 100;
+
+
+/**
+ * Walks both objects and lists every value that was added, removed or
+ * replaced. Arrays are compared by index, which is how a patch addresses them.
+ */
+export function diffObjects(before: unknown, after: unknown, path: string = ""): SpecChange[] {
+  const changes: SpecChange[] = [];
+  collect(before, after, path, changes);
+  return changes.slice(0, MAX_CHANGES);
+}
+
+
+function collect(before: unknown, after: unknown, path: string, changes: SpecChange[]): void {
+  if (changes.length >= MAX_CHANGES) {
+    return;
+  }
+
+  if (isContainer(before) && isContainer(after) && Array.isArray(before) === Array.isArray(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      collect(
+        (before as Record<string, unknown>)[key],
+        (after as Record<string, unknown>)[key],
+        `${path}/${escapeSegment(key)}`,
+        changes
+      );
+    }
+    return;
+  }
+
+  if (before === undefined && after !== undefined) {
+    changes.push({ path, op: "add", after });
+  } else if (before !== undefined && after === undefined) {
+    changes.push({ path, op: "remove", before });
+  } else if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path, op: "replace", before, after });
+  }
+}
+
+
+function isContainer(value: unknown): value is object {
+  return typeof value === "object" && value !== null;
+}
+
+
+// RFC 6901: "~" and "/" inside keys such as annotation names are escaped.
+function escapeSegment(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
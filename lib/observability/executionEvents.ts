@@ -0,0 +1,54 @@
+export const EXECUTION_EVENT_TYPES = [
+  "enqueued",
+  "queue_position",
+  "executing",
+  "verification",
+  "completed",
+  "failed",
+  "cancelled",
+] as const;
+
+export type ExecutionEventType = (typeof EXECUTION_EVENT_TYPES)[number];
+
+export interface ExecutionStreamEvent {
+  type: ExecutionEventType;
+  commandId: string;
+  executionId: string;
+  userId: string;
+  timestamp: number;
+  data?: Record<string, unknown>;
+}
+
+type Listener = (event: ExecutionStreamEvent) => void;
+
+const listeners: Set<Listener> = new Set();
+
+
+export function publishExecutionEvent(event: Omit<ExecutionStreamEvent, "timestamp">): void {
+  const stamped: ExecutionStreamEvent = { ...event, timestamp: Date.now() };
+
+  for (const listener of listeners) {
+    try {
+      listener(stamped);
+    } catch {
+      // A broken subscriber (e.g. a closed stream) must not stop the worker.
+      listeners.delete(listener);
+    }
+  }
+}
+
+
+export function subscribeExecutionEvents(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+
+/**
+ * Lets publishers skip building events nobody is listening for.
+ */
+export function hasExecutionEventSubscribers(): boolean {
+  return listeners.size > 0;
+}
@@ -3,6 +3,8 @@
 export interface SanitizedCommand {
   action: string;
   requestedReplicas?: number;
+  deployment?: string;
+  namespace?: string;
 }
 
 export interface LastResult {
@@ -17,9 +19,33 @@ export interface LastError {
   timestamp: number;
 }
 
+export interface PriorityBandStats {
+  priority: 1 | 2 | 3;
+  count: number;
+  oldestQueuedAt: number | null;
+  users: number;
+}
+
+export interface BandStarvation {
+  priority: 1 | 2 | 3;
+  waiting: number;
+  users: number;
+  oldestWaitMs: number;
+}
+
+export interface SchedulerMetrics {
+  agingIntervalMs: number;
+  oldestWaitMs: number;
+  bands: BandStarvation[];
+  dispatched: number;
+  maxObservedWaitMs: number;
+  agedPromotions: number;
+}
+
 export interface ExecutionState {
   workerStatus: "idle" | "executing";
   queueLength: number;
+  scheduler: SchedulerMetrics;
   currentCommand: SanitizedCommand | null;
   lastResult: LastResult;
   lastError: LastError | null;
@@ -29,9 +55,32 @@ export interface ExecutionState {
 
 const startTime = Date.now();
 
+export interface QueueStats {
+  agingIntervalMs: number;
+  bands: PriorityBandStats[];
+}
+
+// Band figures are pulled from the queue at read time rather than pushed on
+// every enqueue, and waits are derived then so they keep growing.
+let queueStatsProvider: (() => QueueStats) | null = null;
+
+const dispatchStats = {
+  dispatched: 0,
+  maxObservedWaitMs: 0,
+  agedPromotions: 0,
+};
+
 const executionState: ExecutionState = {
   workerStatus: "idle",
   queueLength: 0,
+  scheduler: {
+    agingIntervalMs: 0,
+    oldestWaitMs: 0,
+    bands: [],
+    dispatched: 0,
+    maxObservedWaitMs: 0,
+    agedPromotions: 0,
+  },
   currentCommand: null,
   lastResult: {
     status: null,
@@ -48,6 +97,7 @@ export function getExecutionState(): ExecutionState {
   return {
     workerStatus: executionState.workerStatus,
     queueLength: executionState.queueLength,
+    scheduler: getSchedulerMetrics(),
     currentCommand: executionState.currentCommand ? { ...executionState.currentCommand } : null,
     lastResult: { ...executionState.lastResult },
     lastError: executionState.lastError ? { ...executionState.lastError } : null,
@@ -67,7 +117,49 @@ export function setQueueLength(length: number): void {
 }
 
 
-export function setCurrentCommand(command: { parsed?: { action?: string; targetReplicas?: number } } | null): void {
+export function registerQueueStats(provider: () => QueueStats): void {
+  queueStatsProvider = provider;
+}
+
+
+/**
+ * Called for every dequeue. `promoted` means aging let this command run while
+ * a higher priority band still had work waiting.
+ */
+export function recordDispatch(waitMs: number, promoted: boolean): void {
+  dispatchStats.dispatched++;
+  dispatchStats.maxObservedWaitMs = Math.max(dispatchStats.maxObservedWaitMs, waitMs);
+  if (promoted) {
+    dispatchStats.agedPromotions++;
+  }
+}
+
+
+function getSchedulerMetrics(): SchedulerMetrics {
+  const now = Date.now();
+  const stats = queueStatsProvider ? queueStatsProvider() : { agingIntervalMs: 0, bands: [] };
+  const bands = stats.bands.map(band => ({
+    priority: band.priority,
+    waiting: band.count,
+    users: band.users,
+    oldestWaitMs: band.oldestQueuedAt === null ? 0 : Math.max(0, now - band.oldestQueuedAt),
+  }));
+
+  return {
+    agingIntervalMs: stats.agingIntervalMs,
+    oldestWaitMs: bands.reduce((oldest, band) => Math.max(oldest, band.oldestWaitMs), 0),
+    bands,
+    dispatched: dispatchStats.dispatched,
+    maxObservedWaitMs: dispatchStats.maxObservedWaitMs,
+    agedPromotions: dispatchStats.agedPromotions,
+  };
+}
+
+
+export function setCurrentCommand(command: {
+  parsed?: { action?: string; targetReplicas?: number };
+  target?: { deployment: string; namespace: string };
+} | null): void {
   if (!command) {
     executionState.currentCommand = null;
     return;
@@ -76,6 +168,8 @@ export function setCurrentCommand(command: { parsed?: { action?: string; targetR
   executionState.currentCommand = {
     action: command.parsed?.action || "unknown",
     requestedReplicas: command.parsed?.targetReplicas || undefined,
+    deployment: command.target?.deployment,
+    namespace: command.target?.namespace,
   };
 }
 
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "bun:test";
+import { ScheduledCommand } from "../scheduler/types";
+import {
+  createExecutionRecord,
+  getExecutionRecord,
+  getExecutionWindow,
+  markExecutionCancelled,
+  markExecutionCompleted,
+  markExecutionFailed,
+  recordExecutionEvent,
+} from "./executionStore";
+
+// Matches MAX_RECORDS in executionStore.ts.
+const MAX_RECORDS = 500;
+
+
+function command(id: string, timestamp: number = 1000): ScheduledCommand {
+  return {
+    id,
+    executionId: `exec-${id}`,
+    userId: "user-1",
+    priority: 2,
+    timestamp,
+    target: { deployment: "web", namespace: "prod" },
+    parsed: { type: "EXECUTE", action: "SCALE", targetReplicas: 3, rawText: "scale web to 3" },
+  };
+}
+
+
+describe("executionStore", () => {
+  it("finds a record by command id or execution id", () => {
+    createExecutionRecord(command("lookup"));
+
+    expect(getExecutionRecord("lookup")?.executionId).toBe("exec-lookup");
+    expect(getExecutionRecord("exec-lookup")?.commandId).toBe("lookup");
+    expect(getExecutionRecord("missing")).toBeNull();
+  });
+
+
+  it("hands out copies", () => {
+    createExecutionRecord(command("copy"));
+    const record = getExecutionRecord("copy");
+    if (record) {
+      record.events.push({ phase: "failed", timestamp: 0, message: "edited" });
+      record.target.namespace = "edited";
+    }
+
+    expect(getExecutionRecord("copy")?.events).toHaveLength(1);
+    expect(getExecutionRecord("copy")?.target.namespace).toBe("prod");
+  });
+
+
+  it("tracks the lifecycle and the window it ran in", () => {
+    createExecutionRecord(command("life", 1000));
+    expect(getExecutionRecord("life")?.status).toBe("PENDING");
+
+    recordExecutionEvent("life", "started", "Execution started", undefined, 2000);
+    recordExecutionEvent("life", "authorized", "Policies passed", undefined, 2100);
+    const running = getExecutionRecord("life");
+    expect(running?.status).toBe("RUNNING");
+    expect(running?.startedAt).toBe(2000);
+    expect(running && getExecutionWindow(running)).toEqual({ since: 2000, until: undefined });
+
+    markExecutionFailed("life", "VerificationError", "pods not ready", 5000);
+    const failed = getExecutionRecord("life");
+    expect(failed?.status).toBe("FAILED");
+    expect(failed?.error).toEqual({ type: "VerificationError", message: "pods not ready" });
+    expect(failed?.events.map(event => event.phase)).toEqual(["queued", "started", "authorized", "failed"]);
+    expect(failed && getExecutionWindow(failed)).toEqual({ since: 2000, until: 5000 });
+  });
+
+
+  it("says who cancelled a command", () => {
+    createExecutionRecord(command("mine"));
+    createExecutionRecord(command("theirs"));
+    markExecutionCancelled("mine", "user-1", 3000);
+    markExecutionCancelled("theirs", "admin-1", 3000);
+
+    expect(getExecutionRecord("mine")?.events.at(-1)?.message).toBe("Command cancelled by its owner");
+    expect(getExecutionRecord("theirs")?.events.at(-1)?.message).toBe("Command cancelled by admin-1");
+    expect(getExecutionRecord("theirs")?.status).toBe("CANCELLED");
+  });
+
+
+  it("ignores events for unknown commands", () => {
+    recordExecutionEvent("ghost", "started", "Execution started");
+    expect(getExecutionRecord("ghost")).toBeNull();
+  });
+
+
+  it("evicts the oldest finished records first and keeps unfinished ones", () => {
+    createExecutionRecord(command("evict-pending"));
+    for (let index = 0; index < MAX_RECORDS; index++) {
+      createExecutionRecord(command(`evict-${index}`));
+      markExecutionCompleted(`evict-${index}`, {
+        executionId: `exec-evict-${index}`,
+        commandId: `evict-${index}`,
+        deployment: "web",
+        namespace: "prod",
+        replicas: 3,
+        readyReplicas: 3,
+        pods: 3,
+        verifiedAt: new Date(0).toISOString(),
+        durationMs: 10,
+      });
+    }
+    createExecutionRecord(command("evict-last"));
+
+    // Seven records too many: the three finished by earlier tests go first, then evict-0 to evict-3.
+    for (const id of ["life", "mine", "theirs", "evict-0", "evict-3"]) {
+      expect(getExecutionRecord(id)).toBeNull();
+    }
+    expect(getExecutionRecord("exec-life")).toBeNull();
+    expect(getExecutionRecord("evict-4")?.status).toBe("SUCCESS");
+    expect(getExecutionRecord("lookup")?.status).toBe("PENDING");
+    expect(getExecutionRecord("evict-pending")?.status).toBe("PENDING");
+    expect(getExecutionRecord("evict-last")).not.toBeNull();
+  });
+});
@@ -0,0 +1,315 @@
+import { DeploymentTarget, PriorityLevel, ScheduledCommand } from "../scheduler/types";
+import type { RolloutReport } from "../k8s/rollout";
+import type { DeploymentEvent, EventWindow } from "../k8s/events";
+
+export type CommandStatus = "PENDING" | "RUNNING" | "SUCCESS" | "FAILED" | "INTERRUPTED" | "CANCELLED";
+
+export type ExecutionPhase =
+  | "queued"
+  | "started"
+  | "authorized"
+  | "k8s_call"
+  | "verification"
+  | "rollback"
+  | "completed"
+  | "failed"
+  | "interrupted"
+  | "cancelled";
+
+export interface ExecutionEvent {
+  phase: ExecutionPhase;
+  timestamp: number;
+  message: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ExecutionProof {
+  executionId: string;
+  commandId: string;
+  deployment: string;
+  namespace: string;
+  replicas: number;
+  readyReplicas: number;
+  pods: number;
+  verifiedAt: string;
+  durationMs: number;
+}
+
+/**
+ * Outcome of the compensating rollback after a failed verification.
+ * "unverified" means the restore was applied but did not converge in time.
+ */
+export interface RollbackRecord {
+  status: "succeeded" | "unverified" | "failed";
+  reason: string;
+  replicas: number;
+  fromRevision: string | null;
+  toRevision: string | null;
+  summary?: string;
+  error?: string;
+  completedAt: number;
+}
+
+export interface ExecutionRecord {
+  commandId: string;
+  executionId: string;
+  userId: string;
+  // The API token the command was submitted with, if any.
+  tokenId?: string;
+  action?: string;
+  target: DeploymentTarget;
+  requestedReplicas?: number;
+  priority: PriorityLevel;
+  status: CommandStatus;
+  queuedAt: number;
+  startedAt?: number;
+  completedAt?: number;
+  events: ExecutionEvent[];
+  error?: { type: string; message: string };
+  proof?: ExecutionProof;
+  verification?: RolloutReport;
+  rollback?: RollbackRecord;
+  // Kubernetes Events seen while the command ran, oldest first.
+  kubernetesEvents?: DeploymentEvent[];
+}
+
+const MAX_RECORDS = 500;
+
+const records: Map<string, ExecutionRecord> = new Map();
+
+const executionIndex: Map<string, string> = new Map();
+
+
+export function createExecutionRecord(cmd: ScheduledCommand): ExecutionRecord {
+  const record: ExecutionRecord = {
+    commandId: cmd.id,
+    executionId: cmd.executionId,
+    userId: cmd.userId,
+    tokenId: cmd.tokenId,
+    action: cmd.parsed.action,
+    target: { ...cmd.target },
+    requestedReplicas: cmd.parsed.targetReplicas,
+    priority: cmd.priority,
+    status: "PENDING",
+    queuedAt: cmd.timestamp,
+    events: [
+      {
+        phase: "queued",
+        timestamp: cmd.timestamp,
+        message: "Command accepted and queued",
+        metadata: { priority: cmd.priority },
+      },
+    ],
+  };
+
+  records.set(cmd.id, record);
+  executionIndex.set(cmd.executionId, cmd.id);
+  evictOldRecords();
+
+  return cloneRecord(record);
+}
+
+
+/**
+ * Looks a record up by commandId or executionId; callers hold either one
+ * depending on whether they came from the chat response or the logs.
+ */
+export function getExecutionRecord(id: string): ExecutionRecord | null {
+  const record = records.get(id) ?? records.get(executionIndex.get(id) ?? "");
+  return record ? cloneRecord(record) : null;
+}
+
+
+export function recordExecutionEvent(
+  commandId: string,
+  phase: ExecutionPhase,
+  message: string,
+  metadata?: Record<string, unknown>,
+  timestamp: number = Date.now()
+): void {
+  const record = records.get(commandId);
+  if (!record) {
+    return;
+  }
+
+  record.events.push({ phase, timestamp, message, metadata });
+
+  if (phase === "started") {
+    record.status = "RUNNING";
+    record.startedAt = timestamp;
+  }
+}
+
+
+export function recordVerificationReport(commandId: string, report: RolloutReport): void {
+  const record = records.get(commandId);
+  if (!record) {
+    return;
+  }
+
+  record.verification = report;
+}
+
+
+export function recordRollback(commandId: string, rollback: RollbackRecord): void {
+  const record = records.get(commandId);
+  if (!record) {
+    return;
+  }
+
+  record.rollback = rollback;
+}
+
+
+export function recordKubernetesEvents(commandId: string, events: DeploymentEvent[]): void {
+  const record = records.get(commandId);
+  if (!record) {
+    return;
+  }
+
+  record.kubernetesEvents = events;
+}
+
+
+/**
+ * The span a command was live for, used to narrow Kubernetes Events to the
+ * ones it caused. Still-running commands are open-ended.
+ */
+export function getExecutionWindow(record: ExecutionRecord): EventWindow {
+  return {
+    since: record.startedAt ?? record.queuedAt,
+    until: record.completedAt,
+  };
+}
+
+
+export function markExecutionCompleted(commandId: string, proof: ExecutionProof, now: number = Date.now()): void {
+  const record = records.get(commandId);
+  if (!record) {
+    return;
+  }
+
+  record.status = "SUCCESS";
+  record.completedAt = now;
+  record.proof = proof;
+  record.events.push({
+    phase: "completed",
+    timestamp: record.completedAt,
+    message: `Command ${record.action} completed successfully`,
+  });
+}
+
+
+export function markExecutionFailed(commandId: string, type: string, message: string, now: number = Date.now()): void {
+  const record = records.get(commandId);
+  if (!record) {
+    return;
+  }
+
+  record.status = "FAILED";
+  record.completedAt = now;
+  record.error = { type, message };
+  record.events.push({
+    phase: "failed",
+    timestamp: record.completedAt,
+    message,
+    metadata: { errorType: type },
+  });
+}
+
+
+/**
+ * For commands that were running when the process died. The Kubernetes call
+ * may or may not have landed, so this is neither a success nor a failure.
+ */
+export function markExecutionInterrupted(commandId: string, message: string, now: number = Date.now()): void {
+  const record = records.get(commandId);
+  if (!record) {
+    return;
+  }
+
+  record.status = "INTERRUPTED";
+  record.completedAt = now;
+  record.error = { type: "Interrupted", message };
+  record.events.push({
+    phase: "interrupted",
+    timestamp: record.completedAt,
+    message,
+  });
+}
+
+
+export function markExecutionCancelled(commandId: string, cancelledBy: string, now: number = Date.now()): void {
+  const record = records.get(commandId);
+  if (!record) {
+    return;
+  }
+
+  const byOwner = cancelledBy === record.userId;
+
+  record.status = "CANCELLED";
+  record.completedAt = now;
+  record.events.push({
+    phase: "cancelled",
+    timestamp: record.completedAt,
+    message: byOwner ? "Command cancelled by its owner" : `Command cancelled by ${cancelledBy}`,
+    metadata: { cancelledBy },
+  });
+}
+
+
+export function markExecutionReprioritized(commandId: string, priority: PriorityLevel, changedBy: string, now: number = Date.now()): void {
+  const record = records.get(commandId);
+  if (!record) {
+    return;
+  }
+
+  const previous = record.priority;
+
+  record.priority = priority;
+  record.events.push({
+    phase: "queued",
+    timestamp: now,
+    message: `Priority changed from ${previous} to ${priority}`,
+    metadata: { previousPriority: previous, priority, changedBy },
+  });
+}
+
+
+function evictOldRecords(): void {
+  if (records.size <= MAX_RECORDS) {
+    return;
+  }
+
+  // Maps iterate in insertion order, so the first finished record is the oldest.
+  for (const [commandId, record] of records) {
+    if (records.size <= MAX_RECORDS) {
+      break;
+    }
+    if (isFinished(record)) {
+      records.delete(commandId);
+      executionIndex.delete(record.executionId);
+    }
+  }
+}
+
+
+function isFinished(record: ExecutionRecord): boolean {
+  return record.status !== "PENDING" && record.status !== "RUNNING";
+}
+
+
+function cloneRecord(record: ExecutionRecord): ExecutionRecord {
+  return {
+    ...record,
+    target: { ...record.target },
+    events: record.events.map(event => ({ ...event })),
+    error: record.error ? { ...record.error } : undefined,
+    proof: record.proof ? { ...record.proof } : undefined,
+    verification: record.verification
+      ? { ...record.verification, podReasons: { ...record.verification.podReasons } }
+      : undefined,
+    rollback: record.rollback ? { ...record.rollback } : undefined,
+    kubernetesEvents: record.kubernetesEvents?.map(event => ({ ...event, objects: [...event.objects] })),
+  };
+}
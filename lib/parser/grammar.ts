@@ -0,0 +1,261 @@
+import { ParsedCommand } from "../scheduler/types";
+
+export type GrammarElement =
+  | { kind: "keyword"; words: string[]; capture?: string }
+  | { kind: "number"; capture: string; label: string }
+  | { kind: "identifier"; capture: string; label: string; pattern?: RegExp }
+  | { kind: "optional"; elements: GrammarElement[] };
+
+export type Captures = Record<string, number | string>;
+
+export interface GrammarRule {
+  name: string;
+  elements: GrammarElement[];
+  simulatable: boolean;
+  build(captures: Captures): Omit<ParsedCommand, "rawText">;
+}
+
+function keyword(...words: string[]): GrammarElement {
+  return { kind: "keyword", words };
+}
+
+function choice(capture: string, ...words: string[]): GrammarElement {
+  return { kind: "keyword", words, capture };
+}
+
+function number(capture: string, label: string = capture): GrammarElement {
+  return { kind: "number", capture, label };
+}
+
+function identifier(capture: string, label: string = capture, pattern?: RegExp): GrammarElement {
+  return { kind: "identifier", capture, label, pattern };
+}
+
+function optional(...elements: GrammarElement[]): GrammarElement {
+  return { kind: "optional", elements };
+}
+
+// "<deployment>", "in <namespace>" or "<deployment> in <namespace>", all optional.
+const TARGET: GrammarElement[] = [
+  optional(identifier("deployment")),
+  optional(keyword("in"), identifier("namespace")),
+];
+
+function buildTarget(captures: Captures): Pick<ParsedCommand, "target"> {
+  const deployment = captures.deployment as string | undefined;
+  const namespace = captures.namespace as string | undefined;
+  if (!deployment && !namespace) {
+    return {};
+  }
+  return { target: { deployment, namespace } };
+}
+
+// Command IDs as issued by /api/chat, e.g. "cmd_m1x2y3_ab12cd".
+const COMMAND_ID = identifier("commandId", "command id", /^cmd_[a-z0-9]+_[a-z0-9]+$/);
+
+const MULTIPLIERS: Map<string, number> = new Map([
+  ["double", 2],
+  ["triple", 3],
+  ["halve", 0.5],
+]);
+
+const COMMAND_RULES: GrammarRule[] = [
+  {
+    name: "help",
+    elements: [keyword("help")],
+    simulatable: false,
+    build: () => ({ type: "HELP" }),
+  },
+  {
+    name: "status",
+    elements: [optional(keyword("show", "get")), keyword("status"), ...TARGET],
+    simulatable: false,
+    build: captures => ({ type: "READ", query: "STATUS", ...buildTarget(captures) }),
+  },
+  {
+    name: "pods",
+    elements: [optional(keyword("show", "get", "list")), keyword("pods"), ...TARGET],
+    simulatable: false,
+    build: captures => ({ type: "READ", query: "PODS", ...buildTarget(captures) }),
+  },
+  {
+    name: "history",
+    elements: [optional(keyword("show", "get")), optional(keyword("rollout")), keyword("history"), ...TARGET],
+    simulatable: false,
+    build: captures => ({ type: "READ", query: "HISTORY", ...buildTarget(captures) }),
+  },
+  {
+    name: "events",
+    elements: [optional(keyword("show", "get", "list")), keyword("events"), ...TARGET],
+    simulatable: false,
+    build: captures => ({ type: "READ", query: "EVENTS", ...buildTarget(captures) }),
+  },
+  {
+    name: "events-for-command",
+    elements: [optional(keyword("show", "get", "list")), keyword("events"), optional(keyword("for")), COMMAND_ID],
+    simulatable: false,
+    build: captures => ({ type: "READ", query: "EVENTS", commandId: captures.commandId as string }),
+  },
+  {
+    name: "top",
+    elements: [keyword("top"), optional(keyword("pods")), ...TARGET],
+    simulatable: false,
+    build: captures => ({ type: "READ", query: "TOP", ...buildTarget(captures) }),
+  },
+  {
+    name: "logs",
+    elements: [
+      keyword("logs", "log"),
+      optional(identifier("name", "deployment or pod")),
+      optional(keyword("in"), identifier("namespace")),
+      optional(keyword("--tail", "tail"), number("tail", "line count")),
+      optional(choice("previous", "--previous", "previous", "-p")),
+    ],
+    simulatable: false,
+    build: captures => ({
+      type: "READ",
+      query: "LOGS",
+      logs: {
+        name: captures.name as string | undefined,
+        tailLines: captures.tail as number | undefined,
+        previous: captures.previous !== undefined,
+      },
+      ...(captures.namespace ? { target: { namespace: captures.namespace as string } } : {}),
+    }),
+  },
+  {
+    name: "scale",
+    elements: [
+      keyword("scale"),
+      ...TARGET,
+      keyword("to"),
+      number("replicas"),
+      optional(keyword("replicas", "replica")),
+    ],
+    simulatable: true,
+    build: captures => ({
+      type: "EXECUTE",
+      action: "SCALE",
+      targetReplicas: captures.replicas as number,
+      scale: { kind: "absolute", replicas: captures.replicas as number },
+      ...buildTarget(captures),
+    }),
+  },
+  {
+    name: "scale-relative",
+    elements: [
+      keyword("scale"),
+      ...TARGET,
+      choice("direction", "up", "down"),
+      optional(optional(keyword("by")), number("amount")),
+      optional(keyword("replicas", "replica")),
+    ],
+    simulatable: true,
+    build: captures => {
+      const amount = (captures.amount as number | undefined) ?? 1;
+      return {
+        type: "EXECUTE",
+        action: "SCALE",
+        scale: { kind: "relative", delta: captures.direction === "down" ? -amount : amount },
+        ...buildTarget(captures),
+      };
+    },
+  },
+  {
+    name: "scale-multiply",
+    elements: [
+      choice("multiplier", ...MULTIPLIERS.keys()),
+      ...TARGET,
+      optional(keyword("replicas")),
+    ],
+    simulatable: true,
+    build: captures => ({
+      type: "EXECUTE",
+      action: "SCALE",
+      scale: { kind: "multiply", factor: MULTIPLIERS.get(captures.multiplier as string) as number },
+      ...buildTarget(captures),
+    }),
+  },
+  {
+    name: "restart",
+    elements: [keyword("restart"), ...TARGET],
+    simulatable: true,
+    build: captures => ({ type: "EXECUTE", action: "RESTART", ...buildTarget(captures) }),
+  },
+  {
+    name: "rollback",
+    elements: [
+      keyword("rollback", "undo"),
+      ...TARGET,
+      optional(keyword("to"), optional(keyword("revision")), number("revision")),
+    ],
+    simulatable: true,
+    build: captures => ({
+      type: "EXECUTE",
+      action: "ROLLBACK",
+      revision: captures.revision as number | undefined,
+      ...buildTarget(captures),
+    }),
+  },
+  {
+    name: "cancel",
+    elements: [keyword("cancel"), optional(keyword("command")), COMMAND_ID],
+    simulatable: false,
+    build: captures => ({ type: "QUEUE", queueAction: "CANCEL", commandId: captures.commandId as string }),
+  },
+  {
+    name: "reprioritize",
+    elements: [
+      keyword("reprioritize", "prioritize"),
+      optional(keyword("command")),
+      COMMAND_ID,
+      keyword("to"),
+      number("priority"),
+    ],
+    simulatable: false,
+    build: captures => ({
+      type: "QUEUE",
+      queueAction: "REPRIORITIZE",
+      commandId: captures.commandId as string,
+      priority: captures.priority as number,
+    }),
+  },
+];
+
+const DRY_RUN_PREFIXES: GrammarElement[][] = [
+  [keyword("dry"), keyword("run")],
+  [keyword("simulate")],
+];
+
+// Every simulatable command is also reachable behind a dry-run prefix.
+const DRY_RUN_RULES: GrammarRule[] = DRY_RUN_PREFIXES.flatMap(prefix =>
+  COMMAND_RULES.filter(rule => rule.simulatable).map(rule => ({
+    name: `dry-run-${rule.name}`,
+    elements: [...prefix, ...rule.elements],
+    simulatable: false,
+    build: (captures: Captures) => ({
+      ...rule.build(captures),
+      type: "DRY_RUN" as const,
+    }),
+  }))
+);
+
+export const GRAMMAR: GrammarRule[] = [...COMMAND_RULES, ...DRY_RUN_RULES];
+
+/**
+ * Grammar keywords can never be read as a deployment or namespace name, so
+ * "scale to 3" is not mistaken for a deployment called "to".
+ */
+export const RESERVED_WORDS: Set<string> = new Set(GRAMMAR.flatMap(rule => keywordsOf(rule.elements)));
+
+function keywordsOf(elements: GrammarElement[]): string[] {
+  return elements.flatMap(element => {
+    if (element.kind === "keyword") {
+      return element.words;
+    }
+    if (element.kind === "optional") {
+      return keywordsOf(element.elements);
+    }
+    return [];
+  });
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "bun:test";
+import { parseCommand } from "./parseCommand";
+
+
+function parsed(input: string) {
+  const result = parseCommand(input);
+  if (!result.ok) {
+    throw new Error(`"${input}" did not parse: ${result.error.message}`);
+  }
+  return result.command;
+}
+
+
+function failed(input: string) {
+  const result = parseCommand(input);
+  if (result.ok) {
+    throw new Error(`"${input}" parsed as ${result.command.type}`);
+  }
+  return result.error;
+}
+
+
+describe("parseCommand", () => {
+  it("parses a scale with a target and trailing words", () => {
+    expect(parsed("Scale web in prod to 3 replicas")).toEqual({
+      type: "EXECUTE",
+      action: "SCALE",
+      targetReplicas: 3,
+      scale: { kind: "absolute", replicas: 3 },
+      target: { deployment: "web", namespace: "prod" },
+      rawText: "scale web in prod to 3 replicas",
+    });
+  });
+
+
+  it("reads number words and relative and multiplied scales", () => {
+    expect(parsed("scale web to five").targetReplicas).toBe(5);
+    expect(parsed("scale web down by 2").scale).toEqual({ kind: "relative", delta: -2 });
+    expect(parsed("scale up").scale).toEqual({ kind: "relative", delta: 1 });
+    expect(parsed("halve api").scale).toEqual({ kind: "multiply", factor: 0.5 });
+  });
+
+
+  it("does not read a keyword as a deployment name", () => {
+    expect(parsed("scale to 3").target).toBeUndefined();
+  });
+
+
+  it("parses reads, queue actions and dry runs", () => {
+    expect(parsed("show pods in staging")).toMatchObject({ type: "READ", query: "PODS", target: { namespace: "staging" } });
+    expect(parsed("logs web --tail 50 -p").logs).toEqual({ name: "web", tailLines: 50, previous: true });
+    expect(parsed("rollback web to revision 4")).toMatchObject({ action: "ROLLBACK", revision: 4 });
+    expect(parsed("cancel cmd_abc123_de45")).toMatchObject({ type: "QUEUE", queueAction: "CANCEL", commandId: "cmd_abc123_de45" });
+    expect(parsed("reprioritize cmd_abc123_de45 to 1")).toMatchObject({ queueAction: "REPRIORITIZE", priority: 1 });
+    expect(parsed("dry run restart web")).toMatchObject({ type: "DRY_RUN", action: "RESTART" });
+    expect(parsed("simulate scale web to 2")).toMatchObject({ type: "DRY_RUN", action: "SCALE", targetReplicas: 2 });
+  });
+
+
+  it("points at the unexpected token and lists what would fit", () => {
+    const error = failed("scale web to lots");
+    expect(error.token).toBe("lots");
+    expect(error.tokenIndex).toBe(3);
+    expect(error.position).toBe(13);
+    expect(error.expected).toEqual(["<replicas>"]);
+    expect(error.message).toBe('Unexpected "lots" at position 14. Expected <replicas>.');
+  });
+
+
+  it("reports empty and incomplete commands", () => {
+    expect(failed("   ").message).toStartWith("Empty command.");
+
+    const incomplete = failed("scale web to");
+    expect(incomplete.token).toBeNull();
+    expect(incomplete.message).toBe('Incomplete command. Expected <replicas> after "scale web to".');
+    expect(incomplete.suggestions).toEqual([]);
+  });
+
+
+  it("suggests only corrected commands that parse", () => {
+    expect(failed("restrat web").suggestions).toEqual(["restart web"]);
+    expect(failed("scale web tp 3").suggestions).toEqual(["scale web to 3", "scale web up 3"]);
+    // "to" is as close as "up", but "scale web to" is still missing its count.
+    expect(failed("scale web tp").suggestions).toEqual(["scale web up"]);
+  });
+});
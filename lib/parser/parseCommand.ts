@@ -1,85 +1,206 @@
-import { ParsedCommand, CommandType, ExecuteAction } from "../scheduler/types";
+import { ParsedCommand } from "../scheduler/types";
+import { Captures, GRAMMAR, GrammarElement, RESERVED_WORDS } from "./grammar";
+import { Token, tokenize } from "./tokenizer";
 
+export interface CommandParseError {
+  message: string;
+  input: string;
+  tokenIndex: number;
+  position: number;
+  token: string | null;
+  expected: string[];
+  suggestions: string[];
+}
 
-export function parseCommand(input: string): ParsedCommand {
-  const rawText = input.trim().toLowerCase();
+export type ParseResult =
+  | { ok: true; command: ParsedCommand }
+  | { ok: false; error: CommandParseError };
 
-  // 1. HELP commands - detect first
-  if (rawText === "help" || rawText.includes("help")) {
-    return {
-      type: "HELP" as CommandType,
-      rawText,
-    };
-  }
+const END_OF_COMMAND = "end of command";
 
-  // 2. DRY_RUN commands - detect before EXECUTE
-  if (
-    rawText.startsWith("dry run") ||
-    rawText.includes("what happens") ||
-    rawText.includes("what if") ||
-    rawText.includes("simulate")
-  ) {
-    // Extract the actual command from dry run prefix
-    const dryRunCommand = rawText.replace(/^dry\s+run\s+/, "").trim();
-    
-    if (dryRunCommand.includes("scale")) {
-      const scaleMatch = dryRunCommand.match(/scale.*?to\s+(\d+)/i);
-      if (scaleMatch) {
-        const targetReplicas = parseInt(scaleMatch[1]);
-        if (!isNaN(targetReplicas)) {
-          return {
-            type: "DRY_RUN" as CommandType,
-            action: "SCALE" as ExecuteAction,
-            targetReplicas,
-            rawText,
-          };
-        }
-      }
-    }
-    
-    if (dryRunCommand.includes("restart")) {
+const MAX_SUGGESTION_DISTANCE = 2;
+
+// Kubernetes object names are DNS-1123 labels.
+const NAME_PATTERN = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+
+interface FailureTracker {
+  tokenIndex: number;
+  expected: Set<string>;
+}
+
+export function parseCommand(input: string): ParseResult {
+  const rawText = input.trim().toLowerCase();
+  const tokens = tokenize(rawText);
+  const failure: FailureTracker = { tokenIndex: -1, expected: new Set() };
+
+  for (const rule of GRAMMAR) {
+    const captures = matchElements(rule.elements, 0, tokens, 0, {}, failure);
+    if (captures) {
       return {
-        type: "DRY_RUN" as CommandType,
-        action: "RESTART" as ExecuteAction,
-        rawText,
+        ok: true,
+        command: { ...rule.build(captures), rawText },
       };
     }
-    
-    // Generic dry run
-    return {
-      type: "DRY_RUN" as CommandType,
-      rawText,
-    };
   }
 
-  // 3. EXECUTE commands - scale
-  if (rawText.includes("scale")) {
-    const scaleMatch = rawText.match(/scale.*?to\s+(\d+)/i);
-    if (scaleMatch) {
-      const targetReplicas = parseInt(scaleMatch[1]);
-      if (!isNaN(targetReplicas)) {
-        return {
-          type: "EXECUTE" as CommandType,
-          action: "SCALE" as ExecuteAction,
-          targetReplicas,
-          rawText,
-        };
+  return { ok: false, error: buildParseError(rawText, tokens, failure) };
+}
+
+function matchElements(
+  elements: GrammarElement[],
+  offset: number,
+  tokens: Token[],
+  position: number,
+  captures: Captures,
+  failure: FailureTracker
+): Captures | null {
+  if (offset === elements.length) {
+    if (position === tokens.length) {
+      return captures;
+    }
+    recordFailure(failure, position, [END_OF_COMMAND]);
+    return null;
+  }
+
+  const element = elements[offset];
+  const token = tokens[position];
+
+  switch (element.kind) {
+    case "keyword":
+      if (token && element.words.includes(token.text)) {
+        return matchElements(
+          elements,
+          offset + 1,
+          tokens,
+          position + 1,
+          element.capture ? { ...captures, [element.capture]: token.text } : captures,
+          failure
+        );
       }
+      recordFailure(failure, position, element.words);
+      return null;
+
+    case "number":
+      if (token && token.kind === "number" && token.value !== undefined) {
+        return matchElements(
+          elements,
+          offset + 1,
+          tokens,
+          position + 1,
+          { ...captures, [element.capture]: token.value },
+          failure
+        );
+      }
+      recordFailure(failure, position, [`<${element.label}>`]);
+      return null;
+
+    case "identifier":
+      if (token && token.kind === "word" && !RESERVED_WORDS.has(token.text) && (element.pattern ?? NAME_PATTERN).test(token.text)) {
+        return matchElements(
+          elements,
+          offset + 1,
+          tokens,
+          position + 1,
+          { ...captures, [element.capture]: token.text },
+          failure
+        );
+      }
+      recordFailure(failure, position, [`<${element.label}>`]);
+      return null;
+
+    case "optional": {
+      const withOptional = [...element.elements, ...elements.slice(offset + 1)];
+      return (
+        matchElements(withOptional, 0, tokens, position, captures, failure) ??
+        matchElements(elements, offset + 1, tokens, position, captures, failure)
+      );
     }
   }
+}
 
-  // 4. EXECUTE commands - restart
-  if (rawText.includes("restart")) {
-    return {
-      type: "EXECUTE" as CommandType,
-      action: "RESTART" as ExecuteAction,
-      rawText,
-    };
+function recordFailure(failure: FailureTracker, tokenIndex: number, expected: string[]): void {
+  if (tokenIndex > failure.tokenIndex) {
+    failure.tokenIndex = tokenIndex;
+    failure.expected = new Set();
+  }
+  if (tokenIndex === failure.tokenIndex) {
+    expected.forEach(word => failure.expected.add(word));
   }
+}
+
+function buildParseError(rawText: string, tokens: Token[], failure: FailureTracker): CommandParseError {
+  const tokenIndex = Math.max(failure.tokenIndex, 0);
+  const token = tokens[tokenIndex];
+  const expected = Array.from(failure.expected);
+
+  const message = token
+    ? `Unexpected "${token.text}" at position ${token.start + 1}. Expected ${formatExpected(expected)}.`
+    : tokens.length === 0
+      ? `Empty command. Expected ${formatExpected(expected)}.`
+      : `Incomplete command. Expected ${formatExpected(expected)} after "${rawText}".`;
 
-  // 5. READ commands - everything else
   return {
-    type: "READ" as CommandType,
-    rawText,
+    message,
+    input: rawText,
+    tokenIndex,
+    position: token ? token.start : rawText.length,
+    token: token ? token.text : null,
+    expected,
+    suggestions: token ? suggestCorrections(tokens, token, expected) : [],
   };
 }
+
+function formatExpected(expected: string[]): string {
+  const quoted = expected.map(word => (word.startsWith("<") || word === END_OF_COMMAND ? word : `"${word}"`));
+  if (quoted.length <= 1) {
+    return quoted[0] ?? END_OF_COMMAND;
+  }
+  return `${quoted.slice(0, -1).join(", ")} or ${quoted[quoted.length - 1]}`;
+}
+
+/**
+ * Replaces the failing token with each close keyword and keeps only the
+ * corrections that parse, so every suggestion is a command that would work.
+ */
+function suggestCorrections(tokens: Token[], failed: Token, expected: string[]): string[] {
+  const candidates = expected
+    .filter(word => !word.startsWith("<") && word !== END_OF_COMMAND)
+    .map(word => ({ word, distance: editDistance(failed.text, word) }))
+    .filter(({ word, distance }) => distance <= Math.min(MAX_SUGGESTION_DISTANCE, Math.floor(word.length / 2)))
+    .sort((a, b) => a.distance - b.distance);
+
+  const suggestions: string[] = [];
+  for (const { word } of candidates) {
+    const corrected = tokens.map(token => (token.index === failed.index ? word : token.text)).join(" ");
+    if (parseCommandTokens(corrected)) {
+      suggestions.push(corrected);
+    }
+  }
+  return Array.from(new Set(suggestions));
+}
+
+function parseCommandTokens(text: string): boolean {
+  const tokens = tokenize(text);
+  const failure: FailureTracker = { tokenIndex: -1, expected: new Set() };
+  return GRAMMAR.some(rule => matchElements(rule.elements, 0, tokens, 0, {}, failure) !== null);
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
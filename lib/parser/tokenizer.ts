@@ -0,0 +1,47 @@
+export type TokenKind = "word" | "number";
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+  value?: number;
+  index: number;
+  start: number;
+  end: number;
+}
+
+const TOKEN_PATTERN = /[^\s,;!?]+/g;
+
+const TRAILING_PUNCTUATION = /[.:]+$/;
+
+const NUMBER_WORDS: Map<string, number> = new Map(
+  [
+    "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten",
+    "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen", "twenty",
+  ].map((word, value) => [word, value])
+);
+
+export function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const raw = match[0].replace(TRAILING_PUNCTUATION, "");
+    if (raw.length === 0) {
+      continue;
+    }
+
+    const text = raw.toLowerCase();
+    const start = match.index ?? 0;
+    const value = /^\d+$/.test(text) ? parseInt(text, 10) : NUMBER_WORDS.get(text);
+
+    tokens.push({
+      kind: value === undefined ? "word" : "number",
+      text,
+      value,
+      index: tokens.length,
+      start,
+      end: start + raw.length,
+    });
+  }
+
+  return tokens;
+}
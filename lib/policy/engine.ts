@@ -0,0 +1,102 @@
+import { PolicyViolationError } from "../errors/userError";
+import { ManagedDeployment } from "../k8s/registry";
+import { ExecuteAction, UserRole } from "../scheduler/types";
+import { createBuiltInRules, loadPolicyConfig } from "./rules";
+
+/**
+ * What a rule gets to judge. `replicas` is the resolved target of a SCALE;
+ * it is missing when a relative change could not be resolved yet, in which
+ * case the worker evaluates again once it is.
+ */
+export interface PolicyRequest {
+  action: ExecuteAction;
+  target: ManagedDeployment;
+  role: UserRole;
+  userId: string;
+  replicas?: number;
+  now: number;
+}
+
+export interface PolicyVerdict {
+  rule: string;
+  effect: "allow" | "deny";
+  message: string;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  verdicts: PolicyVerdict[];
+  denials: PolicyVerdict[];
+}
+
+/**
+ * A named check. Returning null means the rule does not apply to the request
+ * (another action, another deployment, or nothing configured).
+ */
+export interface PolicyRule {
+  name: string;
+  describe(): string[];
+  evaluate(request: PolicyRequest): PolicyVerdict | null;
+}
+
+let builtInRules: PolicyRule[] | null = null;
+
+const extraRules: PolicyRule[] = [];
+
+
+/**
+ * Adds a rule after the built-in ones. Rules are evaluated in order and all
+ * of them run, so a decision lists every reason a command is blocked.
+ */
+export function registerPolicyRule(rule: PolicyRule): void {
+  const existing = extraRules.findIndex(candidate => candidate.name === rule.name);
+  if (existing === -1) {
+    extraRules.push(rule);
+  } else {
+    extraRules[existing] = rule;
+  }
+}
+
+
+export function getPolicyRules(): PolicyRule[] {
+  if (!builtInRules) {
+    builtInRules = createBuiltInRules(loadPolicyConfig());
+  }
+  return [...builtInRules, ...extraRules];
+}
+
+
+export function evaluatePolicies(request: PolicyRequest, rules: PolicyRule[] = getPolicyRules()): PolicyDecision {
+  const verdicts = rules
+    .map(rule => rule.evaluate(request))
+    .filter((verdict): verdict is PolicyVerdict => verdict !== null);
+  const denials = verdicts.filter(verdict => verdict.effect === "deny");
+
+  return { allowed: denials.length === 0, verdicts, denials };
+}
+
+
+export function enforcePolicies(request: PolicyRequest, executionId?: string): PolicyDecision {
+  const decision = evaluatePolicies(request);
+  if (!decision.allowed) {
+    throw new PolicyViolationError(decision.denials, executionId, {
+      action: request.action,
+      deployment: request.target.deployment,
+      namespace: request.target.namespace,
+      role: request.role,
+      replicas: request.replicas,
+      verdicts: decision.verdicts,
+    });
+  }
+  return decision;
+}
+
+
+export function describePolicies(): string[] {
+  return getPolicyRules().flatMap(rule => rule.describe());
+}
+
+
+export function formatVerdict(verdict: PolicyVerdict): string {
+  return `${verdict.effect === "allow" ? "✅" : "⛔"} ${verdict.rule}: ${verdict.message}`;
+}
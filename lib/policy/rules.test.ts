@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { evaluatePolicies, PolicyRequest } from "./engine";
+import { createBuiltInRules, loadPolicyConfig, PolicyConfig } from "./rules";
+
+const WEB = { deployment: "web", namespace: "shop", minReplicas: 1, maxReplicas: 6 };
+
+const API = { deployment: "api", namespace: "shop", minReplicas: 1, maxReplicas: 6 };
+
+const EMPTY: PolicyConfig = { freezes: [], businessHours: null, roleActions: {} };
+
+// Wednesday 2026-10-07, 10:00 in Berlin.
+const WEDNESDAY_MORNING = Date.parse("2026-10-07T08:00:00Z");
+
+const SATURDAY_MORNING = Date.parse("2026-10-10T08:00:00Z");
+
+
+function request(overrides: Partial<PolicyRequest> = {}): PolicyRequest {
+  return { action: "SCALE", target: WEB, role: "NORMAL", userId: "user-1", replicas: 3, now: WEDNESDAY_MORNING, ...overrides };
+}
+
+
+function decide(config: Partial<PolicyConfig>, overrides: Partial<PolicyRequest> = {}) {
+  return evaluatePolicies(request(overrides), createBuiltInRules({ ...EMPTY, ...config }));
+}
+
+
+function load(config: unknown): PolicyConfig {
+  process.env.POLICY_CONFIG = JSON.stringify(config);
+  return loadPolicyConfig();
+}
+
+
+afterEach(() => {
+  delete process.env.POLICY_CONFIG;
+});
+
+
+describe("replica bounds", () => {
+  it("allows counts inside the deployment's range and denies the rest", () => {
+    expect(decide({}).allowed).toBe(true);
+    expect(decide({}, { replicas: 7 }).denials.map(verdict => verdict.message)).toEqual([
+      "Invalid replica count: 7. Must be between 1 and 6 for shop/web.",
+    ]);
+    expect(decide({}, { replicas: 0 }).allowed).toBe(false);
+  });
+
+
+  it("has no say on other actions or unresolved scales", () => {
+    expect(decide({}, { action: "RESTART", replicas: undefined }).verdicts).toEqual([]);
+    expect(decide({}, { replicas: undefined }).verdicts).toEqual([]);
+  });
+});
+
+
+describe("change freeze", () => {
+  const freeze = { start: "2026-10-07T00:00:00Z", end: "2026-10-08T00:00:00Z", reason: "Release day", exemptRoles: ["ADMIN"] };
+
+
+  it("denies changes inside the window and allows them outside it", () => {
+    expect(decide({ freezes: [freeze] }, { action: "RESTART" }).denials).toEqual([
+      { rule: "change-freeze", effect: "deny", message: "Change freeze until 2026-10-08T00:00:00Z: Release day" },
+    ]);
+    expect(decide({ freezes: [freeze] }, { action: "RESTART", now: SATURDAY_MORNING }).allowed).toBe(true);
+  });
+
+
+  it("lets exempt roles through and skips other targets", () => {
+    expect(decide({ freezes: [freeze] }, { role: "ADMIN" }).allowed).toBe(true);
+    expect(decide({ freezes: [{ ...freeze, targets: ["shop/api"] }] }).verdicts.map(verdict => verdict.rule)).toEqual(["replica-bounds"]);
+    expect(decide({ freezes: [{ ...freeze, targets: ["shop/api"] }] }, { target: API }).allowed).toBe(false);
+  });
+});
+
+
+describe("business-hours minimum", () => {
+  const businessHours = { timeZone: "Europe/Berlin", days: [1, 2, 3, 4, 5], start: "09:00", end: "18:00", minReplicas: 2 };
+
+
+  it("keeps the floor during business hours only", () => {
+    expect(decide({ businessHours }, { replicas: 1 }).denials[0]?.message).toBe(
+      "shop/web must keep at least 2 replicas during business hours (Mon,Tue,Wed,Thu,Fri 09:00-18:00 Europe/Berlin)"
+    );
+    expect(decide({ businessHours }, { replicas: 2 }).allowed).toBe(true);
+    expect(decide({ businessHours }, { replicas: 1, now: SATURDAY_MORNING }).allowed).toBe(true);
+    // 07:00 in Berlin is before opening.
+    expect(decide({ businessHours }, { replicas: 1, now: Date.parse("2026-10-07T05:00:00Z") }).allowed).toBe(true);
+  });
+
+
+  it("applies only to scales of the listed targets", () => {
+    expect(decide({ businessHours }, { action: "RESTART", replicas: undefined }).allowed).toBe(true);
+    expect(decide({ businessHours: { ...businessHours, targets: ["shop/api"] } }, { replicas: 1 }).allowed).toBe(true);
+  });
+});
+
+
+describe("role actions", () => {
+  it("limits listed roles to their actions and leaves others alone", () => {
+    const roleActions = { FREE: ["SCALE" as const], GUEST: [] };
+    expect(decide({ roleActions }, { role: "FREE" }).allowed).toBe(true);
+    expect(decide({ roleActions }, { role: "FREE", action: "ROLLBACK", replicas: undefined }).denials[0]?.message).toBe(
+      "FREE users may not ROLLBACK (allowed: SCALE)"
+    );
+    expect(decide({ roleActions }, { role: "GUEST" }).denials[0]?.message).toBe("GUEST users may not SCALE (allowed: none)");
+    expect(decide({ roleActions }, { role: "NORMAL", action: "RESTART", replicas: undefined }).verdicts).toEqual([]);
+  });
+});
+
+
+describe("loadPolicyConfig", () => {
+  it("reads a valid config", () => {
+    const config = load({
+      freezes: [{ start: "2026-12-20T00:00:00Z", end: "2027-01-02T00:00:00Z", reason: "Holidays", targets: ["shop/web"] }],
+      businessHours: { timeZone: "UTC", days: [0, 6], start: "00:00", end: "23:59", minReplicas: 0 },
+      roleActions: { FREE: ["SCALE", "RESTART"] },
+    });
+    expect(config.invalid).toBeUndefined();
+    expect(config.freezes).toHaveLength(1);
+    expect(config.roleActions).toEqual({ FREE: ["SCALE", "RESTART"] });
+  });
+
+
+  it.each([
+    ["a non-object", [1, 2]],
+    ["a freeze without an end", { freezes: [{ start: "2026-12-20T00:00:00Z", reason: "Holidays" }] }],
+    ["freeze targets that are not strings", { freezes: [{ start: "2026-12-20", end: "2026-12-21", reason: "x", targets: "shop/web" }] }],
+    ["a business day out of range", { businessHours: { timeZone: "UTC", days: [1, 7], start: "09:00", end: "17:00", minReplicas: 1 } }],
+    ["an hour out of range", { businessHours: { timeZone: "UTC", days: [1], start: "09:00", end: "25:00", minReplicas: 1 } }],
+    ["an unknown time zone", { businessHours: { timeZone: "Mars/Olympus", days: [1], start: "09:00", end: "17:00", minReplicas: 1 } }],
+    ["an unknown action", { roleActions: { FREE: ["SCALE", "DELETE"] } }],
+  ])("fails closed on %s", (_case, config) => {
+    const loaded = load(config);
+    expect(loaded.invalid).toBeString();
+
+    const decision = evaluatePolicies(request({ role: "ADMIN" }), createBuiltInRules(loaded));
+    expect(decision.allowed).toBe(false);
+    expect(decision.denials[0].rule).toBe("policy-config");
+  });
+
+
+  it("fails closed on JSON that does not parse", () => {
+    process.env.POLICY_CONFIG = "{freezes:";
+    expect(loadPolicyConfig().invalid).toBeString();
+  });
+
+
+  it("has no optional rules when unset", () => {
+    expect(loadPolicyConfig()).toEqual(EMPTY);
+  });
+});
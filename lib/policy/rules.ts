@@ -0,0 +1,289 @@
+import { formatTarget, ManagedDeployment } from "../k8s/registry";
+import { StructuredLogger } from "../logging/structuredLogger";
+import { ExecuteAction, UserRole } from "../scheduler/types";
+import type { PolicyRule, PolicyVerdict } from "./engine";
+
+/**
+ * A window in which mutations are refused. `targets` ("namespace/deployment")
+ * narrows it; `exemptRoles` lets e.g. ADMIN through for emergency fixes.
+ */
+export interface ChangeFreeze {
+  start: string;
+  end: string;
+  reason: string;
+  targets?: string[];
+  exemptRoles?: UserRole[];
+}
+
+/**
+ * During these hours a SCALE may not go below `minReplicas`. Days are 0
+ * (Sunday) to 6; start and end are "HH:MM" in `timeZone`.
+ */
+export interface BusinessHours {
+  timeZone: string;
+  days: number[];
+  start: string;
+  end: string;
+  minReplicas: number;
+  targets?: string[];
+}
+
+export interface PolicyConfig {
+  freezes: ChangeFreeze[];
+  businessHours: BusinessHours | null;
+  // Roles missing from the map may run every action.
+  roleActions: Record<UserRole, ExecuteAction[]>;
+  // Why POLICY_CONFIG was rejected; every mutation is denied until it is fixed.
+  invalid?: string;
+}
+
+const EMPTY_CONFIG: PolicyConfig = { freezes: [], businessHours: null, roleActions: {} };
+
+const EXECUTE_ACTIONS: ExecuteAction[] = ["SCALE", "RESTART", "ROLLBACK"];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+
+/**
+ * POLICY_CONFIG holds the freezes, business hours and per-role actions as
+ * JSON. An invalid value is logged and fails closed: dropping it would
+ * silently lift freezes, so every mutation is denied until it is fixed.
+ */
+export function loadPolicyConfig(): PolicyConfig {
+  const raw = process.env.POLICY_CONFIG;
+  if (!raw) {
+    return EMPTY_CONFIG;
+  }
+
+  try {
+    return validateConfig(JSON.parse(raw));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    StructuredLogger.error("system", "system", "Invalid POLICY_CONFIG - denying every mutation", { error: message });
+    return { ...EMPTY_CONFIG, invalid: message };
+  }
+}
+
+
+export function createBuiltInRules(config: PolicyConfig): PolicyRule[] {
+  return [
+    invalidConfigRule(config.invalid),
+    replicaBoundsRule(),
+    changeFreezeRule(config.freezes),
+    businessHoursRule(config.businessHours),
+    roleActionsRule(config.roleActions),
+  ];
+}
+
+
+/**
+ * The one place the managed replica range is checked; executors call it too
+ * so nothing reaches the API server out of bounds.
+ */
+export function replicaBoundsViolation(target: ManagedDeployment, replicas: number): string | null {
+  if (replicas >= target.minReplicas && replicas <= target.maxReplicas) {
+    return null;
+  }
+  return `Invalid replica count: ${replicas}. Must be between ${target.minReplicas} and ${target.maxReplicas} for ${formatTarget(target)}.`;
+}
+
+
+function invalidConfigRule(invalid: string | undefined): PolicyRule {
+  return {
+    name: "policy-config",
+    describe: () => (invalid ? [`• Every change is blocked: POLICY_CONFIG is invalid (${invalid})`] : []),
+    evaluate: () => (invalid ? deny("policy-config", `POLICY_CONFIG is invalid (${invalid}); ask an administrator to fix it`) : null),
+  };
+}
+
+
+function replicaBoundsRule(): PolicyRule {
+  return {
+    name: "replica-bounds",
+    describe: () => ["• Replica counts must stay within each deployment's configured range"],
+    evaluate: request => {
+      if (request.action !== "SCALE" || request.replicas === undefined) {
+        return null;
+      }
+      const violation = replicaBoundsViolation(request.target, request.replicas);
+      return violation
+        ? deny("replica-bounds", violation)
+        : allow("replica-bounds", `${request.replicas} is within ${request.target.minReplicas}-${request.target.maxReplicas} for ${formatTarget(request.target)}`);
+    },
+  };
+}
+
+
+function changeFreezeRule(freezes: ChangeFreeze[]): PolicyRule {
+  return {
+    name: "change-freeze",
+    describe: () =>
+      freezes.map(freeze => `• Change freeze ${freeze.start} → ${freeze.end}: ${freeze.reason}${describeTargets(freeze.targets)}`),
+    evaluate: request => {
+      const applicable = freezes.filter(freeze => appliesTo(freeze.targets, request.target));
+      if (applicable.length === 0) {
+        return null;
+      }
+
+      const active = applicable.find(
+        freeze => request.now >= Date.parse(freeze.start) && request.now < Date.parse(freeze.end)
+      );
+      if (!active) {
+        return allow("change-freeze", `No change freeze in effect for ${formatTarget(request.target)}`);
+      }
+      if (active.exemptRoles?.includes(request.role)) {
+        return allow("change-freeze", `Change freeze until ${active.end} (${active.reason}); ${request.role} is exempt`);
+      }
+      return deny("change-freeze", `Change freeze until ${active.end}: ${active.reason}`);
+    },
+  };
+}
+
+
+function businessHoursRule(hours: BusinessHours | null): PolicyRule {
+  return {
+    name: "business-hours-minimum",
+    describe: () =>
+      hours
+        ? [`• At least ${hours.minReplicas} replicas during business hours (${describeHours(hours)})${describeTargets(hours.targets)}`]
+        : [],
+    evaluate: request => {
+      if (!hours || request.action !== "SCALE" || request.replicas === undefined || !appliesTo(hours.targets, request.target)) {
+        return null;
+      }
+      if (!isWithinHours(hours, request.now)) {
+        return allow("business-hours-minimum", `Outside business hours (${describeHours(hours)})`);
+      }
+      return request.replicas >= hours.minReplicas
+        ? allow("business-hours-minimum", `${request.replicas} meets the business-hours minimum of ${hours.minReplicas}`)
+        : deny(
+          "business-hours-minimum",
+          `${formatTarget(request.target)} must keep at least ${hours.minReplicas} replicas during business hours (${describeHours(hours)})`
+        );
+    },
+  };
+}
+
+
+function roleActionsRule(roleActions: Record<UserRole, ExecuteAction[]>): PolicyRule {
+  return {
+    name: "role-actions",
+    describe: () =>
+      Object.entries(roleActions).map(([role, actions]) => `• ${role} users may run: ${actions.join(", ") || "nothing"}`),
+    evaluate: request => {
+      const allowed = roleActions[request.role];
+      if (!allowed) {
+        return null;
+      }
+      return allowed.includes(request.action)
+        ? allow("role-actions", `${request.role} users may ${request.action}`)
+        : deny("role-actions", `${request.role} users may not ${request.action} (allowed: ${allowed.join(", ") || "none"})`);
+    },
+  };
+}
+
+
+function allow(rule: string, message: string): PolicyVerdict {
+  return { rule, effect: "allow", message };
+}
+
+
+function deny(rule: string, message: string): PolicyVerdict {
+  return { rule, effect: "deny", message };
+}
+
+
+function appliesTo(targets: string[] | undefined, target: ManagedDeployment): boolean {
+  return !targets || targets.length === 0 || targets.includes(formatTarget(target));
+}
+
+
+function describeTargets(targets: string[] | undefined): string {
+  return targets && targets.length > 0 ? ` [${targets.join(", ")}]` : "";
+}
+
+
+function describeHours(hours: BusinessHours): string {
+  return `${hours.days.map(day => WEEKDAYS[day]).join(",")} ${hours.start}-${hours.end} ${hours.timeZone}`;
+}
+
+
+function isWithinHours(hours: BusinessHours, now: number): boolean {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: hours.timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(now));
+  const part = (type: string) => parts.find(candidate => candidate.type === type)?.value ?? "";
+
+  const day = WEEKDAYS.indexOf(part("weekday"));
+  const minutes = Number(part("hour")) * 60 + Number(part("minute"));
+  return hours.days.includes(day) && minutes >= toMinutes(hours.start) && minutes < toMinutes(hours.end);
+}
+
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(":").map(Number);
+  return hour * 60 + minute;
+}
+
+
+function validateConfig(value: unknown): PolicyConfig {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("expected a JSON object");
+  }
+  const candidate = value as Partial<PolicyConfig>;
+  const freezes = candidate.freezes ?? [];
+  const roleActions = candidate.roleActions ?? {};
+
+  if (!Array.isArray(freezes)) {
+    throw new Error(`"freezes" must be an array`);
+  }
+  for (const freeze of freezes) {
+    if (Number.isNaN(Date.parse(freeze?.start)) || Number.isNaN(Date.parse(freeze?.end)) || typeof freeze?.reason !== "string") {
+      throw new Error(`freeze ${JSON.stringify(freeze)} needs ISO "start" and "end" and a "reason"`);
+    }
+    if (!isStringList(freeze.targets) || !isStringList(freeze.exemptRoles)) {
+      throw new Error(`freeze "${freeze.reason}" needs "targets" and "exemptRoles" as arrays of strings`);
+    }
+  }
+
+  const hours = candidate.businessHours ?? null;
+  if (hours) {
+    const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+    if (!timePattern.test(hours.start) || !timePattern.test(hours.end) || !Number.isInteger(hours.minReplicas) || hours.minReplicas < 0) {
+      throw new Error(`"businessHours" needs "start"/"end" as HH:MM and a non-negative integer "minReplicas"`);
+    }
+    if (!Array.isArray(hours.days) || hours.days.length === 0 || !hours.days.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+      throw new Error(`"businessHours.days" must list days from 0 (Sunday) to 6`);
+    }
+    if (!isStringList(hours.targets)) {
+      throw new Error(`"businessHours.targets" must be an array of strings`);
+    }
+    // Throws a RangeError for unknown zones.
+    new Intl.DateTimeFormat("en-US", { timeZone: hours.timeZone });
+  }
+
+  if (typeof roleActions !== "object" || roleActions === null || Array.isArray(roleActions)) {
+    throw new Error(`"roleActions" must map roles to arrays of actions`);
+  }
+  for (const [role, actions] of Object.entries(roleActions)) {
+    if (!Array.isArray(actions)) {
+      throw new Error(`"roleActions.${role}" must be an array of actions`);
+    }
+    const unknown = actions.filter(action => !EXECUTE_ACTIONS.includes(action));
+    if (unknown.length > 0) {
+      throw new Error(`"roleActions.${role}" has unknown actions ${unknown.join(", ")} (allowed: ${EXECUTE_ACTIONS.join(", ")})`);
+    }
+  }
+
+  return { freezes, businessHours: hours, roleActions };
+}
+
+
+// Optional lists may be missing; when present they must hold only strings.
+function isStringList(value: unknown): boolean {
+  return value === undefined || (Array.isArray(value) && value.every(item => typeof item === "string"));
+}
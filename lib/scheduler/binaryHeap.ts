@@ -0,0 +1,125 @@
+/**
+ * Array-backed binary min-heap. Keeps a key → slot index so any element can
+ * be removed or re-ordered in O(log n), not just the top.
+ */
+export class BinaryHeap<T> {
+  private items: T[] = [];
+
+  private positions: Map<string, number> = new Map();
+
+  private compare: (a: T, b: T) => number;
+
+  private keyOf: (item: T) => string;
+
+  constructor(compare: (a: T, b: T) => number, keyOf: (item: T) => string) {
+    this.compare = compare;
+    this.keyOf = keyOf;
+  }
+
+
+  get size(): number {
+    return this.items.length;
+  }
+
+
+  push(item: T): void {
+    this.items.push(item);
+    this.positions.set(this.keyOf(item), this.items.length - 1);
+    this.siftUp(this.items.length - 1);
+  }
+
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+
+  pop(): T | undefined {
+    if (this.items.length === 0) {
+      return undefined;
+    }
+    return this.removeAt(0);
+  }
+
+
+  get(key: string): T | undefined {
+    const index = this.positions.get(key);
+    return index === undefined ? undefined : this.items[index];
+  }
+
+
+  remove(key: string): T | undefined {
+    const index = this.positions.get(key);
+    return index === undefined ? undefined : this.removeAt(index);
+  }
+
+
+  /**
+   * Heap order, not sorted order. Callers that need the full ordering sort
+   * the copy themselves.
+   */
+  toArray(): T[] {
+    return [...this.items];
+  }
+
+
+  private removeAt(index: number): T {
+    const removed = this.items[index];
+    const last = this.items.pop() as T;
+    this.positions.delete(this.keyOf(removed));
+
+    if (index < this.items.length) {
+      this.items[index] = last;
+      this.positions.set(this.keyOf(last), index);
+      this.siftDown(index);
+      this.siftUp(index);
+    }
+
+    return removed;
+  }
+
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(this.items[index], this.items[parent]) >= 0) {
+        return;
+      }
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+
+  private siftDown(index: number): void {
+    const length = this.items.length;
+
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < length && this.compare(this.items[left], this.items[smallest]) < 0) {
+        smallest = left;
+      }
+      if (right < length && this.compare(this.items[right], this.items[smallest]) < 0) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        return;
+      }
+
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+
+  private swap(a: number, b: number): void {
+    const item = this.items[a];
+    this.items[a] = this.items[b];
+    this.items[b] = item;
+    this.positions.set(this.keyOf(this.items[a]), a);
+    this.positions.set(this.keyOf(this.items[b]), b);
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Time source for the scheduler. Swapping it lets the worker loop, aging and
+ * verification waits be driven deterministically instead of by wall time.
+ */
+export interface Clock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: ms => new Promise<void>(resolve => setTimeout(resolve, ms)),
+};
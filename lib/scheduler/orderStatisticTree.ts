@@ -0,0 +1,156 @@
+interface TreeNode<T> {
+  item: T;
+  weight: number;
+  left: TreeNode<T> | null;
+  right: TreeNode<T> | null;
+  size: number;
+  // Highest score in this subtree.
+  maxScore: number;
+}
+
+/**
+ * Sorted set (a treap) where every node also knows its subtree's size and
+ * highest score, so ranks and threshold searches are O(log n) expected.
+ * Items must be distinct under `compare`.
+ */
+export class OrderStatisticTree<T> {
+  private root: TreeNode<T> | null = null;
+
+  private compare: (a: T, b: T) => number;
+
+  private score: (item: T) => number;
+
+  constructor(compare: (a: T, b: T) => number, score: (item: T) => number) {
+    this.compare = compare;
+    this.score = score;
+  }
+
+
+  get size(): number {
+    return sizeOf(this.root);
+  }
+
+
+  insert(item: T): void {
+    const node: TreeNode<T> = { item, weight: Math.random(), left: null, right: null, size: 1, maxScore: this.score(item) };
+    const [before, after] = this.split(this.root, item, false);
+    this.root = this.merge(this.merge(before, node), after);
+  }
+
+
+  delete(item: T): boolean {
+    const [before, rest] = this.split(this.root, item, false);
+    const [match, after] = this.split(rest, item, true);
+    this.root = this.merge(before, after);
+    return match !== null;
+  }
+
+
+  /**
+   * Number of items ordered before `item`, which need not be in the tree.
+   */
+  rank(item: T): number {
+    let count = 0;
+    let node = this.root;
+    while (node) {
+      if (this.compare(node.item, item) < 0) {
+        count += sizeOf(node.left) + 1;
+        node = node.right;
+      } else {
+        node = node.left;
+      }
+    }
+    return count;
+  }
+
+
+  /**
+   * Highest score among items ordered before `item`, or -Infinity.
+   */
+  maxScoreBefore(item: T): number {
+    let best = -Infinity;
+    let node = this.root;
+    while (node) {
+      if (this.compare(node.item, item) < 0) {
+        best = Math.max(best, maxScoreOf(node.left), this.score(node.item));
+        node = node.right;
+      } else {
+        node = node.left;
+      }
+    }
+    return best;
+  }
+
+
+  /**
+   * Number of items ordered before the first one whose score `stops`.
+   * `stops` must be monotone: once true for a score, true for every higher one.
+   */
+  countUntil(stops: (score: number) => boolean): number {
+    let count = 0;
+    let node = this.root;
+    while (node) {
+      if (node.left && stops(node.left.maxScore)) {
+        node = node.left;
+      } else if (stops(this.score(node.item))) {
+        return count + sizeOf(node.left);
+      } else {
+        count += sizeOf(node.left) + 1;
+        node = node.right;
+      }
+    }
+    return count;
+  }
+
+
+  // Splits into items before `item` (or up to and including it) and the rest.
+  private split(node: TreeNode<T> | null, item: T, inclusive: boolean): [TreeNode<T> | null, TreeNode<T> | null] {
+    if (!node) {
+      return [null, null];
+    }
+
+    const order = this.compare(node.item, item);
+    if (order < 0 || (inclusive && order === 0)) {
+      const [before, after] = this.split(node.right, item, inclusive);
+      node.right = before;
+      return [this.update(node), after];
+    }
+
+    const [before, after] = this.split(node.left, item, inclusive);
+    node.left = after;
+    return [before, this.update(node)];
+  }
+
+
+  // Every item in `left` is ordered before every item in `right`.
+  private merge(left: TreeNode<T> | null, right: TreeNode<T> | null): TreeNode<T> | null {
+    if (!left || !right) {
+      return left ?? right;
+    }
+
+    if (left.weight > right.weight) {
+      left.right = this.merge(left.right, right);
+      return this.update(left);
+    }
+
+    right.left = this.merge(left, right.left);
+    return this.update(right);
+  }
+
+
+  private update(node: TreeNode<T>): TreeNode<T> {
+    node.size = sizeOf(node.left) + sizeOf(node.right) + 1;
+    node.maxScore = Math.max(maxScoreOf(node.left), maxScoreOf(node.right), this.score(node.item));
+    return node;
+  }
+}
+
+
+function sizeOf<T>(node: TreeNode<T> | null): number {
+  return node ? node.size : 0;
+}
+
+
+function maxScoreOf<T>(node: TreeNode<T> | null): number {
+  return node ? node.maxScore : -Infinity;
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "bun:test";
+import { PriorityQueue } from "./priorityQueue";
+import { Clock } from "./clock";
+import { PriorityLevel, ScheduledCommand } from "./types";
+
+const BACKLOG = 30000;
+
+const USERS = 200;
+
+
+function command(index: number, priority: PriorityLevel, timestamp: number = index): ScheduledCommand {
+  return {
+    id: `cmd-${index}`,
+    executionId: `exec-${index}`,
+    userId: `user-${index % USERS}`,
+    priority,
+    timestamp,
+    target: { deployment: "web", namespace: "default" },
+    parsed: { type: "EXECUTE", action: "RESTART", rawText: "restart web" },
+  };
+}
+
+
+function manualClock(start: number): Clock & { advance(ms: number): void } {
+  let now = start;
+  return {
+    now: () => now,
+    sleep: async ms => {
+      now += ms;
+    },
+    advance(ms: number) {
+      now += ms;
+    },
+  };
+}
+
+
+function timed<T>(run: () => T): { result: T; ms: number } {
+  const started = performance.now();
+  const result = run();
+  return { result, ms: performance.now() - started };
+}
+
+
+describe("PriorityQueue", () => {
+  it("keeps FIFO order within a priority for a single user", () => {
+    const queue = new PriorityQueue();
+    for (let index = 0; index < 5; index++) {
+      queue.enqueue({ ...command(index, 2), userId: "user-0" });
+    }
+
+    expect(queue.list().map(cmd => cmd.id)).toEqual(["cmd-0", "cmd-1", "cmd-2", "cmd-3", "cmd-4"]);
+    expect(queue.peek()?.id).toBe("cmd-0");
+  });
+
+
+  it("reports the same positions as list() while commands age", () => {
+    const clock = manualClock(0);
+    const queue = new PriorityQueue(undefined, { agingIntervalMs: 50, clock });
+
+    for (let index = 0; index < 400; index++) {
+      clock.advance(index % 7);
+      const position = queue.enqueue(command(index, ((index % 3) + 1) as PriorityLevel, clock.now()));
+      expect(position).toBe(queue.list().findIndex(cmd => cmd.id === `cmd-${index}`) + 1);
+
+      if (index % 5 === 0) {
+        queue.dequeue();
+      }
+    }
+
+    queue.list().forEach((cmd, index) => expect(queue.positionOf(cmd.id)).toBe(index + 1));
+  });
+
+
+  it(`handles a backlog of ${BACKLOG} commands`, () => {
+    const queue = new PriorityQueue();
+    const priorities: PriorityLevel[] = [3, 2, 1];
+
+    const enqueued = timed(() => {
+      let last = 0;
+      for (let index = 0; index < BACKLOG; index++) {
+        last = queue.enqueue(command(index, priorities[index % 3]));
+      }
+      return last;
+    });
+    expect(queue.size()).toBe(BACKLOG);
+    // The last command is priority 1, behind only the other priority 1 commands.
+    expect(enqueued.result).toBe(BACKLOG / 3);
+
+    const positions = timed(() => [0, BACKLOG / 2, BACKLOG - 1].map(index => queue.positionOf(`cmd-${index}`)));
+    const listed = timed(() => queue.list());
+    expect(listed.result).toHaveLength(BACKLOG);
+    positions.result.forEach((position, index) => {
+      const id = `cmd-${[0, BACKLOG / 2, BACKLOG - 1][index]}`;
+      expect(position).toBe(listed.result.findIndex(cmd => cmd.id === id) + 1);
+    });
+
+    const changed = timed(() => {
+      for (let index = 0; index < 1000; index++) {
+        queue.updatePriority(`cmd-${index * 3}`, 1);
+        queue.remove(`cmd-${index * 3 + 1}`);
+      }
+    });
+    expect(queue.size()).toBe(BACKLOG - 1000);
+
+    const drained = timed(() => {
+      const order: ScheduledCommand[] = [];
+      for (let cmd = queue.dequeue(); cmd; cmd = queue.dequeue()) {
+        order.push(cmd);
+        queue.complete(cmd.id);
+      }
+      return order;
+    });
+    expect(drained.result).toHaveLength(BACKLOG - 1000);
+    expect(queue.size()).toBe(0);
+
+    // Without aging a lower band never runs before a higher one...
+    drained.result.forEach((cmd, index) => {
+      if (index > 0) {
+        expect(cmd.priority).toBeGreaterThanOrEqual(drained.result[index - 1].priority);
+      }
+    });
+
+    // ...and each user's commands keep their submission order within a band.
+    const lastSeen = new Map<string, number>();
+    for (const cmd of drained.result) {
+      const key = `${cmd.priority}:${cmd.userId}`;
+      const sequence = Number(cmd.id.slice("cmd-".length));
+      if (!(key.startsWith("1:") && sequence % 3 === 0)) {
+        expect(sequence).toBeGreaterThan(lastSeen.get(key) ?? -1);
+        lastSeen.set(key, sequence);
+      }
+    }
+
+    // Loose bounds, several times what a laptop needs: they catch a return to
+    // per-enqueue sorting (seconds at this size), not small regressions.
+    expect(enqueued.ms).toBeLessThan(2000);
+    expect(positions.ms).toBeLessThan(50);
+    expect(listed.ms).toBeLessThan(500);
+    expect(changed.ms).toBeLessThan(500);
+    expect(drained.ms).toBeLessThan(2000);
+  });
+});
@@ -1,43 +1,518 @@
+import { PriorityLevel, ScheduledCommand } from "./types";
+import { BinaryHeap } from "./binaryHeap";
+import { OrderStatisticTree } from "./orderStatisticTree";
+import { Clock, systemClock } from "./clock";
+import { MemoryQueueStore, QueueSnapshot, QueueStore, StoredCommandState } from "./queueStore";
+import { setQueueLength, recordDispatch, QueueStats } from "../observability/executionState";
+import { hasExecutionEventSubscribers, publishExecutionEvent } from "../observability/executionEvents";
+import { StructuredLogger } from "../logging/structuredLogger";
 
+const PRIORITY_LEVELS: PriorityLevel[] = [1, 2, 3];
 
-import { ScheduledCommand } from "./types";
-import { setQueueLength } from "../observability/executionState";
+export interface PriorityQueueOptions {
+  /**
+   * Every full interval a command waits raises its effective priority by one
+   * level, so lower bands cannot be starved forever. 0 disables aging.
+   */
+  agingIntervalMs?: number;
+  clock?: Clock;
+}
+
+interface BandEntry {
+  cmd: ScheduledCommand;
+  round: number;
+  // Insertion counter; breaks ties so equal commands stay FIFO.
+  sequence: number;
+}
 
+/**
+ * Commands are kept in one binary heap per priority level, so enqueue,
+ * dequeue and remove are O(log n); an order-statistic tree per level
+ * answers queue positions in O(log n) too. Inside a band users are served
+ * round-robin: each command gets a round number, and a user's next command
+ * lands one round after their previous one, so one user cannot flood the
+ * band. Across bands the worker takes whichever band head has the best
+ * effective (aged) priority.
+ */
 class PriorityQueue {
-  private queue: ScheduledCommand[] = [];
+  private bands: Map<PriorityLevel, BinaryHeap<BandEntry>> = new Map(
+    PRIORITY_LEVELS.map(level => [level, new BinaryHeap<BandEntry>(compareEntries, entry => entry.cmd.id)])
+  );
 
+  // The same entries in band order, scored by timestamp, so positions need no sort.
+  private indexes: Map<PriorityLevel, OrderStatisticTree<BandEntry>> = new Map(
+    PRIORITY_LEVELS.map(level => [level, new OrderStatisticTree<BandEntry>(compareEntries, entry => entry.cmd.timestamp)])
+  );
 
-  enqueue(cmd: ScheduledCommand): void {
-    this.queue.push(cmd);
+  // Round of the command most recently dispatched from each band.
+  private bandRounds: Map<PriorityLevel, number> = new Map(PRIORITY_LEVELS.map(level => [level, 0]));
 
-    this.queue.sort((a, b) => {
-      if (a.priority !== b.priority) {
-        return a.priority - b.priority;
-      }
-      return a.timestamp - b.timestamp;
-    });
+  // Next round available to each user, keyed by "<priority>:<userId>".
+  private userRounds: Map<string, number> = new Map();
+
+  private sequence: number = 0;
+
+  private inFlight: Map<string, ScheduledCommand> = new Map();
+
+  private store: QueueStore;
+
+  private agingIntervalMs: number;
+
+  private clock: Clock;
+
+  private enqueueListeners: Set<() => void> = new Set();
+
+  // Last queue_position sent for each waiting command, so only moves are published.
+  private publishedPositions: Map<string, number> = new Map();
+
+  private positionsScheduled: boolean = false;
+
+  constructor(store: QueueStore = new MemoryQueueStore(), options: PriorityQueueOptions = {}) {
+    this.store = store;
+    this.agingIntervalMs = options.agingIntervalMs ?? 0;
+    this.clock = options.clock ?? systemClock;
+  }
+
+
+  /**
+   * Returns the command's 1-based queue position, computed in the same pass
+   * so callers do not need a separate positionOf.
+   */
+  enqueue(cmd: ScheduledCommand): number {
+    const entry = this.insert(cmd);
+    const queuePosition = this.positionAt(cmd.priority, entry, this.clock.now());
+
+
+    setQueueLength(this.size());
+    this.persist(cmd, "pending");
+
+    if (hasExecutionEventSubscribers()) {
+      publishExecutionEvent({
+        type: "enqueued",
+        commandId: cmd.id,
+        executionId: cmd.executionId,
+        userId: cmd.userId,
+        data: { priority: cmd.priority, queuePosition },
+      });
+      this.publishedPositions.set(cmd.id, queuePosition);
+      this.publishPositions();
+    }
 
+    this.notifyEnqueued();
 
-    setQueueLength(this.queue.length);
+    return queuePosition;
+  }
+
+
+  /**
+   * Registers a callback for new work, so a waiting worker can block instead
+   * of polling. Returns an unsubscribe function.
+   */
+  onEnqueue(listener: () => void): () => void {
+    this.enqueueListeners.add(listener);
+    return () => {
+      this.enqueueListeners.delete(listener);
+    };
   }
 
 
   dequeue(): ScheduledCommand | null {
-    if (this.queue.length === 0) {
+    const now = this.clock.now();
+    const level = this.nextBand(now);
+    if (level === null) {
+      return null;
+    }
+
+    const entry = this.band(level).pop() as BandEntry;
+    const { cmd, round } = entry;
+    this.index(level).delete(entry);
+    const promoted = PRIORITY_LEVELS.some(other => other < level && this.band(other).size > 0);
+
+    this.bandRounds.set(level, round);
+    this.inFlight.set(cmd.id, cmd);
+    recordDispatch(now - cmd.timestamp, promoted);
+
+    if (promoted) {
+      StructuredLogger.info(cmd.executionId, "queued", "Aged command dispatched ahead of higher priority work", {
+        commandId: cmd.id,
+        priority: cmd.priority,
+        effectivePriority: this.effectivePriority(cmd, now),
+        waitMs: now - cmd.timestamp,
+      });
+    }
+
+
+    setQueueLength(this.size());
+    this.persist(cmd, "running");
+    this.publishPositions();
+
+    return cmd;
+  }
+
+
+  /**
+   * The command the next dequeue would return, without taking it.
+   */
+  peek(): ScheduledCommand | null {
+    const level = this.nextBand(this.clock.now());
+    return level === null ? null : (this.band(level).peek() as BandEntry).cmd;
+  }
+
+
+  /**
+   * Withdraws a command that has not been picked up yet. Returns null when it
+   * is no longer waiting, e.g. because the worker already dequeued it.
+   */
+  remove(commandId: string): ScheduledCommand | null {
+    const cmd = this.take(commandId);
+    if (!cmd) {
       return null;
     }
-    const cmd = this.queue.shift() || null;
 
 
-    setQueueLength(this.queue.length);
+    setQueueLength(this.size());
+    this.persist(cmd, null);
+    this.publishPositions();
 
     return cmd;
   }
 
 
+  updatePriority(commandId: string, priority: PriorityLevel): ScheduledCommand | null {
+    const cmd = this.take(commandId);
+    if (!cmd) {
+      return null;
+    }
+
+    // It joins the new band as that user's latest command.
+    cmd.priority = priority;
+    this.insert(cmd);
+
+
+    this.persist(cmd, "pending");
+    this.publishPositions();
+
+    return cmd;
+  }
+
+
+  /**
+   * Called by the worker once a dequeued command has finished, successfully
+   * or not, so it is no longer reported as running after a restart.
+   */
+  complete(commandId: string): void {
+    const cmd = this.inFlight.get(commandId);
+    if (!cmd) {
+      return;
+    }
+
+    this.inFlight.delete(commandId);
+    this.persist(cmd, null);
+  }
+
+
+  /**
+   * Reloads the persisted snapshot. Pending commands go back into the queue;
+   * commands that were running when the process died are handed back to the
+   * caller and dropped from the store, since their outcome is unknown.
+   */
+  recover(): QueueSnapshot {
+    const snapshot = this.store.load();
+
+    snapshot.pending
+      .filter(cmd => !this.contains(cmd.id))
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach(cmd => this.insert(cmd));
+
+    snapshot.running.forEach(cmd => this.persist(cmd, null));
+
+    setQueueLength(this.size());
+    if (this.size() > 0) {
+      this.notifyEnqueued();
+    }
+
+    return snapshot;
+  }
+
+
   size(): number {
-    return this.queue.length;
+    let total = 0;
+    for (const band of this.bands.values()) {
+      total += band.size;
+    }
+    return total;
+  }
+
+
+  /**
+   * Snapshot of pending commands in the order they would be dispatched if
+   * nothing else arrived, with aging evaluated at the current time. O(n log n).
+   */
+  list(): ScheduledCommand[] {
+    const now = this.clock.now();
+    const sorted: Map<PriorityLevel, BandEntry[]> = new Map(
+      PRIORITY_LEVELS.map(level => [level, this.band(level).toArray().sort(compareEntries)])
+    );
+    const cursors: Map<PriorityLevel, number> = new Map(PRIORITY_LEVELS.map(level => [level, 0]));
+    const ordered: ScheduledCommand[] = [];
+
+    for (let remaining = this.size(); remaining > 0; remaining--) {
+      const next = this.pickBand(now, level => (sorted.get(level) as BandEntry[])[cursors.get(level) as number]) as PriorityLevel;
+      const index = cursors.get(next) as number;
+      ordered.push((sorted.get(next) as BandEntry[])[index].cmd);
+      cursors.set(next, index + 1);
+    }
+
+    return ordered;
+  }
+
+
+  /**
+   * Iterates pending commands by queue position, first to run first.
+   */
+  *[Symbol.iterator](): IterableIterator<ScheduledCommand> {
+    yield* this.list();
+  }
+
+
+  /**
+   * 1-based queue position, or 0 when the command is not waiting. O(log n),
+   * unlike list().
+   */
+  positionOf(commandId: string): number {
+    for (const level of PRIORITY_LEVELS) {
+      const entry = this.band(level).get(commandId);
+      if (entry) {
+        return this.positionAt(level, entry, this.clock.now());
+      }
+    }
+    return 0;
+  }
+
+
+  stats(): QueueStats {
+    return {
+      agingIntervalMs: this.agingIntervalMs,
+      bands: PRIORITY_LEVELS.map(level => {
+        const entries = this.band(level).toArray();
+        return {
+          priority: level,
+          count: entries.length,
+          oldestQueuedAt: entries.reduce<number | null>(
+            (oldest, entry) => (oldest === null || entry.cmd.timestamp < oldest ? entry.cmd.timestamp : oldest),
+            null
+          ),
+          users: new Set(entries.map(entry => entry.cmd.userId)).size,
+        };
+      }),
+    };
+  }
+
+
+  private band(level: PriorityLevel): BinaryHeap<BandEntry> {
+    return this.bands.get(level) as BinaryHeap<BandEntry>;
+  }
+
+
+  private index(level: PriorityLevel): OrderStatisticTree<BandEntry> {
+    return this.indexes.get(level) as OrderStatisticTree<BandEntry>;
+  }
+
+
+  private contains(commandId: string): boolean {
+    return PRIORITY_LEVELS.some(level => this.band(level).get(commandId) !== undefined);
+  }
+
+
+  private insert(cmd: ScheduledCommand): BandEntry {
+    const userKey = `${cmd.priority}:${cmd.userId}`;
+    const round = Math.max(this.bandRounds.get(cmd.priority) as number, this.userRounds.get(userKey) ?? 0);
+    const entry = { cmd, round, sequence: this.sequence++ };
+
+    this.userRounds.set(userKey, round + 1);
+    this.band(cmd.priority).push(entry);
+    this.index(cmd.priority).insert(entry);
+    return entry;
+  }
+
+
+  /**
+   * Where list() would place `target`, without building it. Its own band
+   * contributes the entries ordered before it. Dispatch merges the bands
+   * like sequences keyed by their running maximum, so another band
+   * contributes its longest prefix in which every entry would be picked over
+   * the latest-running of `target` and the entries ahead of it. Within a band
+   * that is the newest one, since aging only ever favours older commands.
+   */
+  private positionAt(level: PriorityLevel, target: BandEntry, now: number): number {
+    const own = this.index(level);
+    const gate = Math.max(target.cmd.timestamp, own.maxScoreBefore(target));
+    let ahead = own.rank(target);
+
+    for (const other of PRIORITY_LEVELS) {
+      if (other === level) {
+        continue;
+      }
+
+      // Without aging a band's priority is fixed, so it is entirely ahead or behind.
+      if (this.agingIntervalMs <= 0) {
+        ahead += other < level ? this.band(other).size : 0;
+        continue;
+      }
+
+      ahead += this.index(other).countUntil(timestamp => !this.runsBefore(other, timestamp, level, gate, now));
+    }
+
+    return ahead + 1;
+  }
+
+
+  // The tie-breaks pickBand applies when both are band heads.
+  private runsBefore(level: PriorityLevel, timestamp: number, otherLevel: PriorityLevel, otherTimestamp: number, now: number): boolean {
+    const effective = this.effectiveAt(level, timestamp, now);
+    const otherEffective = this.effectiveAt(otherLevel, otherTimestamp, now);
+    if (effective !== otherEffective) {
+      return effective < otherEffective;
+    }
+    if (timestamp !== otherTimestamp) {
+      return timestamp < otherTimestamp;
+    }
+    return level < otherLevel;
+  }
+
+
+  private take(commandId: string): ScheduledCommand | null {
+    for (const level of PRIORITY_LEVELS) {
+      const entry = this.band(level).remove(commandId);
+      if (entry) {
+        this.index(level).delete(entry);
+        return entry.cmd;
+      }
+    }
+    return null;
+  }
+
+
+  private nextBand(now: number): PriorityLevel | null {
+    return this.pickBand(now, level => this.band(level).peek());
+  }
+
+
+  /**
+   * Picks the band whose head should run next: best effective priority, then
+   * the longest-waiting head, so an aged command beats a fresh one it ties with.
+   */
+  private pickBand(now: number, headOf: (level: PriorityLevel) => BandEntry | undefined): PriorityLevel | null {
+    let best: { level: PriorityLevel; effective: number; timestamp: number } | null = null;
+
+    for (const level of PRIORITY_LEVELS) {
+      const head = headOf(level);
+      if (!head) {
+        continue;
+      }
+
+      const effective = this.effectivePriority(head.cmd, now);
+      if (!best || effective < best.effective || (effective === best.effective && head.cmd.timestamp < best.timestamp)) {
+        best = { level, effective, timestamp: head.cmd.timestamp };
+      }
+    }
+
+    return best ? best.level : null;
+  }
+
+
+  private effectivePriority(cmd: ScheduledCommand, now: number): number {
+    return this.effectiveAt(cmd.priority, cmd.timestamp, now);
+  }
+
+
+  private effectiveAt(priority: PriorityLevel, timestamp: number, now: number): number {
+    if (this.agingIntervalMs <= 0) {
+      return priority;
+    }
+    const boost = Math.floor((now - timestamp) / this.agingIntervalMs);
+    return Math.max(1, priority - boost);
+  }
+
+
+  /**
+   * Mirrors one command into the store; a null state deletes it.
+   */
+  private persist(cmd: ScheduledCommand, state: StoredCommandState | null): void {
+    try {
+      if (state === null) {
+        this.store.delete(cmd.id);
+      } else {
+        this.store.put(cmd, state);
+      }
+    } catch (error) {
+      // The in-memory queue stays authoritative; only durability is degraded.
+      StructuredLogger.error(cmd.executionId, "system", "Failed to persist command queue", {
+        commandId: cmd.id,
+        queueLength: this.size(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+
+  private notifyEnqueued(): void {
+    for (const listener of Array.from(this.enqueueListeners)) {
+      listener();
+    }
+  }
+
+
+  /**
+   * Queues one position update for the end of the current tick, so a burst
+   * of mutations costs a single pass. Only commands whose position moved
+   * since the last update get an event.
+   */
+  private publishPositions(): void {
+    if (this.positionsScheduled || !hasExecutionEventSubscribers()) {
+      return;
+    }
+
+    this.positionsScheduled = true;
+    queueMicrotask(() => {
+      this.positionsScheduled = false;
+      this.flushPositions();
+    });
+  }
+
+
+  private flushPositions(): void {
+    const ordered = this.list();
+    const published = this.publishedPositions;
+    this.publishedPositions = new Map();
+
+    ordered.forEach((queued, index) => {
+      const queuePosition = index + 1;
+      this.publishedPositions.set(queued.id, queuePosition);
+      if (published.get(queued.id) === queuePosition || !hasExecutionEventSubscribers()) {
+        return;
+      }
+
+      publishExecutionEvent({
+        type: "queue_position",
+        commandId: queued.id,
+        executionId: queued.executionId,
+        userId: queued.userId,
+        data: { queuePosition, queueLength: ordered.length },
+      });
+    });
+  }
+}
+
+
+function compareEntries(a: BandEntry, b: BandEntry): number {
+  if (a.round !== b.round) {
+    return a.round - b.round;
+  }
+  if (a.cmd.timestamp !== b.cmd.timestamp) {
+    return a.cmd.timestamp - b.cmd.timestamp;
   }
+  return a.sequence - b.sequence;
 }
 
 export { PriorityQueue };
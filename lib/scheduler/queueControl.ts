@@ -0,0 +1,185 @@
+import { PriorityLevel, UserRole } from "./types";
+import { getSharedQueue } from "./sharedQueue";
+import {
+  ExecutionRecord,
+  getExecutionRecord,
+  markExecutionCancelled,
+  markExecutionReprioritized,
+} from "../observability/executionStore";
+import { publishExecutionEvent } from "../observability/executionEvents";
+import { StructuredLogger } from "../logging/structuredLogger";
+import { recordAudit } from "../audit/auditLog";
+import { formatTarget } from "../k8s/registry";
+import { checkPermission, TokenGrant } from "../users/roles";
+import { refundQuota } from "../auth/quota";
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../errors/userError";
+
+export interface QueueActor {
+  userId: string;
+  role: UserRole;
+  token?: TokenGrant;
+}
+
+const PRIORITY_LEVELS: PriorityLevel[] = [1, 2, 3];
+
+
+/**
+ * Withdraws a PENDING command. Owners need "queue:cancel-own"; anyone else
+ * needs "queue:cancel-any". Both are checked against the caller's API token
+ * too. Accepts a commandId or an executionId. Someone else's command the
+ * caller may not touch is reported as not found, like one that does not exist.
+ * The owner gets the command's quota charge back.
+ */
+export function cancelCommand(id: string, actor: QueueActor, requestId: string): ExecutionRecord {
+  const record = findRecord(id, requestId);
+
+  const owned = record.userId === actor.userId;
+  const denied = checkPermission(actor, owned ? "queue:cancel-own" : "queue:cancel-any", { target: record.target }, requestId);
+  if (denied) {
+    throw owned ? denied : concealDenial(id, denied, requestId);
+  }
+
+  assertPending(record, requestId);
+
+  const cmd = getSharedQueue().remove(record.commandId);
+  if (!cmd) {
+    throw notPendingError(record, requestId);
+  }
+
+  markExecutionCancelled(cmd.id, actor.userId);
+  refundQuota(cmd.userId, cmd.executionId);
+
+  StructuredLogger.info(cmd.executionId, "queued", "Command cancelled", {
+    commandId: cmd.id,
+    userId: cmd.userId,
+    cancelledBy: actor.userId,
+    role: actor.role,
+    requestId,
+  });
+  recordAudit({
+    type: "queue.cancelled",
+    executionId: cmd.executionId,
+    commandId: cmd.id,
+    userId: actor.userId,
+    tokenId: actor.token?.tokenId,
+    action: cmd.parsed.action,
+    target: formatTarget(cmd.target),
+    outcome: "succeeded",
+    data: { owner: cmd.userId, requestId },
+  });
+
+  publishExecutionEvent({
+    type: "cancelled",
+    commandId: cmd.id,
+    executionId: cmd.executionId,
+    userId: cmd.userId,
+    data: { cancelledBy: actor.userId },
+  });
+
+  return getExecutionRecord(cmd.id) as ExecutionRecord;
+}
+
+
+/**
+ * Moves a PENDING command to another band. Needs "queue:reprioritize" on the
+ * command's target; a command outside the caller's targets is reported as
+ * not found, like one that does not exist.
+ */
+export function reprioritizeCommand(
+  id: string,
+  priority: number,
+  actor: QueueActor,
+  requestId: string
+): ExecutionRecord {
+  const denied = checkPermission(actor, "queue:reprioritize", {}, requestId);
+  if (denied) {
+    throw denied;
+  }
+
+  if (!PRIORITY_LEVELS.includes(priority as PriorityLevel)) {
+    throw new ValidationError(
+      `Invalid priority: ${priority}. Must be 1 (ADMIN), 2 (FREE) or 3 (NORMAL).`,
+      requestId,
+      { priority }
+    );
+  }
+
+  const record = findRecord(id, requestId);
+  const deniedOnTarget = checkPermission(actor, "queue:reprioritize", { target: record.target }, requestId);
+  if (deniedOnTarget) {
+    throw concealDenial(id, deniedOnTarget, requestId);
+  }
+  assertPending(record, requestId);
+
+  const cmd = getSharedQueue().updatePriority(record.commandId, priority as PriorityLevel);
+  if (!cmd) {
+    throw notPendingError(record, requestId);
+  }
+
+  markExecutionReprioritized(cmd.id, cmd.priority, actor.userId);
+
+  StructuredLogger.info(cmd.executionId, "queued", "Command priority changed", {
+    commandId: cmd.id,
+    userId: cmd.userId,
+    previousPriority: record.priority,
+    priority: cmd.priority,
+    changedBy: actor.userId,
+    requestId,
+  });
+  recordAudit({
+    type: "queue.reprioritized",
+    executionId: cmd.executionId,
+    commandId: cmd.id,
+    userId: actor.userId,
+    tokenId: actor.token?.tokenId,
+    action: cmd.parsed.action,
+    target: formatTarget(cmd.target),
+    outcome: "succeeded",
+    data: { owner: cmd.userId, previousPriority: record.priority, priority: cmd.priority, requestId },
+  });
+
+  return getExecutionRecord(cmd.id) as ExecutionRecord;
+}
+
+
+function findRecord(id: string, requestId: string): ExecutionRecord {
+  const record = getExecutionRecord(id);
+  if (!record) {
+    throw notFoundError(id, requestId);
+  }
+  return record;
+}
+
+
+function notFoundError(id: string, requestId: string): NotFoundError {
+  return new NotFoundError(`Command ${id} not found`, requestId, { id });
+}
+
+
+// Keeps the real reason in the logs but answers as if the command did not exist.
+function concealDenial(id: string, denied: AuthorizationError, requestId: string): NotFoundError {
+  StructuredLogger.warn(requestId, "system", denied.message, denied.toLogEntry());
+  return notFoundError(id, requestId);
+}
+
+
+function assertPending(record: ExecutionRecord, requestId: string): void {
+  if (record.status !== "PENDING") {
+    throw notPendingError(record, requestId);
+  }
+}
+
+
+function notPendingError(record: ExecutionRecord, requestId: string): ConflictError {
+  const status = record.status === "PENDING" ? "RUNNING" : record.status;
+  return new ConflictError(
+    `Command ${record.commandId} is ${status} and is no longer in the queue`,
+    requestId,
+    { commandId: record.commandId, status }
+  );
+}
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { FileQueueStore } from "./queueStore";
+import { ScheduledCommand } from "./types";
+
+let dir: string;
+
+let filePath: string;
+
+
+function command(id: string): ScheduledCommand {
+  return {
+    id,
+    executionId: `exec-${id}`,
+    userId: "user-1",
+    priority: 2,
+    timestamp: 1000,
+    target: { deployment: "web", namespace: "prod" },
+    parsed: { type: "EXECUTE", action: "RESTART", rawText: "restart web" },
+  };
+}
+
+
+function lines(): string[] {
+  return fs.readFileSync(filePath, "utf8").split("\n").filter(line => line !== "");
+}
+
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "deploybot-queue-"));
+  filePath = path.join(dir, "queue.jsonl");
+});
+
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+
+describe("FileQueueStore", () => {
+  it("replays puts and deletes from the log", () => {
+    const store = new FileQueueStore(filePath);
+    store.put(command("a"), "pending");
+    store.put(command("b"), "pending");
+    store.put(command("a"), "running");
+    store.delete("b");
+    store.put(command("c"), "pending");
+    expect(lines()).toHaveLength(5);
+
+    const snapshot = new FileQueueStore(filePath).load();
+    expect(snapshot.pending.map(cmd => cmd.id)).toEqual(["c"]);
+    expect(snapshot.running.map(cmd => cmd.id)).toEqual(["a"]);
+  });
+
+
+  it("does not log deletes of unknown commands", () => {
+    const store = new FileQueueStore(filePath);
+    store.put(command("a"), "pending");
+    store.delete("missing");
+    expect(lines()).toHaveLength(1);
+  });
+
+
+  it("skips a line torn by a crash and starts the next append on a fresh line", () => {
+    const store = new FileQueueStore(filePath);
+    store.put(command("a"), "pending");
+    store.put(command("b"), "pending");
+    fs.appendFileSync(filePath, '{"op":"put","command":{"id":"c"');
+
+    const reopened = new FileQueueStore(filePath);
+    expect(reopened.load().pending.map(cmd => cmd.id)).toEqual(["a", "b"]);
+    reopened.put(command("d"), "pending");
+
+    expect(lines().map(line => JSON.parse(line).command.id)).toEqual(["a", "b", "d"]);
+  });
+
+
+  it("compacts stale records on load", () => {
+    const store = new FileQueueStore(filePath);
+    store.put(command("a"), "pending");
+    store.put(command("a"), "running");
+    store.put(command("b"), "pending");
+    store.delete("b");
+
+    const snapshot = new FileQueueStore(filePath).load();
+    expect(snapshot.running.map(cmd => cmd.id)).toEqual(["a"]);
+    expect(lines()).toEqual([JSON.stringify({ op: "put", command: command("a"), state: "running" })]);
+  });
+
+
+  it("compacts once most of a long log is stale", () => {
+    const store = new FileQueueStore(filePath);
+    store.put(command("kept"), "pending");
+    for (let index = 0; index < 600; index++) {
+      store.put(command(`done-${index}`), "running");
+      store.delete(`done-${index}`);
+    }
+
+    // The 1,000th record (putting done-499) compacted the log to two lines; 201 were appended since.
+    expect(lines()).toHaveLength(203);
+    expect(new FileQueueStore(filePath).load().pending.map(cmd => cmd.id)).toEqual(["kept"]);
+  });
+});
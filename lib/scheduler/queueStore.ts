@@ -0,0 +1,187 @@
+import fs from "fs";
+import path from "path";
+import { ScheduledCommand } from "./types";
+import { StructuredLogger, generateExecutionId } from "../logging/structuredLogger";
+
+/**
+ * Everything the queue needs to survive a restart: commands still waiting
+ * and commands a worker had already picked up when the process went away.
+ */
+export interface QueueSnapshot {
+  pending: ScheduledCommand[];
+  running: ScheduledCommand[];
+}
+
+export type StoredCommandState = "pending" | "running";
+
+/**
+ * Per-command writes so a store can persist each change without being handed
+ * the whole backlog every time.
+ */
+export interface QueueStore {
+  load(): QueueSnapshot;
+  put(cmd: ScheduledCommand, state: StoredCommandState): void;
+  delete(commandId: string): void;
+}
+
+interface StoredCommand {
+  command: ScheduledCommand;
+  state: StoredCommandState;
+}
+
+// One line in the queue log. The state of a command is its last record.
+type QueueLogRecord =
+  | { op: "put"; command: ScheduledCommand; state: StoredCommandState }
+  | { op: "delete"; id: string };
+
+const DEFAULT_QUEUE_FILE = ".deploybot/queue.jsonl";
+
+// The log is compacted once it holds this many records and at least twice as many as live commands.
+const COMPACT_MIN_RECORDS = 1000;
+
+
+export class MemoryQueueStore implements QueueStore {
+  private entries: Map<string, StoredCommand> = new Map();
+
+  load(): QueueSnapshot {
+    return toSnapshot(this.entries);
+  }
+
+  put(cmd: ScheduledCommand, state: StoredCommandState): void {
+    this.entries.set(cmd.id, { command: { ...cmd }, state });
+  }
+
+  delete(commandId: string): void {
+    this.entries.delete(commandId);
+  }
+}
+
+
+/**
+ * Append-only log, one JSON record per line, so a change costs one small
+ * append instead of rewriting the backlog. When most records are stale the
+ * live commands are written to a temp file that is renamed into place, so a
+ * crash mid-compaction never leaves a truncated queue. A line torn by a
+ * crash is skipped on load.
+ */
+export class FileQueueStore implements QueueStore {
+  private filePath: string;
+
+  private entries: Map<string, StoredCommand> | null = null;
+
+  private records: number = 0;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  load(): QueueSnapshot {
+    return toSnapshot(this.getEntries());
+  }
+
+  put(cmd: ScheduledCommand, state: StoredCommandState): void {
+    this.getEntries().set(cmd.id, { command: { ...cmd }, state });
+    this.append({ op: "put", command: cmd, state });
+  }
+
+  delete(commandId: string): void {
+    if (this.getEntries().delete(commandId)) {
+      this.append({ op: "delete", id: commandId });
+    }
+  }
+
+  private getEntries(): Map<string, StoredCommand> {
+    if (!this.entries) {
+      this.entries = new Map();
+      const { records, clean } = this.readFile(this.entries);
+      this.records = records;
+      // Rewriting also drops a torn last line, so the next append starts on a fresh line.
+      if (!clean || this.records > this.entries.size) {
+        this.compact();
+      }
+    }
+    return this.entries;
+  }
+
+  private readFile(entries: Map<string, StoredCommand>): { records: number; clean: boolean } {
+    if (!fs.existsSync(this.filePath)) {
+      return { records: 0, clean: true };
+    }
+
+    let records = 0;
+    let clean = true;
+    fs.readFileSync(this.filePath, "utf8").split("\n").forEach((line, index) => {
+      if (line.trim() === "") {
+        return;
+      }
+
+      try {
+        const parsed = JSON.parse(line);
+        records++;
+        if (parsed.op === "put") {
+          entries.set(parsed.command.id, { command: parsed.command, state: parsed.state });
+        } else if (parsed.op === "delete") {
+          entries.delete(parsed.id);
+        }
+      } catch (error) {
+        clean = false;
+        StructuredLogger.error(generateExecutionId(), "system", "Unreadable queue log line - skipped", {
+          filePath: this.filePath,
+          line: index + 1,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+    return { records, clean };
+  }
+
+  private append(record: QueueLogRecord): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, `${JSON.stringify(record)}\n`, "utf8");
+    this.records++;
+
+    if (this.records >= COMPACT_MIN_RECORDS && this.records >= 2 * this.getEntries().size) {
+      this.compact();
+    }
+  }
+
+  private compact(): void {
+    const tempPath = `${this.filePath}.tmp`;
+    const lines = Array.from(this.getEntries().values()).map(({ command, state }) =>
+      `${JSON.stringify({ op: "put", command, state })}\n`
+    );
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tempPath, lines.join(""), "utf8");
+    fs.renameSync(tempPath, this.filePath);
+    this.records = lines.length;
+  }
+}
+
+
+/**
+ * QUEUE_STORE selects the backend: "file" (default) persists to
+ * QUEUE_STORE_PATH, "memory" keeps the old non-durable behaviour.
+ */
+export function createQueueStore(): QueueStore {
+  const kind = process.env.QUEUE_STORE ?? "file";
+
+  if (kind === "memory") {
+    return new MemoryQueueStore();
+  }
+
+  if (kind !== "file") {
+    StructuredLogger.warn(generateExecutionId(), "system", `Unknown QUEUE_STORE "${kind}" - using file store`);
+  }
+
+  return new FileQueueStore(process.env.QUEUE_STORE_PATH || DEFAULT_QUEUE_FILE);
+}
+
+
+function toSnapshot(entries: Map<string, StoredCommand>): QueueSnapshot {
+  const snapshot: QueueSnapshot = { pending: [], running: [] };
+  for (const { command, state } of entries.values()) {
+    snapshot[state].push({ ...command });
+  }
+  return snapshot;
+}
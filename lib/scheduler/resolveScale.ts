@@ -0,0 +1,42 @@
+import { ParsedCommand, ScaleChange } from "./types";
+
+export function getScaleChange(parsed: ParsedCommand): ScaleChange | undefined {
+  if (parsed.scale) {
+    return parsed.scale;
+  }
+  if (parsed.targetReplicas !== undefined) {
+    return { kind: "absolute", replicas: parsed.targetReplicas };
+  }
+  return undefined;
+}
+
+export function isRelativeScale(change: ScaleChange): boolean {
+  return change.kind !== "absolute";
+}
+
+/**
+ * Turns a scale change into an absolute replica count. Relative changes must
+ * be resolved against the live count, never one captured when the command
+ * was typed, because other commands may run in between.
+ */
+export function resolveScaleTarget(change: ScaleChange, currentReplicas: number): number {
+  switch (change.kind) {
+    case "absolute":
+      return change.replicas;
+    case "relative":
+      return Math.max(0, currentReplicas + change.delta);
+    case "multiply":
+      return Math.ceil(currentReplicas * change.factor);
+  }
+}
+
+export function describeScaleChange(change: ScaleChange): string {
+  switch (change.kind) {
+    case "absolute":
+      return `to ${change.replicas}`;
+    case "relative":
+      return change.delta >= 0 ? `up by ${change.delta}` : `down by ${-change.delta}`;
+    case "multiply":
+      return `by ×${change.factor}`;
+  }
+}
@@ -1,6 +1,16 @@
 import { PriorityQueue } from "./priorityQueue";
+import { createQueueStore } from "./queueStore";
+import { registerQueueStats } from "../observability/executionState";
 
-const queue = new PriorityQueue();
+const DEFAULT_AGING_INTERVAL_MS = 30000;
+
+const agingIntervalMs = Number(process.env.SCHEDULER_AGING_INTERVAL_MS ?? DEFAULT_AGING_INTERVAL_MS);
+
+const queue = new PriorityQueue(createQueueStore(), {
+  agingIntervalMs: Number.isFinite(agingIntervalMs) && agingIntervalMs >= 0 ? agingIntervalMs : DEFAULT_AGING_INTERVAL_MS,
+});
+
+registerQueueStats(() => queue.stats());
 
 export function getSharedQueue(): PriorityQueue {
   return queue;
@@ -1,15 +1,50 @@
 
-export type CommandType = "HELP" | "READ" | "DRY_RUN" | "EXECUTE";
-export type ExecuteAction = "SCALE" | "RESTART";
+export type CommandType = "HELP" | "READ" | "DRY_RUN" | "EXECUTE" | "QUEUE";
+export type ExecuteAction = "SCALE" | "RESTART" | "ROLLBACK";
+export type ReadQuery = "STATUS" | "PODS" | "HISTORY" | "LOGS" | "EVENTS" | "TOP";
+export type QueueAction = "CANCEL" | "REPRIORITIZE";
+
+export interface TargetReference {
+  deployment?: string;
+  namespace?: string;
+}
+
+export interface DeploymentTarget {
+  deployment: string;
+  namespace: string;
+}
+
+export type ScaleChange =
+  | { kind: "absolute"; replicas: number }
+  | { kind: "relative"; delta: number }
+  | { kind: "multiply"; factor: number };
+
+// "logs <name>": name is a deployment or one of its pods, resolved later.
+export interface LogsQuery {
+  name?: string;
+  tailLines?: number;
+  previous: boolean;
+}
 
 export interface ParsedCommand {
   type: CommandType;
   action?: ExecuteAction;
+  query?: ReadQuery;
+  queueAction?: QueueAction;
+  commandId?: string;
+  priority?: number;
+  target?: TargetReference;
   targetReplicas?: number;
+  scale?: ScaleChange;
+  // ROLLBACK target; omitted means the revision before the current one.
+  revision?: number;
+  logs?: LogsQuery;
   rawText: string;
 }
 
-export type UserRole = "ADMIN" | "FREE" | "NORMAL";
+// ADMIN, FREE and NORMAL are built in; ROLES_CONFIG can define more
+// (see lib/users/roles.ts).
+export type UserRole = string;
 
 export type PriorityLevel = 1 | 2 | 3;
 
@@ -19,5 +54,10 @@ export interface ScheduledCommand {
   userId: string;
   priority: PriorityLevel;
   timestamp: number;
+  target: DeploymentTarget;
   parsed: ParsedCommand;
+  // Policies are evaluated again in the worker with the submitter's role.
+  role?: UserRole;
+  // Set when an API token queued the command; the worker checks it is still active.
+  tokenId?: string;
 }
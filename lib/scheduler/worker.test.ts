@@ -0,0 +1,269 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SchedulerWorker } from "./worker";
+import { PriorityQueue } from "./priorityQueue";
+import { Mutex } from "./mutex";
+import { Clock } from "./clock";
+import { ParsedCommand, ScheduledCommand } from "./types";
+import { SimulatedCluster } from "../k8s/simulator";
+import { createExecutionRecord, ExecutionRecord, getExecutionRecord } from "../observability/executionStore";
+import { issueApiToken, revokeApiToken } from "../auth/apiTokens";
+import { queryAudit } from "../audit/auditLog";
+
+const TARGET = { deployment: "loadlab", namespace: "demo" };
+
+let sequence = 0;
+
+
+let usersDir: string;
+
+
+beforeAll(() => {
+  // Keeps the audit trail out of the working tree and verification short.
+  process.env.AUDIT_STORE = "memory";
+  process.env.ROLLOUT_DEADLINE_MS = "30000";
+
+  // Token commands look up their user's current role through the identity provider.
+  usersDir = fs.mkdtempSync(path.join(os.tmpdir(), "worker-users-"));
+  fs.writeFileSync(path.join(usersDir, "users.json"), JSON.stringify([
+    { id: "dana", role: "NORMAL" },
+    { id: "erin", role: "GUEST" },
+  ]));
+  process.env.AUTH_PROVIDER = "local";
+  process.env.LOCAL_USERS_FILE = path.join(usersDir, "users.json");
+  process.env.API_TOKEN_STORE = "memory";
+});
+
+
+afterAll(() => {
+  fs.rmSync(usersDir, { recursive: true, force: true });
+});
+
+
+afterEach(() => {
+  delete process.env.AUTO_ROLLBACK;
+});
+
+
+function manualClock(): Clock {
+  let now = Date.parse("2026-10-01T03:00:00Z");
+  return {
+    now: () => now,
+    sleep: async ms => {
+      now += ms;
+    },
+  };
+}
+
+
+function command(parsed: ParsedCommand, overrides: Partial<ScheduledCommand> = {}): ScheduledCommand {
+  sequence++;
+  return {
+    id: `cmd_test_${sequence}`,
+    executionId: `exec_test_${sequence}`,
+    userId: "user-1",
+    priority: 1,
+    timestamp: Date.parse("2026-10-01T03:00:00Z"),
+    target: TARGET,
+    role: "ADMIN",
+    parsed,
+    ...overrides,
+  };
+}
+
+
+function scaleTo(replicas: number): ParsedCommand {
+  return {
+    type: "EXECUTE",
+    action: "SCALE",
+    targetReplicas: replicas,
+    scale: { kind: "absolute", replicas },
+    rawText: `scale loadlab to ${replicas}`,
+  };
+}
+
+
+const RESTART: ParsedCommand = { type: "EXECUTE", action: "RESTART", rawText: "restart loadlab" };
+
+
+/**
+ * Runs one command through a fresh worker against `cluster` and returns its
+ * finished execution record. The manual clock makes every wait instant.
+ */
+async function run(cluster: SimulatedCluster, clock: Clock, cmd: ScheduledCommand): Promise<ExecutionRecord> {
+  const queue = new PriorityQueue(undefined, { clock });
+  const worker = new SchedulerWorker(new Mutex(), queue, cluster, clock);
+
+  createExecutionRecord(cmd);
+  queue.enqueue(cmd);
+  worker.start();
+
+  try {
+    for (let turn = 0; turn < 10000; turn++) {
+      const record = getExecutionRecord(cmd.id);
+      if (record && record.status !== "PENDING" && record.status !== "RUNNING") {
+        return record;
+      }
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    throw new Error(`${cmd.id} did not finish`);
+  } finally {
+    worker.stop();
+  }
+}
+
+
+describe("SchedulerWorker rollback", () => {
+  it("completes a healthy scale without rolling back", async () => {
+    const clock = manualClock();
+    const cluster = new SimulatedCluster({ clock });
+
+    const cmd = command(scaleTo(4));
+    const record = await run(cluster, clock, cmd);
+
+    expect(record.status).toBe("SUCCESS");
+    expect(record.rollback).toBeUndefined();
+    expect(record.proof?.readyReplicas).toBe(4);
+    expect(queryAudit({ type: "k8s.patch", executionId: cmd.executionId })).toMatchObject([
+      { commandId: cmd.id, userId: "user-1", target: "demo/loadlab", outcome: "succeeded" },
+    ]);
+  });
+
+
+  it("restores the previous replica count when verification fails", async () => {
+    const clock = manualClock();
+    const cluster = new SimulatedCluster({ clock });
+    const before = await cluster.getDeploymentSnapshot(TARGET);
+    cluster.setFailures({ podFailureRate: 1 });
+
+    const cmd = command(scaleTo(4));
+    const record = await run(cluster, clock, cmd);
+
+    expect(record.status).toBe("FAILED");
+    expect(record.error?.type).toBe("RolloutVerificationError");
+    expect(record.verification).toMatchObject({ converged: false, timedOut: true });
+    expect(record.rollback).toMatchObject({ status: "succeeded", replicas: before.replicas, toRevision: before.revision });
+    expect(record.events.filter(event => event.phase === "rollback").length).toBeGreaterThan(1);
+    expect((await cluster.getStatus(TARGET)).replicas).toBe(before.replicas);
+    // The scale and the restore are both audited as the command's.
+    expect(queryAudit({ type: "k8s.patch", executionId: cmd.executionId }).map(entry => [entry.commandId, entry.userId])).toEqual([
+      [cmd.id, "user-1"],
+      [cmd.id, "user-1"],
+    ]);
+  });
+
+
+  it("restores the pod template after a failed restart", async () => {
+    const clock = manualClock();
+    const cluster = new SimulatedCluster({ clock });
+    const before = await cluster.getDeploymentSnapshot(TARGET);
+    cluster.setFailures({ podFailureRate: 1 });
+
+    const record = await run(cluster, clock, command(RESTART));
+
+    expect(record.status).toBe("FAILED");
+    expect(record.rollback?.status).toBe("succeeded");
+    expect((await cluster.getDeploymentSnapshot(TARGET)).template).toEqual(before.template);
+  });
+
+
+  it("leaves the deployment alone when AUTO_ROLLBACK=false", async () => {
+    process.env.AUTO_ROLLBACK = "false";
+    const clock = manualClock();
+    const cluster = new SimulatedCluster({ clock });
+    cluster.setFailures({ podFailureRate: 1 });
+
+    const record = await run(cluster, clock, command(scaleTo(4)));
+
+    expect(record.status).toBe("FAILED");
+    expect(record.rollback).toBeUndefined();
+    expect(record.events.some(event => event.phase === "rollback")).toBe(false);
+    expect((await cluster.getStatus(TARGET)).replicas).toBe(4);
+  });
+});
+
+
+describe("SchedulerWorker rollback to a revision", () => {
+  function rollbackTo(revision?: number): ParsedCommand {
+    return { type: "EXECUTE", action: "ROLLBACK", revision, rawText: "rollback loadlab" };
+  }
+
+
+  it("rolls back to the previous revision by default, which becomes the newest", async () => {
+    const clock = manualClock();
+    const cluster = new SimulatedCluster({ clock });
+
+    const record = await run(cluster, clock, command(rollbackTo()));
+
+    expect(record.status).toBe("SUCCESS");
+    const [current, previous] = await cluster.getRolloutHistory(TARGET);
+    expect(current).toMatchObject({ revision: 3, current: true, images: ["loadlab:1.0.0"], replicas: 2 });
+    expect(previous).toMatchObject({ revision: 2, current: false, images: ["loadlab:1.1.0"], replicas: 0 });
+  });
+
+
+  it("fails without touching the deployment when the revision does not exist", async () => {
+    const clock = manualClock();
+    const cluster = new SimulatedCluster({ clock });
+    const before = await cluster.getRolloutHistory(TARGET);
+
+    const record = await run(cluster, clock, command(rollbackTo(9)));
+
+    expect(record.status).toBe("FAILED");
+    expect(record.error).toEqual({ type: "KubernetesError", message: "Kubernetes error: Revision 9 not found for deployment loadlab." });
+    expect(await cluster.getRolloutHistory(TARGET)).toEqual(before);
+  });
+});
+
+
+describe("SchedulerWorker access checks", () => {
+  function tokenFor(userId: string): string {
+    const { apiToken } = issueApiToken({
+      name: "ci",
+      kind: "personal",
+      subject: userId,
+      role: "NORMAL",
+      permissions: ["deployments:scale"],
+      expiresInDays: 30,
+    }, userId, "req");
+    return apiToken.id;
+  }
+
+
+  it("runs a token's command with its user's current role", async () => {
+    const clock = manualClock();
+    const cluster = new SimulatedCluster({ clock });
+
+    const record = await run(cluster, clock, command(scaleTo(3), { userId: "dana", role: "NORMAL", tokenId: tokenFor("dana") }));
+
+    expect(record.status).toBe("SUCCESS");
+  });
+
+
+  it("denies a token's command once its user lost the permission", async () => {
+    const clock = manualClock();
+    const cluster = new SimulatedCluster({ clock });
+
+    // Queued while erin was NORMAL; the users file now gives an unconfigured role.
+    const record = await run(cluster, clock, command(scaleTo(3), { userId: "erin", role: "NORMAL", tokenId: tokenFor("erin") }));
+
+    expect(record.status).toBe("FAILED");
+    expect(record.error).toEqual({ type: "AuthorizationError", message: 'Role NONE is missing permission "deployments:scale"' });
+    expect((await cluster.getStatus(TARGET)).replicas).toBe(2);
+  });
+
+
+  it("denies a command whose token was revoked after it was queued", async () => {
+    const clock = manualClock();
+    const cluster = new SimulatedCluster({ clock });
+    const tokenId = tokenFor("dana");
+    revokeApiToken(tokenId, "admin", "req");
+
+    const record = await run(cluster, clock, command(scaleTo(3), { userId: "dana", role: "NORMAL", tokenId }));
+
+    expect(record.status).toBe("FAILED");
+    expect(record.error?.message).toBe(`API token ${tokenId} is revoked`);
+  });
+});
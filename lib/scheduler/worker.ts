@@ -2,8 +2,18 @@
 
 import { Mutex } from "./mutex";
 import { PriorityQueue } from "./priorityQueue";
-import { ScheduledCommand } from "./types";
-import { getK8sExecutor, K8sExecutor } from "../k8s/client";
+import { Clock, systemClock } from "./clock";
+import { ExecuteAction, ScaleChange, ScheduledCommand } from "./types";
+import { describeScaleChange, getScaleChange, isRelativeScale, resolveScaleTarget } from "./resolveScale";
+import { DeploymentSnapshot, getK8sExecutor, K8sExecutor, K8sStatus, PatchActor } from "../k8s/client";
+import { getRolloutDeadlineMs, isAutoRollbackEnabled, RolloutExpectation, waitForRollout } from "../k8s/rollout";
+import { RolloutVerificationError } from "../errors/infraError";
+import { formatTarget, getManagedDeployment } from "../k8s/registry";
+import { enforcePolicies } from "../policy/engine";
+import { checkPermission, getActionPermission } from "../users/roles";
+import { getActiveTokenSubject } from "../auth/apiTokens";
+import { getIdentityProvider } from "../auth/identity";
+import { AuditEventType, AuditOutcome, recordAudit } from "../audit/auditLog";
 import { 
   setWorkerStatus, 
   setCurrentCommand, 
@@ -12,15 +22,19 @@ import {
   setMutexStatus
 } from "../observability/executionState";
 import { StructuredLogger } from "../logging/structuredLogger";
-
-export type CommandStatus = "PENDING" | "RUNNING" | "SUCCESS" | "FAILED";
-
-export interface CommandResult {
-  commandId: string;
-  status: CommandStatus;
-  error?: string;
-  completedAt?: number;
-}
+import {
+  getExecutionRecord,
+  getExecutionWindow,
+  recordExecutionEvent,
+  ExecutionPhase,
+  markExecutionCompleted,
+  markExecutionFailed,
+  recordKubernetesEvents,
+  recordRollback,
+  recordVerificationReport,
+  RollbackRecord,
+} from "../observability/executionStore";
+import { ExecutionEventType, publishExecutionEvent } from "../observability/executionEvents";
 
 export class SchedulerWorker {
   private mutex: Mutex;
@@ -31,21 +45,27 @@ export class SchedulerWorker {
 
   private shuttingDown: boolean = false;
 
-  private pollIntervalMs: number = 100;
+  private shutdownTimeoutMs: number = 5000;
+
+  private loop: Promise<void> | null = null;
+
+  // Resolves a pending waitForWork() so stop/shutdown can end an idle loop.
+  private wake: (() => void) | null = null;
 
   public executionLog: string[] = [];
 
   public isExecuting: boolean = false;
 
-  public results: Map<string, CommandResult> = new Map();
-
   private executor: K8sExecutor;
 
-  constructor(mutex: Mutex, queue: PriorityQueue, executor?: K8sExecutor) {
+  private clock: Clock;
+
+  constructor(mutex: Mutex, queue: PriorityQueue, executor?: K8sExecutor, clock: Clock = systemClock) {
     this.mutex = mutex;
     this.queue = queue;
 
     this.executor = executor || getK8sExecutor();
+    this.clock = clock;
   }
 
 
@@ -56,32 +76,32 @@ export class SchedulerWorker {
     }
 
     this.running = true;
-    this.runLoop();
+    this.loop = this.runLoop();
   }
 
 
   stop(): void {
     this.running = false;
+    this.wake?.();
   }
 
 
   async gracefulShutdown(): Promise<void> {
-    const shutdownExecutionId = "shutdown_" + Date.now();
+    const shutdownExecutionId = "shutdown_" + this.clock.now();
     
     StructuredLogger.info(shutdownExecutionId, "system", "Initiating graceful shutdown");
     
     this.shuttingDown = true;
     this.running = false;
+    this.wake?.();
     
-    let attempts = 0;
-    const maxAttempts = 50;
+    // The loop exits after the command in flight, if any, finishes.
+    const finished = await Promise.race([
+      (this.loop ?? Promise.resolve()).then(() => true),
+      this.clock.sleep(this.shutdownTimeoutMs).then(() => false),
+    ]);
     
-    while (this.isExecuting && attempts < maxAttempts) {
-      await this.sleep(100);
-      attempts++;
-    }
-    
-    if (this.isExecuting) {
+    if (!finished && this.isExecuting) {
       StructuredLogger.warn(shutdownExecutionId, "system", "Shutdown timeout - current execution may be aborted");
     }
     
@@ -102,13 +122,6 @@ export class SchedulerWorker {
 
         if (cmd.parsed.type === "EXECUTE") {
 
-          this.results.set(cmd.id, {
-            commandId: cmd.id,
-            status: "RUNNING",
-          });
-
-
-          
           await this.mutex.acquire();
 
           
@@ -129,10 +142,19 @@ export class SchedulerWorker {
               commandId: cmd.id,
               userId: cmd.userId,
               action: cmd.parsed.action,
+              deployment: cmd.target.deployment,
+              namespace: cmd.target.namespace,
             });
+            this.recordEvent(cmd, "started", "Worker picked up command");
+            this.audit(cmd, "command.started", undefined, {
+              priority: cmd.priority,
+              queueWaitMs: this.clock.now() - cmd.timestamp,
+            });
+            this.publish(cmd, "executing", { action: cmd.parsed.action });
 
 
-            await this.executeCommand(cmd);
+            const verified = await this.executeCommand(cmd);
+            await this.collectEvents(cmd);
 
 
             this.executionLog.push(`END:${cmd.id}`);
@@ -143,16 +165,35 @@ export class SchedulerWorker {
             });
 
 
-            this.results.set(cmd.id, {
+            markExecutionCompleted(cmd.id, {
+              executionId: cmd.executionId,
               commandId: cmd.id,
-              status: "SUCCESS",
-              completedAt: Date.now(),
+              deployment: cmd.target.deployment,
+              namespace: cmd.target.namespace,
+              replicas: verified.replicas,
+              readyReplicas: verified.readyReplicas,
+              pods: verified.pods.length,
+              verifiedAt: new Date(this.clock.now()).toISOString(),
+              durationMs: this.clock.now() - cmd.timestamp,
+            }, this.clock.now());
+            this.publish(cmd, "completed", {
+              message: `Command ${cmd.parsed.action} completed successfully`,
+              replicas: verified.replicas,
+              readyReplicas: verified.readyReplicas,
+            });
+            this.audit(cmd, "command.completed", "succeeded", {
+              replicas: verified.replicas,
+              readyReplicas: verified.readyReplicas,
+              pods: verified.pods.length,
+              durationMs: this.clock.now() - cmd.timestamp,
+              verification: getExecutionRecord(cmd.id)?.verification,
             });
 
-            setLastResult("success", `Command ${cmd.parsed.action} completed successfully`);
+            setLastResult("success", `Command ${cmd.parsed.action} on ${cmd.target.namespace}/${cmd.target.deployment} completed successfully`);
           } catch (error) {
 
             this.executionLog.push(`ERROR:${cmd.id}`);
+            await this.collectEvents(cmd);
             const errorMessage = error instanceof Error ? error.message : String(error);
             StructuredLogger.error(cmd.executionId, "failed", "Command execution failed", {
               commandId: cmd.id,
@@ -161,17 +202,22 @@ export class SchedulerWorker {
               error: errorMessage,
             });
 
+            const errorType = error instanceof Error ? error.constructor.name : "UnknownError";
+            markExecutionFailed(cmd.id, errorType, errorMessage, this.clock.now());
+            this.publish(cmd, "failed", { errorType, message: errorMessage });
 
-
-            this.results.set(cmd.id, {
-              commandId: cmd.id,
-              status: "FAILED",
+            const rollback = getExecutionRecord(cmd.id)?.rollback;
+            this.audit(cmd, "command.failed", "failed", {
+              errorType,
               error: errorMessage,
-              completedAt: Date.now(),
+              durationMs: this.clock.now() - cmd.timestamp,
+              verification: getExecutionRecord(cmd.id)?.verification,
+              rollback,
             });
+            const rollbackNote = rollback ? ` (rollback ${rollback.status})` : "";
 
-            setLastError(error instanceof Error ? error.constructor.name : "UnknownError", errorMessage);
-            setLastResult("failed", `Command ${cmd.parsed.action} failed: ${errorMessage}`);
+            setLastError(errorType, errorMessage);
+            setLastResult("failed", `Command ${cmd.parsed.action} on ${cmd.target.namespace}/${cmd.target.deployment} failed: ${errorMessage}${rollbackNote}`);
           } finally {
             this.isExecuting = false;
             
@@ -183,40 +229,88 @@ export class SchedulerWorker {
             setMutexStatus("free");
             
             this.mutex.release();
+            this.queue.complete(cmd.id);
           }
         } else {
           this.executionLog.push(`PASSTHROUGH:${cmd.id}`);
+          this.queue.complete(cmd.id);
         }
       }
 
 
-      await this.sleep(this.pollIntervalMs);
+      if (cmd === null) {
+        await this.waitForWork();
+      }
     }
   }
 
 
-  private async executeCommand(cmd: ScheduledCommand): Promise<void> {
+  /**
+   * Blocks until the queue reports new work or the worker is stopped.
+   */
+  private waitForWork(): Promise<void> {
+    return new Promise<void>(resolve => {
+      const unsubscribe = this.queue.onEnqueue(() => done());
+      const done = () => {
+        unsubscribe();
+        this.wake = null;
+        resolve();
+      };
+      this.wake = done;
+    });
+  }
+
+
+  private async executeCommand(cmd: ScheduledCommand): Promise<K8sStatus> {
     const action = cmd.parsed.action;
 
 
     if (action === "SCALE") {
 
-      const replicas = cmd.parsed.targetReplicas;
-      if (replicas === undefined) {
+      const change = getScaleChange(cmd.parsed);
+      if (change === undefined) {
         throw new Error(`SCALE command missing targetReplicas: ${cmd.id}`);
       }
 
-      await this.executor.scaleDeployment(replicas, cmd.executionId);
+      const replicas = await this.resolveReplicas(cmd, change);
+      await this.checkAccess(cmd, action, replicas);
+      const snapshot = await this.captureSnapshot(cmd);
+
+      this.recordEvent(cmd, "k8s_call", `Patching spec.replicas to ${replicas}`, { replicas });
+      await this.executor.scaleDeployment(cmd.target, replicas, cmd.executionId, patchActor(cmd));
       
 
-      await this.verifyScaleOperation(replicas, cmd.id, cmd.executionId);
+      this.recordEvent(cmd, "verification", `Waiting for ${replicas} replicas to be ready`);
+      this.publish(cmd, "verification", { stage: "started", expectedReplicas: replicas });
+      return this.withRollback(cmd, snapshot, () => this.verifyScaleOperation(cmd, replicas));
     } else if (action === "RESTART") {
 
+      await this.checkAccess(cmd, action);
+      const snapshot = await this.captureSnapshot(cmd);
 
-      await this.executor.restartDeployment(cmd.executionId);
+      this.recordEvent(cmd, "k8s_call", "Patching restartedAt annotation");
+      await this.executor.restartDeployment(cmd.target, cmd.executionId, patchActor(cmd));
       
 
-      await this.verifyRestartOperation(cmd.id, cmd.executionId);
+      this.recordEvent(cmd, "verification", "Waiting for every pod to be replaced");
+      this.publish(cmd, "verification", { stage: "started" });
+      return this.withRollback(cmd, snapshot, () => this.verifyRestartOperation(cmd));
+    } else if (action === "ROLLBACK") {
+
+      await this.checkAccess(cmd, action);
+      const snapshot = await this.captureSnapshot(cmd);
+      const requested = cmd.parsed.revision === undefined ? "previous revision" : `revision ${cmd.parsed.revision}`;
+
+      this.recordEvent(cmd, "k8s_call", `Restoring pod template from ${requested}`, { revision: cmd.parsed.revision });
+      const revision = await this.executor.rollbackToRevision(cmd.target, cmd.parsed.revision, cmd.executionId, patchActor(cmd));
+
+
+      this.recordEvent(cmd, "verification", `Waiting for revision ${revision.revision} to roll out`, {
+        revision: revision.revision,
+        images: revision.images,
+      });
+      this.publish(cmd, "verification", { stage: "started", revision: revision.revision });
+      return this.withRollback(cmd, snapshot, () => this.verifyRollout(cmd, {}));
     } else {
 
       throw new Error(
@@ -226,69 +320,278 @@ export class SchedulerWorker {
   }
 
 
-  private async verifyScaleOperation(expectedReplicas: number, commandId: string, executionId: string): Promise<void> {
-    try {
+  private audit(cmd: ScheduledCommand, type: AuditEventType, outcome?: AuditOutcome, data?: Record<string, unknown>): void {
+    recordAudit({
+      type,
+      executionId: cmd.executionId,
+      commandId: cmd.id,
+      userId: cmd.userId,
+      tokenId: cmd.tokenId,
+      action: cmd.parsed.action,
+      target: formatTarget(cmd.target),
+      outcome,
+      data,
+    });
+  }
 
-      await this.sleep(1000);
-      
-      const status = await this.executor.getStatus(executionId);
-      
-      if (status.replicas !== expectedReplicas) {
-        throw new Error(
-          `Scale verification failed for command ${commandId}: ` +
-          `Expected ${expectedReplicas} replicas, but deployment shows ${status.replicas}`
-        );
-      }
-      
-      StructuredLogger.info(executionId, "completed", "Scale verification passed", {
-        commandId: commandId,
-        expectedReplicas,
-        actualReplicas: status.replicas,
-      });
+
+  // Execution records are stamped by the worker's clock, like its durations.
+  private recordEvent(cmd: ScheduledCommand, phase: ExecutionPhase, message: string, metadata?: Record<string, unknown>): void {
+    recordExecutionEvent(cmd.id, phase, message, metadata, this.clock.now());
+  }
+
+
+  private publish(cmd: ScheduledCommand, type: ExecutionEventType, data?: Record<string, unknown>): void {
+    publishExecutionEvent({
+      type,
+      commandId: cmd.id,
+      executionId: cmd.executionId,
+      userId: cmd.userId,
+      data,
+    });
+  }
+
+
+  /**
+   * Attaches the Kubernetes Events raised since the command started. Best
+   * effort: a failure here never changes the command's outcome.
+   */
+  private async collectEvents(cmd: ScheduledCommand): Promise<void> {
+    const record = getExecutionRecord(cmd.id);
+    if (!record) {
+      return;
+    }
+
+    try {
+      const events = await this.executor.getEvents(cmd.target, getExecutionWindow(record), cmd.executionId);
+      recordKubernetesEvents(cmd.id, events);
     } catch (error) {
-      StructuredLogger.error(executionId, "failed", "Scale verification failed", {
-        commandId,
-        expectedReplicas,
+      StructuredLogger.warn(cmd.executionId, "executing", "Could not collect Kubernetes events", {
+        commandId: cmd.id,
         error: error instanceof Error ? error.message : String(error),
       });
-      throw error;
     }
   }
 
 
-  private async verifyRestartOperation(commandId: string, executionId: string): Promise<void> {
-    try {
+  /**
+   * Permissions and policies are checked again right before the mutation: a
+   * freeze may have started while the command waited, the API token that
+   * queued it may have been revoked or its user demoted, and relative scales
+   * only resolve here.
+   */
+  private async checkAccess(cmd: ScheduledCommand, action: ExecuteAction, replicas?: number): Promise<void> {
+    const { role, token } = cmd.tokenId
+      ? await getActiveTokenSubject(cmd.tokenId, userId => getIdentityProvider().getRoleForUser(userId), cmd.executionId)
+      : { role: cmd.role ?? "NORMAL", token: undefined };
+    const denied = checkPermission({ role, token }, getActionPermission(action), { target: cmd.target, replicas }, cmd.executionId);
+    if (denied) {
+      throw denied;
+    }
 
-      const status = await this.executor.getStatus(executionId);
-      
-      StructuredLogger.info(executionId, "completed", "Restart verification passed", {
-        commandId: commandId,
-        replicas: status.replicas,
+    const decision = enforcePolicies({
+      action,
+      target: getManagedDeployment(cmd.target, cmd.executionId),
+      role,
+      userId: cmd.userId,
+      replicas,
+      now: this.clock.now(),
+    }, cmd.executionId);
+
+    this.recordEvent(cmd, "authorized", `Policies passed (${decision.verdicts.length} rules applied)`, {
+      verdicts: decision.verdicts,
+    });
+    this.audit(cmd, "command.authorized", undefined, { replicas, policy: decision.verdicts });
+  }
+
+
+  private async resolveReplicas(cmd: ScheduledCommand, change: ScaleChange): Promise<number> {
+    if (!isRelativeScale(change)) {
+      return resolveScaleTarget(change, 0);
+    }
+
+    const status = await this.executor.getStatus(cmd.target, cmd.executionId);
+    const replicas = resolveScaleTarget(change, status.replicas);
+
+    StructuredLogger.info(cmd.executionId, "executing", "Resolved relative scale against live replica count", {
+      commandId: cmd.id,
+      change: describeScaleChange(change),
+      currentReplicas: status.replicas,
+      targetReplicas: replicas,
+    });
+
+    return replicas;
+  }
+
+
+  private verifyScaleOperation(cmd: ScheduledCommand, expectedReplicas: number): Promise<K8sStatus> {
+    return this.verifyRollout(cmd, { replicas: expectedReplicas });
+  }
+
+
+  private verifyRestartOperation(cmd: ScheduledCommand): Promise<K8sStatus> {
+    return this.verifyRollout(cmd, { requireRestart: true });
+  }
+
+
+  /**
+   * Waits for the Deployment to converge and records each progress change.
+   * A rollout that misses the deadline fails the command with the last
+   * progress report attached.
+   */
+  private async verifyRollout(cmd: ScheduledCommand, expectation: RolloutExpectation): Promise<K8sStatus> {
+    const deadlineMs = getRolloutDeadlineMs();
+    const report = await waitForRollout(this.executor, cmd.target, expectation, {
+      executionId: cmd.executionId,
+      deadlineMs,
+      clock: this.clock,
+      onProgress: progress => {
+        this.recordEvent(cmd, "verification", progress.summary, { converged: progress.converged });
+        this.publish(cmd, "verification", { stage: "progress", summary: progress.summary });
+      },
+    });
+
+    recordVerificationReport(cmd.id, report);
+
+    if (!report.converged) {
+      StructuredLogger.error(cmd.executionId, "failed", "Rollout verification timed out", {
+        commandId: cmd.id,
+        action: cmd.parsed.action,
+        deadlineMs,
+        report,
       });
+      throw new RolloutVerificationError(
+        `${cmd.target.namespace}/${cmd.target.deployment} did not converge within ${Math.round(deadlineMs / 1000)}s (${report.summary})`,
+        cmd.executionId,
+        { commandId: cmd.id, report }
+      );
+    }
+
+    StructuredLogger.info(cmd.executionId, "completed", "Rollout verification passed", {
+      commandId: cmd.id,
+      action: cmd.parsed.action,
+      summary: report.summary,
+      elapsedMs: report.elapsedMs,
+    });
+
+    return this.executor.getStatus(cmd.target, cmd.executionId);
+  }
+
+
+  /**
+   * Records what the Deployment looks like before it is changed, so a failed
+   * verification can put it back. Null when automatic rollback is disabled.
+   */
+  private async captureSnapshot(cmd: ScheduledCommand): Promise<DeploymentSnapshot | null> {
+    if (!isAutoRollbackEnabled()) {
+      return null;
+    }
+
+    const snapshot = await this.executor.getDeploymentSnapshot(cmd.target, cmd.executionId);
+    this.recordEvent(cmd, "k8s_call", `Captured rollback point: ${snapshot.replicas} replicas, revision ${snapshot.revision ?? "unknown"}`, {
+      replicas: snapshot.replicas,
+      revision: snapshot.revision,
+    });
+
+    return snapshot;
+  }
+
+
+  /**
+   * Runs verification and, if it fails, restores the snapshot before
+   * rethrowing. The command still fails: the rollback is compensation, not
+   * a retry.
+   */
+  private async withRollback(
+    cmd: ScheduledCommand,
+    snapshot: DeploymentSnapshot | null,
+    verify: () => Promise<K8sStatus>
+  ): Promise<K8sStatus> {
+    try {
+      return await verify();
     } catch (error) {
-      StructuredLogger.error(executionId, "failed", "Restart verification failed", {
-        commandId,
-        error: error instanceof Error ? error.message : String(error),
-      });
+      if (snapshot && error instanceof RolloutVerificationError) {
+        await this.rollBack(cmd, snapshot, error);
+      }
       throw error;
     }
   }
 
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise<void>(resolve => {
-      const start = Date.now();
+  private async rollBack(cmd: ScheduledCommand, snapshot: DeploymentSnapshot, cause: Error): Promise<void> {
+    const base = {
+      reason: cause.message,
+      replicas: snapshot.replicas,
+      toRevision: snapshot.revision,
+    };
+    let fromRevision: string | null = null;
 
-      function check() {
-        if (Date.now() - start >= ms) {
-          resolve();
-        } else {
-          setImmediate(check);
-        }
-      }
-      check();
+    StructuredLogger.warn(cmd.executionId, "executing", "Verification failed - rolling back", {
+      commandId: cmd.id,
+      action: cmd.parsed.action,
+      replicas: snapshot.replicas,
+      revision: snapshot.revision,
+    });
+    this.recordEvent(cmd, "rollback", `Rolling back to ${snapshot.replicas} replicas, revision ${snapshot.revision ?? "unknown"}`, {
+      replicas: snapshot.replicas,
+      revision: snapshot.revision,
     });
+    this.publish(cmd, "verification", { stage: "rollback", replicas: snapshot.replicas, revision: snapshot.revision });
+
+    let rollback: RollbackRecord;
+    try {
+      fromRevision = (await this.executor.getDeploymentSnapshot(cmd.target, cmd.executionId)).revision;
+      await this.executor.restoreDeploymentSnapshot(cmd.target, snapshot, cmd.executionId, patchActor(cmd));
+
+      const report = await waitForRollout(this.executor, cmd.target, { replicas: snapshot.replicas }, {
+        executionId: cmd.executionId,
+        clock: this.clock,
+        onProgress: progress => {
+          this.recordEvent(cmd, "rollback", progress.summary, { converged: progress.converged });
+        },
+      });
+
+      rollback = {
+        ...base,
+        status: report.converged ? "succeeded" : "unverified",
+        fromRevision,
+        summary: report.summary,
+        completedAt: this.clock.now(),
+      };
+    } catch (error) {
+      rollback = {
+        ...base,
+        status: "failed",
+        fromRevision,
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: this.clock.now(),
+      };
+    }
+
+    recordRollback(cmd.id, rollback);
+    this.recordEvent(cmd, "rollback", describeRollback(rollback), { status: rollback.status });
+    this.publish(cmd, "verification", { stage: "rollback", status: rollback.status, summary: rollback.summary });
+
+    if (rollback.status === "succeeded") {
+      StructuredLogger.warn(cmd.executionId, "failed", "Rollback succeeded", { commandId: cmd.id, ...rollback });
+    } else {
+      StructuredLogger.error(cmd.executionId, "failed", `Rollback ${rollback.status}`, { commandId: cmd.id, ...rollback });
+    }
   }
 }
 
 
+function describeRollback(rollback: RollbackRecord): string {
+  if (rollback.status === "succeeded") {
+    return `Rolled back to ${rollback.replicas} replicas (${rollback.summary})`;
+  }
+  if (rollback.status === "unverified") {
+    return `Rollback applied but did not converge (${rollback.summary})`;
+  }
+  return `Rollback failed: ${rollback.error}`;
+}
+
+
+function patchActor(cmd: ScheduledCommand): PatchActor {
+  return { commandId: cmd.id, userId: cmd.userId, tokenId: cmd.tokenId };
+}
@@ -0,0 +1,5 @@
+import { spyOn } from "bun:test";
+import { StructuredLogger } from "../logging/structuredLogger";
+
+// Loaded before every test file (see bunfig.toml). Tests assert on behaviour, not on log lines.
+spyOn(StructuredLogger, "log").mockImplementation(() => {});
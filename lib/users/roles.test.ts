@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import {
+  checkPermission,
+  describeRole,
+  getCommandPermission,
+  getRole,
+  resolveRole,
+  UNKNOWN_ROLE,
+} from "./roles";
+
+const WEB = { deployment: "web", namespace: "shop" };
+
+const BILLING = { deployment: "invoices", namespace: "billing" };
+
+const previousConfig = process.env.ROLES_CONFIG;
+
+
+beforeAll(() => {
+  // Roles load once, on first use.
+  process.env.ROLES_CONFIG = JSON.stringify({
+    OPERATOR: { priority: 2, permissions: ["deployments:read", "deployments:scale"], targets: ["shop"], maxReplicas: 4 },
+    FREE: { priority: 3, permissions: ["deployments:read"] },
+  });
+});
+
+
+afterAll(() => {
+  if (previousConfig === undefined) {
+    delete process.env.ROLES_CONFIG;
+  } else {
+    process.env.ROLES_CONFIG = previousConfig;
+  }
+});
+
+
+describe("resolveRole", () => {
+  it("maps missing, known and unknown roles", () => {
+    expect(resolveRole(undefined)).toBe("FREE");
+    expect(resolveRole("OPERATOR")).toBe("OPERATOR");
+    expect(resolveRole("OPERATR")).toBe(UNKNOWN_ROLE);
+  });
+
+
+  it("lets ROLES_CONFIG replace a built-in role", () => {
+    expect(getRole("FREE")).toMatchObject({ priority: 3, permissions: ["deployments:read"] });
+    expect(getRole("ADMIN").priority).toBe(1);
+  });
+});
+
+
+describe("checkPermission", () => {
+  it("allows what the role grants and names what it lacks", () => {
+    expect(checkPermission("ADMIN", "audit:read")).toBeNull();
+    expect(checkPermission("OPERATOR", "deployments:restart", { target: WEB })?.message).toBe(
+      'Role OPERATOR is missing permission "deployments:restart"'
+    );
+  });
+
+
+  it("gives an unknown role nothing", () => {
+    expect(checkPermission(UNKNOWN_ROLE, "deployments:read")).not.toBeNull();
+    expect(checkPermission("GHOST", "deployments:read")?.message).toBe('Role NONE is missing permission "deployments:read"');
+  });
+
+
+  it("limits a role to its targets and replica cap", () => {
+    expect(checkPermission("OPERATOR", "deployments:scale", { target: WEB, replicas: 4 })).toBeNull();
+    expect(checkPermission("OPERATOR", "deployments:scale", { target: BILLING })?.message).toBe(
+      'Role OPERATOR is missing permission "deployments:scale" on billing/invoices'
+    );
+    expect(checkPermission("OPERATOR", "deployments:scale", { target: WEB, replicas: 5 })?.message).toBe(
+      'Role OPERATOR is missing permission "deployments:scale" above 4 replicas (requested 5)'
+    );
+    // The cap is for scaling only.
+    expect(checkPermission("OPERATOR", "deployments:read", { target: WEB, replicas: 5 })).toBeNull();
+  });
+
+
+  it("checks the permission alone when there is no target", () => {
+    expect(checkPermission("OPERATOR", "deployments:read")).toBeNull();
+  });
+
+
+  it("carries the execution id and check details on a denial", () => {
+    const denied = checkPermission("OPERATOR", "deployments:scale", { target: BILLING }, "exec-1");
+    expect(denied?.getHttpStatus()).toBe(403);
+    expect(denied?.toLogEntry()).toMatchObject({ executionId: "exec-1" });
+  });
+});
+
+
+describe("getCommandPermission", () => {
+  it("maps each command type to the permission it needs", () => {
+    expect(getCommandPermission({ type: "READ", rawText: "status web" })).toBe("deployments:read");
+    expect(getCommandPermission({ type: "DRY_RUN", action: "SCALE", rawText: "dry-run scale web to 2" })).toBe("deployments:dry-run");
+    expect(getCommandPermission({ type: "EXECUTE", action: "ROLLBACK", rawText: "rollback web" })).toBe("deployments:rollback");
+    expect(getCommandPermission({ type: "HELP", rawText: "help" })).toBeNull();
+  });
+});
+
+
+describe("describeRole", () => {
+  it("lists permissions and limits", () => {
+    expect(describeRole("OPERATOR")).toBe("OPERATOR: deployments:read, deployments:scale (only shop; scale up to 4 replicas)");
+    expect(describeRole(UNKNOWN_ROLE)).toBe("NONE: no permissions");
+  });
+});
@@ -0,0 +1,299 @@
+import { AuthorizationError } from "../errors/userError";
+import { formatTarget } from "../k8s/registry";
+import { StructuredLogger } from "../logging/structuredLogger";
+import { DeploymentTarget, ExecuteAction, ParsedCommand, PriorityLevel, UserRole } from "../scheduler/types";
+
+export type Permission =
+  | "deployments:read"
+  | "deployments:dry-run"
+  | "deployments:scale"
+  | "deployments:restart"
+  | "deployments:rollback"
+  | "queue:cancel-own"
+  | "queue:cancel-any"
+  | "queue:reprioritize"
+  | "executions:read-any"
+  | "system:health"
+  | "dashboard:admin"
+  | "tokens:personal"
+  | "tokens:manage"
+  | "audit:read";
+
+export const PERMISSIONS: Permission[] = [
+  "deployments:read",
+  "deployments:dry-run",
+  "deployments:scale",
+  "deployments:restart",
+  "deployments:rollback",
+  "queue:cancel-own",
+  "queue:cancel-any",
+  "queue:reprioritize",
+  "executions:read-any",
+  "system:health",
+  "dashboard:admin",
+  "tokens:personal",
+  "tokens:manage",
+  "audit:read",
+];
+
+/**
+ * What a role may do. `targets` entries are a namespace ("shop") or one
+ * deployment ("shop/checkout"); without them every managed deployment is in
+ * scope. `maxReplicas` caps SCALE below the deployment's own range.
+ */
+export interface RoleDefinition {
+  name: UserRole;
+  priority: PriorityLevel;
+  permissions: Permission[];
+  targets?: string[];
+  maxReplicas?: number;
+}
+
+/**
+ * What an API token was issued for. It can only narrow its role: a check
+ * passes when both the role and the token allow it.
+ */
+export interface TokenGrant {
+  tokenId: string;
+  permissions: Permission[];
+  targets?: string[];
+}
+
+export interface PermissionSubject {
+  role: UserRole;
+  token?: TokenGrant;
+}
+
+/**
+ * Narrows a check to one deployment and, for SCALE, the replica count asked
+ * for. Checks without a target only look at the permission itself.
+ */
+export interface PermissionScope {
+  target?: DeploymentTarget;
+  replicas?: number;
+}
+
+const DEPLOYMENT_PERMISSIONS: Permission[] = [
+  "deployments:read",
+  "deployments:dry-run",
+  "deployments:scale",
+  "deployments:restart",
+  "deployments:rollback",
+];
+
+// Users with no role get this one.
+export const DEFAULT_ROLE: UserRole = "FREE";
+
+// Users whose role is not configured (a typo, or ROLES_CONFIG failed to load) get this one.
+export const UNKNOWN_ROLE: UserRole = "NONE";
+
+const BUILT_IN_ROLES: RoleDefinition[] = [
+  { name: "ADMIN", priority: 1, permissions: PERMISSIONS },
+  { name: "FREE", priority: 2, permissions: [...DEPLOYMENT_PERMISSIONS, "queue:cancel-own", "tokens:personal"] },
+  { name: "NORMAL", priority: 3, permissions: [...DEPLOYMENT_PERMISSIONS, "queue:cancel-own", "tokens:personal"] },
+  { name: UNKNOWN_ROLE, priority: 3, permissions: [] },
+];
+
+let roles: Map<UserRole, RoleDefinition> | null = null;
+
+
+export function getRoles(): RoleDefinition[] {
+  return [...getRoleMap().values()];
+}
+
+
+export function isKnownRole(name: string): boolean {
+  return getRoleMap().has(name);
+}
+
+
+/**
+ * Maps whatever role an identity provider reports onto a configured role.
+ * Fails closed: a role name that is not configured gets no permissions
+ * rather than the default role's.
+ */
+export function resolveRole(name?: string): UserRole {
+  if (!name) {
+    return DEFAULT_ROLE;
+  }
+  if (isKnownRole(name)) {
+    return name;
+  }
+
+  StructuredLogger.warn("system", "system", `Unknown role "${name}" - granting no permissions`, { role: name });
+  return UNKNOWN_ROLE;
+}
+
+
+export function getRole(name: UserRole): RoleDefinition {
+  return getRoleMap().get(name) ?? (getRoleMap().get(UNKNOWN_ROLE) as RoleDefinition);
+}
+
+
+export function getActionPermission(action: ExecuteAction): Permission {
+  return `deployments:${action.toLowerCase()}` as Permission;
+}
+
+
+// HELP and QUEUE commands return null; queue control checks its own permissions.
+export function getCommandPermission(parsed: ParsedCommand): Permission | null {
+  if (parsed.type === "READ") {
+    return "deployments:read";
+  }
+  if (parsed.type === "DRY_RUN") {
+    return "deployments:dry-run";
+  }
+  if (parsed.type === "EXECUTE" && parsed.action) {
+    return getActionPermission(parsed.action);
+  }
+  return null;
+}
+
+
+/**
+ * The single authorization check. Takes a role or an identity (whose API
+ * token, if any, narrows the role) and returns the error to report, naming
+ * the missing permission, or null when the caller may go ahead.
+ */
+export function checkPermission(
+  subject: UserRole | PermissionSubject,
+  permission: Permission,
+  scope: PermissionScope = {},
+  executionId?: string
+): AuthorizationError | null {
+  const { role, token } = typeof subject === "string" ? { role: subject, token: undefined } : subject;
+  const definition = getRole(role);
+  const metadata = {
+    role: definition.name,
+    permission,
+    target: scope.target ? formatTarget(scope.target) : undefined,
+    replicas: scope.replicas,
+  };
+
+  if (!definition.permissions.includes(permission)) {
+    return new AuthorizationError(`Role ${definition.name} is missing permission "${permission}"`, executionId, metadata);
+  }
+
+  if (scope.target && !inScope(definition.targets, scope.target)) {
+    return new AuthorizationError(
+      `Role ${definition.name} is missing permission "${permission}" on ${formatTarget(scope.target)}`,
+      executionId,
+      { ...metadata, allowedTargets: definition.targets }
+    );
+  }
+
+  if (
+    permission === "deployments:scale" &&
+    scope.replicas !== undefined &&
+    definition.maxReplicas !== undefined &&
+    scope.replicas > definition.maxReplicas
+  ) {
+    return new AuthorizationError(
+      `Role ${definition.name} is missing permission "${permission}" above ${definition.maxReplicas} replicas (requested ${scope.replicas})`,
+      executionId,
+      { ...metadata, maxReplicas: definition.maxReplicas }
+    );
+  }
+
+  if (token && !token.permissions.includes(permission)) {
+    return new AuthorizationError(
+      `API token ${token.tokenId} is missing scope "${permission}"`,
+      executionId,
+      { ...metadata, tokenId: token.tokenId }
+    );
+  }
+
+  if (token && scope.target && !inScope(token.targets, scope.target)) {
+    return new AuthorizationError(
+      `API token ${token.tokenId} is missing scope "${permission}" on ${formatTarget(scope.target)}`,
+      executionId,
+      { ...metadata, tokenId: token.tokenId, allowedTargets: token.targets }
+    );
+  }
+
+  return null;
+}
+
+
+export function describeRole(name: UserRole): string {
+  const definition = getRole(name);
+  const limits = [
+    ...(definition.targets ? [`only ${definition.targets.join(", ")}`] : []),
+    ...(definition.maxReplicas !== undefined ? [`scale up to ${definition.maxReplicas} replicas`] : []),
+  ];
+  return `${definition.name}: ${definition.permissions.join(", ") || "no permissions"}${limits.length > 0 ? ` (${limits.join("; ")})` : ""}`;
+}
+
+
+function inScope(targets: string[] | undefined, target: DeploymentTarget): boolean {
+  return !targets || targets.some(
+    entry => entry === target.namespace || entry === formatTarget(target)
+  );
+}
+
+
+function getRoleMap(): Map<UserRole, RoleDefinition> {
+  if (!roles) {
+    roles = new Map(BUILT_IN_ROLES.map(role => [role.name, role]));
+    for (const custom of loadCustomRoles()) {
+      roles.set(custom.name, custom);
+    }
+  }
+  return roles;
+}
+
+
+/**
+ * ROLES_CONFIG adds or replaces roles, keyed by name, e.g.
+ * {"OPERATOR":{"priority":2,"permissions":["deployments:read","deployments:restart","deployments:scale"],"maxReplicas":3}}.
+ * An invalid value is logged and only the built-in roles are used, so users
+ * of the custom roles get no permissions until it is fixed.
+ */
+function loadCustomRoles(): RoleDefinition[] {
+  const raw = process.env.ROLES_CONFIG;
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      throw new Error("expected a JSON object keyed by role name");
+    }
+    return Object.entries(parsed).map(([name, entry]) => validateRole(name, entry));
+  } catch (error) {
+    StructuredLogger.error("system", "system", "Invalid ROLES_CONFIG - using built-in roles only; custom role users get no permissions", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+
+function validateRole(name: string, entry: unknown): RoleDefinition {
+  if (name === UNKNOWN_ROLE) {
+    throw new Error(`role ${UNKNOWN_ROLE} is reserved for unknown roles`);
+  }
+
+  const candidate = (entry ?? {}) as Partial<RoleDefinition>;
+  const { priority, permissions, targets, maxReplicas } = candidate;
+
+  if (priority !== 1 && priority !== 2 && priority !== 3) {
+    throw new Error(`role ${name} needs "priority" 1, 2 or 3`);
+  }
+  if (!Array.isArray(permissions)) {
+    throw new Error(`role ${name} needs a "permissions" array`);
+  }
+  const unknown = permissions.filter(permission => !PERMISSIONS.includes(permission));
+  if (unknown.length > 0) {
+    throw new Error(`role ${name} has unknown permissions: ${unknown.join(", ")}`);
+  }
+  if (targets !== undefined && !Array.isArray(targets)) {
+    throw new Error(`role ${name} "targets" must be an array`);
+  }
+  if (maxReplicas !== undefined && (!Number.isInteger(maxReplicas) || maxReplicas < 0)) {
+    throw new Error(`role ${name} "maxReplicas" must be a non-negative integer`);
+  }
+
+  return { name, priority, permissions, targets, maxReplicas };
+}